@@ -1,7 +1,26 @@
+const cryptoWorker = 'crypto.worker';
+
 module.exports = {
     webpack: {
-        configure: {
-            target: 'electron-renderer'
+        configure: webpackConfig => {
+            webpackConfig.target = 'electron-renderer';
+
+            // The crypto worker is a separate entry which is loaded by url, so it has a fixed
+            // name and carries its own runtime and modules instead of sharing chunks with the app
+            const appFilename = webpackConfig.output.filename;
+            webpackConfig.entry = {
+                main: webpackConfig.entry,
+                [cryptoWorker]: './src/workers/crypto.worker.ts'
+            };
+            webpackConfig.output.filename = chunkData =>
+                (chunkData.chunk.name === cryptoWorker ? 'static/js/[name].js' : appFilename);
+            webpackConfig.optimization.splitChunks.chunks = chunk => chunk.name !== cryptoWorker;
+            webpackConfig.optimization.runtimeChunk = false;
+
+            const htmlPlugin = webpackConfig.plugins.find(p => p.constructor.name === 'HtmlWebpackPlugin');
+            htmlPlugin.options.excludeChunks = [cryptoWorker];
+
+            return webpackConfig;
         }
     }
-};
\ No newline at end of file
+};
@@ -3,11 +3,14 @@ import { Link } from "react-router-dom";
 import logoHeader from "../assets/logo-header.svg";
 import { ServiceFactory } from "../factories/serviceFactory";
 import { ElectronHelper } from "../helpers/electronHelper";
+import { IProfileService } from "../models/services/IProfileService";
 import { ISettingsService } from "../models/services/ISettingsService";
 import { IWalletService } from "../models/services/IWalletService";
 import "./App.scss";
 import { AppProps } from "./AppProps";
 import { AppState } from "./AppState";
+import InspectTransaction from "./components/InspectTransaction";
+import Profiles from "./components/Profiles";
 import Settings from "./components/Settings";
 import Wallet from "./components/Wallet";
 
@@ -15,6 +18,11 @@ import Wallet from "./components/Wallet";
  * Main application class.
  */
 class App extends Component<AppProps, AppState> {
+    /**
+     * The window events which count as user activity.
+     */
+    private static readonly ACTIVITY_EVENTS: string[] = ["mousedown", "mousemove", "keydown", "wheel"];
+
     /**
      * Settings service.
      */
@@ -25,6 +33,16 @@ class App extends Component<AppProps, AppState> {
      */
     private readonly _walletService: IWalletService;
 
+    /**
+     * Profile service.
+     */
+    private readonly _profileService: IProfileService;
+
+    /**
+     * Subscription id for wallet updates.
+     */
+    private _subscriptionId?: string;
+
     /**
      * Create a new instance of App.
      * @param props The props.
@@ -34,10 +52,13 @@ class App extends Component<AppProps, AppState> {
 
         this._settingsService = ServiceFactory.get<ISettingsService>("settings");
         this._walletService = ServiceFactory.get<IWalletService>("wallet");
+        this._profileService = ServiceFactory.get<IProfileService>("profile");
 
         this.state = {
             displayMode: "wallet"
         };
+
+        this.recordActivity = this.recordActivity.bind(this);
     }
 
     /**
@@ -48,8 +69,34 @@ class App extends Component<AppProps, AppState> {
         const settings = await this._settingsService.get();
         this.setState({
             wallet,
+            isLocked: this._walletService.isLocked(),
             settings
         });
+        await this.loadProfiles();
+
+        this._subscriptionId = this._walletService.subscribe(() => {
+            this.setState({
+                isLocked: this._walletService.isLocked()
+            });
+        });
+
+        for (const eventName of App.ACTIVITY_EVENTS) {
+            window.addEventListener(eventName, this.recordActivity);
+        }
+    }
+
+    /**
+     * The component will unmount so remove subscriptions.
+     */
+    public componentWillUnmount(): void {
+        if (this._subscriptionId) {
+            this._walletService.unsubscribe(this._subscriptionId);
+            this._subscriptionId = undefined;
+        }
+
+        for (const eventName of App.ACTIVITY_EVENTS) {
+            window.removeEventListener(eventName, this.recordActivity);
+        }
     }
 
     /**
@@ -63,6 +110,21 @@ class App extends Component<AppProps, AppState> {
                     <Link className="brand" to="/">
                         <img src={logoHeader} alt="Pollen Wallet" />
                     </Link>
+                    {this.state.profiles && this.state.profiles.length > 1 && (
+                        <div className="profile-switcher select-wrapper select-wrapper--small">
+                            <select
+                                disabled={this.state.displayMode !== "wallet"}
+                                value={this.state.activeProfileId}
+                                onChange={e => this.switchProfile(e.target.value)}
+                            >
+                                {this.state.profiles.map(profile => (
+                                    <option key={profile.id} value={profile.id}>
+                                        {profile.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    )}
                     {ElectronHelper.isElectron() && (
                         <button
                             onClick={() => window.close()}
@@ -80,15 +142,28 @@ class App extends Component<AppProps, AppState> {
                             })}
                         />
                     )}
+                    {this.state.displayMode === "profiles" && (
+                        <Profiles
+                            onUpdated={async () => this.refreshWallet()}
+                            onClose={() => this.setState({ displayMode: "wallet" })}
+                        />
+                    )}
+                    {this.state.displayMode === "inspect" && (
+                        <InspectTransaction
+                            assets={this.state.wallet?.assets ?? []}
+                            onClose={() => this.setState({ displayMode: "wallet" })}
+                        />
+                    )}
                     {this.state.displayMode === "wallet" && (
-                        <Wallet onUpdated={
+                        <Wallet key={this.state.activeProfileId} onUpdated={
                             async () => this.setState({
-                                wallet: await this._walletService.get()
+                                wallet: await this._walletService.get(),
+                                isLocked: this._walletService.isLocked()
                             })
                         } />
                     )}
                     {this.state.displayMode === "wallet" &&
-                        (!this.state.wallet || (this.state.wallet && !this.state.wallet.seed)) &&
+                        !this.state.wallet &&
                         this.state.settings?.apiEndpoint === "http://127.0.0.1:8080" && (
                             <div className="card margin-t-s">
                                 <div className="card--header">
@@ -141,11 +216,33 @@ class App extends Component<AppProps, AppState> {
                         >
                             Settings
                         </button>
+                        <button
+                            disabled={this.state.displayMode !== "wallet"}
+                            className="margin-r-s"
+                            onClick={() => this.setState({ displayMode: "profiles" })}
+                        >
+                            Profiles
+                        </button>
+                        <button
+                            disabled={this.state.displayMode !== "wallet"}
+                            className="margin-r-s"
+                            onClick={() => this.setState({ displayMode: "inspect" })}
+                        >
+                            Inspect Transaction
+                        </button>
+                        <button
+                            disabled={this.state.displayMode !== "wallet" || !this.state.wallet ||
+                                this._walletService.isWatchOnly() || this.state.isLocked}
+                            className="margin-r-s"
+                            onClick={() => this._walletService.lock()}
+                        >
+                            Lock
+                        </button>
                     </div>
                     <span className="margin-r-s">v{process.env.REACT_APP_VERSION}</span>
                     <div>
                         <button
-                            disabled={this.state.displayMode !== "wallet" || !this.state.wallet}
+                            disabled={this.state.displayMode !== "wallet" || !this.state.wallet || this.state.isLocked}
                             className="button--danger"
                             onClick={() => this.setState({ displayMode: "delete-wallet" })}
                         >
@@ -158,6 +255,45 @@ class App extends Component<AppProps, AppState> {
         );
     }
 
+    /**
+     * Record user activity with the wallet service.
+     */
+    private recordActivity(): void {
+        this._walletService.recordActivity();
+    }
+
+    /**
+     * Load the profiles from the service.
+     */
+    private async loadProfiles(): Promise<void> {
+        const profiles = await this._profileService.getAll();
+        const active = await this._profileService.getActive();
+        this.setState({
+            profiles: profiles.slice(),
+            activeProfileId: active.id
+        });
+    }
+
+    /**
+     * Reload the wallet and profiles after the profiles have changed.
+     */
+    private async refreshWallet(): Promise<void> {
+        this.setState({
+            wallet: await this._walletService.get(),
+            isLocked: this._walletService.isLocked()
+        });
+        await this.loadProfiles();
+    }
+
+    /**
+     * Switch to a different profile.
+     * @param id The id of the profile to switch to.
+     */
+    private async switchProfile(id: string): Promise<void> {
+        await this._walletService.switchProfile(id);
+        await this.refreshWallet();
+    }
+
     /**
      * Delete a wallet using the service.
      */
@@ -165,7 +301,8 @@ class App extends Component<AppProps, AppState> {
         await this._walletService.delete();
         this.setState({
             displayMode: "wallet",
-            wallet: undefined
+            wallet: undefined,
+            isLocked: false
         });
     }
 }
@@ -1,5 +1,6 @@
 import { ISettings } from "../models/ISettings";
 import { IWallet } from "../models/IWallet";
+import { IWalletProfile } from "../models/IWalletProfile";
 
 export interface AppState {
     /**
@@ -12,6 +13,21 @@ export interface AppState {
      */
     wallet?: IWallet;
 
+    /**
+     * Is the current wallet locked.
+     */
+    isLocked?: boolean;
+
+    /**
+     * The wallet profiles.
+     */
+    profiles?: IWalletProfile[];
+
+    /**
+     * The id of the active profile.
+     */
+    activeProfileId?: string;
+
     /**
      * The current settings.
      */
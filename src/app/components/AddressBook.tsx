@@ -0,0 +1,475 @@
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { FileHelper } from "../../helpers/fileHelper";
+import { Address } from "../../iota/address";
+import { Colors } from "../../iota/colors";
+import { IAddressBookEntry } from "../../models/IAddressBookEntry";
+import { IAddressBookService } from "../../models/services/IAddressBookService";
+import { AddressBookProps } from "./AddressBookProps";
+import { AddressBookState } from "./AddressBookState";
+import Spinner from "./Spinner";
+
+/**
+ * Component which will manage the address book.
+ */
+class AddressBook extends Component<AddressBookProps, AddressBookState> {
+    /**
+     * Address book service.
+     */
+    private readonly _addressBookService: IAddressBookService;
+
+    /**
+     * The file input for importing entries.
+     */
+    private readonly _fileInput: React.RefObject<HTMLInputElement>;
+
+    /**
+     * Create a new instance of AddressBook.
+     * @param props The props.
+     */
+    constructor(props: AddressBookProps) {
+        super(props);
+
+        this._addressBookService = ServiceFactory.get<IAddressBookService>("address-book");
+        this._fileInput = React.createRef();
+
+        this.state = {
+            isBusy: true,
+            entries: [],
+            search: "",
+            name: "",
+            address: "",
+            note: "",
+            defaultColor: ""
+        };
+    }
+
+    /**
+     * The component mounted.
+     */
+    public async componentDidMount(): Promise<void> {
+        await this.loadEntries();
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        const filtered = this.filterEntries();
+
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between">
+                    <h2>Address Book</h2>
+                    <div className="row">
+                        <input
+                            ref={this._fileInput}
+                            type="file"
+                            accept=".json"
+                            hidden={true}
+                            onChange={e => this.importFile(e.target.files)}
+                        />
+                        {this.state.editId === undefined && (
+                            <button
+                                className="margin-r-t"
+                                disabled={this.state.isBusy}
+                                onClick={() => this.setState({
+                                    editId: "",
+                                    name: "",
+                                    address: "",
+                                    note: "",
+                                    defaultColor: "",
+                                    deleteId: undefined,
+                                    status: undefined,
+                                    error: undefined
+                                })}
+                            >
+                                New Entry
+                            </button>
+                        )}
+                        <button
+                            className="margin-r-t"
+                            disabled={this.state.isBusy}
+                            onClick={() => this._fileInput.current?.click()}
+                        >
+                            Import
+                        </button>
+                        <button
+                            className="margin-r-t"
+                            disabled={this.state.isBusy || this.state.entries.length === 0}
+                            onClick={() => this.exportEntries()}
+                        >
+                            Export
+                        </button>
+                        <button
+                            className="button--secondary"
+                            disabled={this.state.isBusy}
+                            onClick={() => this.props.onClose()}
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+                <div className="card--content">
+                    {this.state.editId !== undefined && this.renderEdit()}
+                    <div className="card--value margin-b-s">
+                        <input
+                            className="fill"
+                            type="text"
+                            placeholder="Search by name, address or note"
+                            value={this.state.search}
+                            onChange={e => this.setState({ search: e.target.value })}
+                        />
+                    </div>
+                    {filtered.length === 0 && (
+                        <p>There are no matching entries in the address book.</p>
+                    )}
+                    {filtered.length > 0 && (
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Name</th>
+                                    <th>Address</th>
+                                    <th>Default Asset</th>
+                                    <th>&nbsp;</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filtered.map(entry => (
+                                    <tr key={entry.id} className="middle">
+                                        <td className="break">
+                                            {entry.name}
+                                            {entry.note && (
+                                                <div className="margin-t-t">{entry.note}</div>
+                                            )}
+                                        </td>
+                                        <td className="break">{entry.address}</td>
+                                        <td>{entry.defaultColor ? this.assetName(entry.defaultColor) : "-"}</td>
+                                        <td>
+                                            {this.state.deleteId === entry.id ? (
+                                                <React.Fragment>
+                                                    <button
+                                                        className="button--danger margin-r-t"
+                                                        disabled={this.state.isBusy}
+                                                        onClick={() => this.removeEntry(entry.id)}
+                                                    >
+                                                        Confirm Delete
+                                                    </button>
+                                                    <button
+                                                        className="button--secondary"
+                                                        disabled={this.state.isBusy}
+                                                        onClick={() => this.setState({ deleteId: undefined })}
+                                                    >
+                                                        Cancel
+                                                    </button>
+                                                </React.Fragment>
+                                            ) : (
+                                                <React.Fragment>
+                                                    <button
+                                                        className="margin-r-t"
+                                                        disabled={this.state.isBusy}
+                                                        onClick={() => this.setState({
+                                                            editId: entry.id,
+                                                            name: entry.name,
+                                                            address: entry.address,
+                                                            note: entry.note ?? "",
+                                                            defaultColor: entry.defaultColor ?? "",
+                                                            deleteId: undefined,
+                                                            status: undefined,
+                                                            error: undefined
+                                                        })}
+                                                    >
+                                                        Edit
+                                                    </button>
+                                                    <button
+                                                        className="button--danger"
+                                                        disabled={this.state.isBusy}
+                                                        onClick={() => this.setState({
+                                                            deleteId: entry.id,
+                                                            status: undefined,
+                                                            error: undefined
+                                                        })}
+                                                    >
+                                                        Delete
+                                                    </button>
+                                                </React.Fragment>
+                                            )}
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    {this.state.isBusy && (
+                        <Spinner className="margin-t-s" />
+                    )}
+                    {this.state.status && (
+                        <p className="margin-t-s success">{this.state.status}</p>
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Render the form for editing an entry.
+     * @returns The node to render.
+     */
+    private renderEdit(): ReactNode {
+        const address = this.state.address.trim();
+
+        return (
+            <React.Fragment>
+                <div className="card--label">
+                    Name
+                </div>
+                <div className="card--value margin-b-s">
+                    <input
+                        className="fill"
+                        type="text"
+                        disabled={this.state.isBusy}
+                        value={this.state.name}
+                        onChange={e => this.setState({ name: e.target.value })}
+                    />
+                </div>
+                <div className="card--label">
+                    Address
+                </div>
+                <div className="card--value margin-b-s">
+                    <input
+                        className="fill"
+                        type="text"
+                        disabled={this.state.isBusy}
+                        value={this.state.address}
+                        onChange={e => this.setState({ address: e.target.value })}
+                    />
+                </div>
+                {address.length > 0 && !Address.isValid(address) && (
+                    <p className="margin-b-s danger">The address is not valid.</p>
+                )}
+                <div className="card--label">
+                    Note (optional)
+                </div>
+                <div className="card--value margin-b-s">
+                    <input
+                        className="fill"
+                        type="text"
+                        disabled={this.state.isBusy}
+                        value={this.state.note}
+                        onChange={e => this.setState({ note: e.target.value })}
+                    />
+                </div>
+                <div className="card--label">
+                    Default Asset (optional)
+                </div>
+                <div className="card--value margin-b-s">
+                    <div className="select-wrapper">
+                        <select
+                            disabled={this.state.isBusy}
+                            value={this.state.defaultColor}
+                            onChange={e => this.setState({ defaultColor: e.target.value })}
+                        >
+                            <option value="">None</option>
+                            <option value={Colors.IOTA_NAME}>{Colors.IOTA_NAME}</option>
+                            {this.props.assets.map(asset => (
+                                <option key={asset.color} value={asset.color}>
+                                    {asset.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="row margin-b-s">
+                    <button
+                        className="margin-r-s"
+                        disabled={this.state.isBusy ||
+                            this.state.name.trim().length === 0 ||
+                            !Address.isValid(address)}
+                        onClick={() => this.saveEntry()}
+                    >
+                        Save
+                    </button>
+                    <button
+                        className="button--secondary"
+                        disabled={this.state.isBusy}
+                        onClick={() => this.setState({ editId: undefined, error: undefined })}
+                    >
+                        Cancel
+                    </button>
+                </div>
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Load the entries from the service.
+     */
+    private async loadEntries(): Promise<void> {
+        const entries = await this._addressBookService.getAll();
+
+        this.setState({
+            isBusy: false,
+            entries
+        });
+    }
+
+    /**
+     * Filter the entries by the search text.
+     * @returns The filtered entries.
+     */
+    private filterEntries(): IAddressBookEntry[] {
+        const search = this.state.search.trim().toLowerCase();
+        if (search.length === 0) {
+            return this.state.entries;
+        }
+
+        return this.state.entries.filter(entry =>
+            entry.name.toLowerCase().includes(search) ||
+            entry.address.toLowerCase().includes(search) ||
+            (entry.note ?? "").toLowerCase().includes(search));
+    }
+
+    /**
+     * Create or update the entry being edited.
+     */
+    private saveEntry(): void {
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const entry: IAddressBookEntry = {
+                        id: this.state.editId ?? "",
+                        name: this.state.name,
+                        address: this.state.address,
+                        note: this.state.note,
+                        defaultColor: this.state.defaultColor
+                    };
+
+                    if (this.state.editId) {
+                        await this._addressBookService.update(entry);
+                    } else {
+                        await this._addressBookService.create(entry);
+                    }
+
+                    this.setState({ editId: undefined });
+                    await this.loadEntries();
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Remove an entry.
+     * @param id The id of the entry to remove.
+     */
+    private removeEntry(id: string): void {
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    await this._addressBookService.remove(id);
+                    this.setState({ deleteId: undefined });
+                    await this.loadEntries();
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Export the entries to a file.
+     */
+    private exportEntries(): void {
+        FileHelper.save(
+            "address-book.json",
+            JSON.stringify(this.state.entries.map(e => ({
+                name: e.name,
+                address: e.address,
+                note: e.note,
+                defaultColor: e.defaultColor
+            })), undefined, "\t")
+        );
+        this.setState({ status: "The address book has been exported", error: undefined });
+    }
+
+    /**
+     * Import entries from a file.
+     * @param files The files selected.
+     */
+    private async importFile(files: FileList | null): Promise<void> {
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const content = await files[0].text();
+        if (this._fileInput.current) {
+            this._fileInput.current.value = "";
+        }
+
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    let entries: IAddressBookEntry[];
+                    try {
+                        entries = JSON.parse(content);
+                    } catch {
+                        throw new Error("The address book file is not valid JSON");
+                    }
+                    if (!Array.isArray(entries) || entries.some(e => !e || typeof e !== "object")) {
+                        throw new Error("The address book file must contain a list of entries");
+                    }
+
+                    const count = await this._addressBookService.import(entries);
+                    await this.loadEntries();
+                    this.setState({ status: `${count} entries have been imported` });
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        if (color === Colors.IOTA_NAME) {
+            return Colors.IOTA_NAME;
+        }
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default AddressBook;
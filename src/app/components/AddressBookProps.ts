@@ -0,0 +1,18 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface AddressBookProps {
+    /**
+     * The assets in the wallet, for choosing the default asset.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The entries were changed.
+     */
+    onUpdated(): void;
+
+    /**
+     * The address book was closed.
+     */
+    onClose(): void;
+}
@@ -0,0 +1,58 @@
+import { IAddressBookEntry } from "../../models/IAddressBookEntry";
+
+export interface AddressBookState {
+    /**
+     * Is the component busy.
+     */
+    isBusy: boolean;
+
+    /**
+     * The entries.
+     */
+    entries: IAddressBookEntry[];
+
+    /**
+     * Text to filter the entries with.
+     */
+    search: string;
+
+    /**
+     * The id of the entry being edited, empty for a new entry.
+     */
+    editId?: string;
+
+    /**
+     * The name of the entry being edited.
+     */
+    name: string;
+
+    /**
+     * The address of the entry being edited.
+     */
+    address: string;
+
+    /**
+     * The note of the entry being edited.
+     */
+    note: string;
+
+    /**
+     * The default asset color of the entry being edited.
+     */
+    defaultColor: string;
+
+    /**
+     * The id of the entry waiting for delete confirmation.
+     */
+    deleteId?: string;
+
+    /**
+     * The status of the last action.
+     */
+    status?: string;
+
+    /**
+     * Error for the last action.
+     */
+    error?: string;
+}
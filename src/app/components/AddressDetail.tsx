@@ -0,0 +1,272 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { DateHelper } from "../../helpers/dateHelper";
+import { Colors } from "../../iota/colors";
+import { IWalletOutputInclusionState } from "../../models/IWalletOutputInclusionState";
+import { IWalletService } from "../../models/services/IWalletService";
+import { AddressDetailProps } from "./AddressDetailProps";
+import { AddressDetailState } from "./AddressDetailState";
+
+/**
+ * Component which will display the outputs and history of a wallet address.
+ */
+class AddressDetail extends Component<AddressDetailProps, AddressDetailState> {
+    /**
+     * The inclusion state flags to display.
+     */
+    private static readonly INCLUSION_FLAGS: (keyof IWalletOutputInclusionState)[] = [
+        "solid",
+        "liked",
+        "preferred",
+        "confirmed",
+        "finalized",
+        "conflicting",
+        "rejected"
+    ];
+
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * Subscription id for wallet updates.
+     */
+    private _subscriptionId?: string;
+
+    /**
+     * Create a new instance of AddressDetail.
+     * @param props The props.
+     */
+    constructor(props: AddressDetailProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+
+        const walletAddress = this._walletService.getWalletAddresses()?.find(a => a.address === props.address);
+
+        this.state = {
+            ...this.loadAddress(),
+            label: walletAddress?.label ?? "",
+            isBusy: false
+        };
+    }
+
+    /**
+     * The component mounted.
+     */
+    public componentDidMount(): void {
+        this._subscriptionId = this._walletService.subscribe(() => {
+            this.setState(this.loadAddress());
+        });
+    }
+
+    /**
+     * The component will unmount so update flag.
+     */
+    public componentWillUnmount(): void {
+        if (this._subscriptionId) {
+            this._walletService.unsubscribe(this._subscriptionId);
+            this._subscriptionId = undefined;
+        }
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between">
+                    <h2>Address Detail</h2>
+                    <button
+                        className="button--secondary"
+                        onClick={() => this.props.onClose()}
+                    >
+                        Close
+                    </button>
+                </div>
+                <div className="card--content">
+                    <div className="card--label">
+                        Address
+                    </div>
+                    <div className="card--value margin-b-s break">
+                        {this.props.address}
+                    </div>
+                    <div className="card--label">
+                        Derivation Index
+                    </div>
+                    <div className="card--value margin-b-s">
+                        {this.state.walletAddress ? this.state.walletAddress.index.toString() : "-"}
+                        {this.state.walletAddress?.isSpent && (
+                            <span className="warning"> (spent)</span>
+                        )}
+                        {this.state.isReceive && (
+                            <span className="success"> (receive)</span>
+                        )}
+                    </div>
+                    <div className="card--label">
+                        Label
+                    </div>
+                    <div className="card--value row margin-b-s">
+                        <input
+                            className="fill margin-r-t"
+                            type="text"
+                            disabled={this.state.isBusy}
+                            value={this.state.label}
+                            onChange={e => this.setState({ label: e.target.value })}
+                        />
+                        <button
+                            disabled={this.state.isBusy ||
+                                this.state.label.trim() === (this.state.walletAddress?.label ?? "")}
+                            onClick={() => this.saveLabel()}
+                        >
+                            Save
+                        </button>
+                    </div>
+                    {this.state.error && (
+                        <p className="margin-b-s danger">{this.state.error}</p>
+                    )}
+                    <div className="card--label">
+                        Unspent Outputs
+                    </div>
+                    {this.state.outputs.length === 0 && (
+                        <p className="margin-b-s">There are no unspent outputs on this address.</p>
+                    )}
+                    {this.state.outputs.length > 0 && (
+                        <table className="margin-b-s">
+                            <thead>
+                                <tr>
+                                    <th>Output</th>
+                                    <th>Balances</th>
+                                    {AddressDetail.INCLUSION_FLAGS.map(flag => (
+                                        <th key={flag}>{flag}</th>
+                                    ))}
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {this.state.outputs.map(output => (
+                                    <tr key={output.transactionId}>
+                                        <td className="break">{output.transactionId}</td>
+                                        <td>
+                                            {output.balances.map((balance, idx) => (
+                                                <div key={idx}>
+                                                    {balance.value.toString()} {this.assetName(balance.color)}
+                                                </div>
+                                            ))}
+                                        </td>
+                                        {AddressDetail.INCLUSION_FLAGS.map(flag => (
+                                            <td key={flag}>{output.inclusionState[flag] ? "Yes" : "No"}</td>
+                                        ))}
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                    <div className="card--label">
+                        History
+                    </div>
+                    {this.state.history.length === 0 && (
+                        <p>There are no transactions for this address.</p>
+                    )}
+                    {this.state.history.length > 0 && (
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Date</th>
+                                    <th>Type</th>
+                                    <th>Amounts</th>
+                                    <th>Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {this.state.history.map(transaction => (
+                                    <tr key={transaction.id}>
+                                        <td>{DateHelper.format(transaction.created)}</td>
+                                        <td>
+                                            {transaction.type}
+                                            {transaction.memo && (
+                                                <div className="break">{transaction.memo}</div>
+                                            )}
+                                        </td>
+                                        <td className={classNames({
+                                            "success": transaction.direction === "incoming",
+                                            "warning": transaction.direction === "outgoing"
+                                        })}>
+                                            {transaction.amounts.map((amount, idx) => (
+                                                <div key={idx}>
+                                                    {transaction.direction === "outgoing" ? "-" : "+"}
+                                                    {amount.value} {this.assetName(amount.color)}
+                                                </div>
+                                            ))}
+                                        </td>
+                                        <td>{transaction.status}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Load the details of the address from the wallet service.
+     * @returns The state for the address.
+     */
+    private loadAddress(): Pick<AddressDetailState, "walletAddress" | "isReceive" | "outputs" | "history"> {
+        const history = this._walletService.getTransactionHistory() ?? [];
+
+        return {
+            walletAddress: this._walletService.getWalletAddresses()?.find(a => a.address === this.props.address),
+            isReceive: this._walletService.getReceiveAddress() === this.props.address,
+            outputs: this._walletService.getAddressOutputs(this.props.address),
+            history: history.filter(t =>
+                t.addresses.includes(this.props.address) ||
+                t.counterparties.includes(this.props.address))
+        };
+    }
+
+    /**
+     * Save the label of the address.
+     */
+    private saveLabel(): void {
+        this.setState(
+            {
+                isBusy: true,
+                error: undefined
+            },
+            async () => {
+                try {
+                    await this._walletService.setAddressLabel(this.props.address, this.state.label);
+                    this.setState({
+                        isBusy: false,
+                        label: this.state.label.trim()
+                    });
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        if (color === Colors.IOTA_NAME) {
+            return Colors.IOTA_NAME;
+        }
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default AddressDetail;
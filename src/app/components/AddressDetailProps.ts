@@ -0,0 +1,18 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface AddressDetailProps {
+    /**
+     * The address to show.
+     */
+    address: string;
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The detail was closed.
+     */
+    onClose(): void;
+}
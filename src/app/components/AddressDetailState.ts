@@ -0,0 +1,40 @@
+import { IWalletAddress } from "../../models/IWalletAddress";
+import { IWalletOutput } from "../../models/IWalletOutput";
+import { IWalletTransaction } from "../../models/IWalletTransaction";
+
+export interface AddressDetailState {
+    /**
+     * The wallet address.
+     */
+    walletAddress?: IWalletAddress;
+
+    /**
+     * Is this the receive address.
+     */
+    isReceive: boolean;
+
+    /**
+     * The unspent outputs of the address.
+     */
+    outputs: IWalletOutput[];
+
+    /**
+     * The transactions touching the address.
+     */
+    history: IWalletTransaction[];
+
+    /**
+     * The label being edited.
+     */
+    label: string;
+
+    /**
+     * Is the label being saved.
+     */
+    isBusy: boolean;
+
+    /**
+     * Error saving the label.
+     */
+    error?: string;
+}
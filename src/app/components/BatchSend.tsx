@@ -0,0 +1,504 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { CoinSelectionStrategies } from "../../coinSelection/coinSelectionStrategies";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { CoinSelectionHelper } from "../../helpers/coinSelectionHelper";
+import { PaymentImportHelper } from "../../helpers/paymentImportHelper";
+import { Address } from "../../iota/address";
+import { ISendFundsOptions } from "../../models/ISendFundsOptions";
+import { IWalletService } from "../../models/services/IWalletService";
+import { BatchSendProps } from "./BatchSendProps";
+import { BatchSendState } from "./BatchSendState";
+import CoinControl from "./CoinControl";
+import Spinner from "./Spinner";
+
+/**
+ * Component which will compose a payment to multiple destinations.
+ */
+class BatchSend extends Component<BatchSendProps, BatchSendState> {
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * The file input for importing payments.
+     */
+    private readonly _fileInput: React.RefObject<HTMLInputElement>;
+
+    /**
+     * Create a new instance of BatchSend.
+     * @param props The props.
+     */
+    constructor(props: BatchSendProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+        this._fileInput = React.createRef();
+
+        this.state = {
+            rows: [this.createRow()],
+            remainderAddress: "",
+            coinSelection: "",
+            isCoinControl: false,
+            selectedOutputs: [],
+            isBusy: false
+        };
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        const totals = this.calculateTotals();
+        const validationError = this.validate(totals);
+
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between">
+                    <h2>Batch Send</h2>
+                    <div className="row">
+                        <input
+                            ref={this._fileInput}
+                            type="file"
+                            accept=".csv,.tsv,.txt"
+                            hidden={true}
+                            onChange={e => this.importFile(e.target.files)}
+                        />
+                        <button
+                            className="margin-r-t"
+                            disabled={this.state.isBusy}
+                            onClick={() => this._fileInput.current?.click()}
+                        >
+                            Import CSV
+                        </button>
+                        <button
+                            className={classNames("margin-r-t", { "button--secondary": !this.state.isCoinControl })}
+                            disabled={this.state.isBusy}
+                            onClick={() => this.setState({
+                                isCoinControl: !this.state.isCoinControl,
+                                availableOutputs: this._walletService.getAvailableOutputs(),
+                                selectedOutputs: [],
+                                error: undefined
+                            })}
+                        >
+                            Coin Control
+                        </button>
+                        <button
+                            disabled={this.state.isBusy}
+                            onClick={() => this.setState({
+                                rows: this.state.rows.concat([this.createRow()])
+                            })}
+                        >
+                            Add Row
+                        </button>
+                    </div>
+                </div>
+                <div className="card--content">
+                    {this.state.importErrors && this.state.importErrors.length > 0 && (
+                        <React.Fragment>
+                            <p className="margin-b-t danger">
+                                The import contains errors, nothing has been added.
+                            </p>
+                            <table className="margin-b-s">
+                                <thead>
+                                    <tr>
+                                        <th>Row</th>
+                                        <th>Error</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {this.state.importErrors.map((importError, idx) => (
+                                        <tr key={idx}>
+                                            <td>{importError.row}</td>
+                                            <td className="danger break">{importError.message}</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        </React.Fragment>
+                    )}
+                    <table className="margin-b-s">
+                        <thead>
+                            <tr>
+                                <th>Address</th>
+                                <th>Asset</th>
+                                <th>Amount</th>
+                                <th>&nbsp;</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {this.state.rows.map((row, idx) => (
+                                <tr key={idx} className="middle">
+                                    <td>
+                                        <input
+                                            className="fill"
+                                            type="text"
+                                            disabled={this.state.isBusy}
+                                            value={row.address}
+                                            onChange={e => this.updateRow(idx, { address: e.target.value })}
+                                        />
+                                    </td>
+                                    <td>
+                                        <div className="select-wrapper">
+                                            <select
+                                                disabled={this.state.isBusy}
+                                                value={row.color}
+                                                onChange={e => this.updateRow(idx, { color: e.target.value })}
+                                            >
+                                                {this.props.balances.map(balance => (
+                                                    <option key={balance.asset.color} value={balance.asset.color}>
+                                                        {balance.asset.name}
+                                                    </option>
+                                                ))}
+                                            </select>
+                                        </div>
+                                    </td>
+                                    <td>
+                                        <input
+                                            type="text"
+                                            disabled={this.state.isBusy}
+                                            value={row.amount}
+                                            onChange={e => this.updateRow(idx, { amount: e.target.value })}
+                                        />
+                                    </td>
+                                    <td>
+                                        <button
+                                            className="button--secondary"
+                                            disabled={this.state.isBusy || this.state.rows.length === 1}
+                                            onClick={() => this.setState({
+                                                rows: this.state.rows.filter((r, i) => i !== idx)
+                                            })}
+                                        >
+                                            Remove
+                                        </button>
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <table className="margin-b-s">
+                        <thead>
+                            <tr>
+                                <th>Asset</th>
+                                <th>Total</th>
+                                <th>Available</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {Object.keys(totals).map(color => (
+                                <tr key={color}>
+                                    <td className="break">{this.assetName(color)}</td>
+                                    <td className={classNames({
+                                        "danger": totals[color] > this.availableBalance(color)
+                                    })}>
+                                        {totals[color].toString()}
+                                    </td>
+                                    <td className="success">{this.availableBalance(color).toString()}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    <div className="card--label">
+                        Remainder Address (optional)
+                    </div>
+                    <div className="card--value margin-b-s">
+                        <input
+                            className="fill"
+                            type="text"
+                            disabled={this.state.isBusy}
+                            value={this.state.remainderAddress}
+                            onChange={e => this.setState({ remainderAddress: e.target.value })}
+                        />
+                    </div>
+                    {this.state.isCoinControl && (
+                        <React.Fragment>
+                            <div className="card--label">
+                                Outputs To Spend
+                            </div>
+                            <CoinControl
+                                outputs={this.state.availableOutputs ?? []}
+                                assets={this.props.balances.map(b => b.asset)}
+                                required={totals}
+                                selected={this.state.selectedOutputs}
+                                disabled={this.state.isBusy}
+                                onChange={selectedOutputs => this.setState({ selectedOutputs, error: undefined })}
+                            />
+                        </React.Fragment>
+                    )}
+                    {!this.state.isCoinControl && (
+                        <React.Fragment>
+                            <div className="card--label">
+                                Coin Selection
+                            </div>
+                            <div className="card--value margin-b-s">
+                                <div className="select-wrapper">
+                                    <select
+                                        disabled={this.state.isBusy}
+                                        value={this.state.coinSelection}
+                                        onChange={e => this.setState({ coinSelection: e.target.value })}
+                                    >
+                                        <option value="">Use settings</option>
+                                        {CoinSelectionStrategies.all().map(strategy => (
+                                            <option key={strategy.id} value={strategy.id}>
+                                                {strategy.name}
+                                            </option>
+                                        ))}
+                                    </select>
+                                </div>
+                            </div>
+                        </React.Fragment>
+                    )}
+                    <div className="row">
+                        <button
+                            className="margin-r-s"
+                            disabled={this.state.isBusy || validationError !== undefined}
+                            onClick={() => this.send()}
+                        >
+                            Send
+                        </button>
+                        <button
+                            className="button--secondary"
+                            disabled={this.state.isBusy}
+                            onClick={() => this.props.onClose()}
+                        >
+                            Cancel
+                        </button>
+                    </div>
+                    {this.state.isBusy && (
+                        <div className="row middle margin-t-s">
+                            <Spinner className="margin-r-t" />
+                            {this.state.status && (
+                                <p>{this.state.status}</p>
+                            )}
+                        </div>
+                    )}
+                    {validationError && !this.state.error && (
+                        <p className="margin-t-s warning">{validationError}</p>
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Create a new empty row.
+     * @returns The row.
+     */
+    private createRow(): BatchSendState["rows"][0] {
+        const available = this.props.balances.find(b => b.confirmed > 0);
+
+        return {
+            address: "",
+            color: available ? available.asset.color : "",
+            amount: ""
+        };
+    }
+
+    /**
+     * Update a row.
+     * @param idx The index of the row to update.
+     * @param update The values to update.
+     */
+    private updateRow(idx: number, update: Partial<BatchSendState["rows"][0]>): void {
+        const rows = this.state.rows.slice();
+        rows[idx] = { ...rows[idx], ...update };
+        this.setState({ rows, error: undefined });
+    }
+
+    /**
+     * Calculate the totals to send for each color.
+     * @returns The totals by color.
+     */
+    private calculateTotals(): { [color: string]: bigint } {
+        const totals: { [color: string]: bigint } = {};
+
+        for (const row of this.state.rows) {
+            if (row.color && /^\d+$/.test(row.amount)) {
+                totals[row.color] = (totals[row.color] ?? BigInt(0)) + BigInt(row.amount);
+            }
+        }
+
+        return totals;
+    }
+
+    /**
+     * Validate the rows against the available balances.
+     * @param totals The totals by color.
+     * @returns The first validation error if there is one.
+     */
+    private validate(totals: { [color: string]: bigint }): string | undefined {
+        for (let i = 0; i < this.state.rows.length; i++) {
+            const row = this.state.rows[i];
+            if (!this.isValidAddress(row.address)) {
+                return `Row ${i + 1} does not contain a valid address`;
+            }
+            if (!row.color) {
+                return `Row ${i + 1} does not have an asset selected`;
+            }
+            if (!/^\d+$/.test(row.amount) || BigInt(row.amount) <= 0) {
+                return `Row ${i + 1} does not contain a valid amount`;
+            }
+        }
+
+        for (const color in totals) {
+            if (totals[color] > this.availableBalance(color)) {
+                return `There is not enough confirmed ${this.assetName(color)} to send`;
+            }
+        }
+
+        if (this.state.remainderAddress.trim().length > 0 &&
+            !this.isValidAddress(this.state.remainderAddress)) {
+            return "The remainder address is not valid";
+        }
+
+        if (this.state.isCoinControl && this.state.selectedOutputs.length === 0) {
+            return "Select the outputs to spend";
+        }
+
+        if (this.state.isCoinControl && CoinSelectionHelper.partialAddresses(
+            this.state.availableOutputs ?? [], this.state.selectedOutputs).length > 0) {
+            return "Select all the outputs of an address or none of them";
+        }
+    }
+
+    /**
+     * Is the address valid.
+     * @param address The address to check.
+     * @returns True if the address is valid.
+     */
+    private isValidAddress(address: string): boolean {
+        return Address.isValid(address.trim());
+    }
+
+    /**
+     * Get the available confirmed balance for a color.
+     * @param color The color to get the balance for.
+     * @returns The confirmed balance.
+     */
+    private availableBalance(color: string): bigint {
+        const balance = this.props.balances.find(b => b.asset.color === color);
+        return balance ? balance.confirmed : BigInt(0);
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        const balance = this.props.balances.find(b => b.asset.color === color);
+        return balance ? balance.asset.name : color;
+    }
+
+    /**
+     * Send the payments as a single transaction.
+     */
+    private send(): void {
+        this.setState(
+            {
+                isBusy: true,
+                error: undefined
+            },
+            async () => {
+                const options: ISendFundsOptions = {
+                    destinations: {}
+                };
+
+                for (const row of this.state.rows) {
+                    const address = row.address.trim();
+                    options.destinations[address] = options.destinations[address] ?? {};
+                    options.destinations[address][row.color] =
+                        (options.destinations[address][row.color] ?? BigInt(0)) + BigInt(row.amount);
+                }
+
+                if (this.state.remainderAddress.trim().length > 0) {
+                    options.remainderAddress = this.state.remainderAddress.trim();
+                }
+                if (this.state.isCoinControl) {
+                    options.inputs = this.state.selectedOutputs;
+                } else if (this.state.coinSelection) {
+                    options.coinSelection = this.state.coinSelection;
+                }
+
+                let sentCount = 0;
+                let batchCount = 0;
+                try {
+                    // manually chosen outputs can only be spent once so they are sent together
+                    const batches = options.inputs
+                        ? [options]
+                        : await this._walletService.splitSendFundsOptions(options);
+                    batchCount = batches.length;
+
+                    for (const batch of batches) {
+                        this.setState({
+                            status: `Sending transaction ${sentCount + 1} of ${batchCount}...`
+                        });
+
+                        await this._walletService.sendFundsWithOptions(batch);
+                        sentCount++;
+
+                        // remove the rows that have been paid so they can not be sent again
+                        this.setState({
+                            rows: this.state.rows.filter(r => !batch.destinations[r.address.trim()])
+                        });
+                    }
+
+                    this.setState({ isBusy: false, status: undefined });
+                    this.props.onClose();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        status: undefined,
+                        error: sentCount > 0
+                            ? `Sent ${sentCount} of ${batchCount} transactions, the remaining rows failed: ${err.message}`
+                            : err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Import payments from a CSV or TSV file.
+     * @param files The files selected.
+     */
+    private async importFile(files: FileList | null): Promise<void> {
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const content = await files[0].text();
+        if (this._fileInput.current) {
+            this._fileInput.current.value = "";
+        }
+
+        const result = PaymentImportHelper.parse(
+            content, this.props.balances.map(b => b.asset).concat(this.props.assets));
+
+        if (result.errors.length > 0) {
+            this.setState({ importErrors: result.errors });
+        } else {
+            const rows: BatchSendState["rows"] = [];
+            for (const address in result.options.destinations) {
+                for (const color in result.options.destinations[address]) {
+                    rows.push({
+                        address,
+                        color,
+                        amount: result.options.destinations[address][color].toString()
+                    });
+                }
+            }
+            this.setState({
+                importErrors: undefined,
+                error: undefined,
+                rows: rows.length > 0 ? rows : this.state.rows
+            });
+        }
+    }
+}
+
+export default BatchSend;
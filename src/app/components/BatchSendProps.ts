@@ -0,0 +1,19 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+import { IWalletBalance } from "../../models/IWalletBalance";
+
+export interface BatchSendProps {
+    /**
+     * The current wallet balances.
+     */
+    balances: IWalletBalance[];
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The batch send was closed.
+     */
+    onClose(): void;
+}
@@ -0,0 +1,78 @@
+import { IWalletAddressOutput } from "../../models/IWalletAddressOutput";
+
+export interface BatchSendState {
+    /**
+     * The payment rows.
+     */
+    rows: {
+        /**
+         * The address to send to.
+         */
+        address: string;
+
+        /**
+         * The color of the tokens to send.
+         */
+        color: string;
+
+        /**
+         * The amount to send.
+         */
+        amount: string;
+    }[];
+
+    /**
+     * Optional address to send the remainder to.
+     */
+    remainderAddress: string;
+
+    /**
+     * The id of the coin selection strategy, empty to use the settings.
+     */
+    coinSelection: string;
+
+    /**
+     * Are the outputs to spend chosen manually.
+     */
+    isCoinControl: boolean;
+
+    /**
+     * The outputs available for coin control.
+     */
+    availableOutputs?: IWalletAddressOutput[];
+
+    /**
+     * The ids of the outputs chosen with coin control.
+     */
+    selectedOutputs: string[];
+
+    /**
+     * Is the component busy.
+     */
+    isBusy: boolean;
+
+    /**
+     * Progress of the send.
+     */
+    status?: string;
+
+    /**
+     * Errors in the imported rows.
+     */
+    importErrors?: {
+        /**
+         * The line number of the row in the file.
+         */
+        row: number;
+
+        /**
+         * The error message.
+         */
+        message: string;
+    }[];
+
+    /**
+     * Send error.
+     */
+    error?: string;
+}
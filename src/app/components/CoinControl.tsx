@@ -0,0 +1,145 @@
+import React, { Component, ReactNode } from "react";
+import { CoinSelectionHelper } from "../../helpers/coinSelectionHelper";
+import { InclusionStateHelper } from "../../helpers/inclusionStateHelper";
+import { Colors } from "../../iota/colors";
+import { CoinControlProps } from "./CoinControlProps";
+
+/**
+ * Component which will let the user choose the outputs to spend.
+ */
+class CoinControl extends Component<CoinControlProps> {
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        const shortfall = this.calculateShortfall();
+        const partialAddresses = CoinSelectionHelper.partialAddresses(this.props.outputs, this.props.selected);
+
+        return (
+            <React.Fragment>
+                {this.props.outputs.length === 0 && (
+                    <p className="margin-b-s">There are no outputs available to spend.</p>
+                )}
+                {this.props.outputs.length > 0 && (
+                    <table className="margin-b-s">
+                        <thead>
+                            <tr>
+                                <th>&nbsp;</th>
+                                <th>Output</th>
+                                <th>Balances</th>
+                                <th>Status</th>
+                            </tr>
+                        </thead>
+                        {this.props.outputs.map(addressOutput => (
+                            <tbody key={addressOutput.address}>
+                                <tr className="middle">
+                                    <td>
+                                        <input
+                                            type="checkbox"
+                                            disabled={this.props.disabled}
+                                            checked={addressOutput.outputs.every(o =>
+                                                this.props.selected.includes(o.transactionId))}
+                                            onChange={e => this.toggle(
+                                                addressOutput.outputs.map(o => o.transactionId), e.target.checked)}
+                                        />
+                                    </td>
+                                    <td colSpan={3} className="break">
+                                        <strong>{addressOutput.address}</strong>
+                                    </td>
+                                </tr>
+                                {addressOutput.outputs.map(output => (
+                                    <tr key={output.transactionId} className="middle">
+                                        <td>
+                                            <input
+                                                type="checkbox"
+                                                disabled={this.props.disabled}
+                                                checked={this.props.selected.includes(output.transactionId)}
+                                                onChange={e => this.toggle([output.transactionId], e.target.checked)}
+                                            />
+                                        </td>
+                                        <td className="break">{output.transactionId}</td>
+                                        <td>
+                                            {output.balances.map(balance => (
+                                                <div key={balance.color}>
+                                                    {balance.value.toString()} {this.assetName(balance.color)}
+                                                </div>
+                                            ))}
+                                        </td>
+                                        <td>{InclusionStateHelper.status(output.inclusionState)}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        ))}
+                    </table>
+                )}
+                {Object.keys(shortfall).map(color => (
+                    <p key={color} className="margin-b-t warning">
+                        The selected outputs are {shortfall[color].toString()} {this.assetName(color)} short
+                        of the destinations.
+                    </p>
+                ))}
+                {partialAddresses.map(address => (
+                    <p key={address} className="margin-b-t danger break">
+                        Only some outputs of {address} are selected, an address is only spent once so select all
+                        of its outputs or none of them.
+                    </p>
+                ))}
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Calculate how much of each required color the selection is missing.
+     * @returns The missing amounts by color.
+     */
+    private calculateShortfall(): { [color: string]: bigint } {
+        const shortfall: { [color: string]: bigint } = { ...this.props.required };
+
+        for (const addressOutput of this.props.outputs) {
+            for (const output of addressOutput.outputs) {
+                if (this.props.selected.includes(output.transactionId)) {
+                    for (const balance of output.balances) {
+                        if (shortfall[balance.color] !== undefined) {
+                            shortfall[balance.color] -= balance.value;
+                        }
+                    }
+                }
+            }
+        }
+
+        for (const color in shortfall) {
+            if (shortfall[color] <= BigInt(0)) {
+                delete shortfall[color];
+            }
+        }
+
+        return shortfall;
+    }
+
+    /**
+     * Select or deselect outputs.
+     * @param transactionIds The ids of the outputs.
+     * @param isSelected Should the outputs be selected.
+     */
+    private toggle(transactionIds: string[], isSelected: boolean): void {
+        const selected = this.props.selected.filter(id => !transactionIds.includes(id));
+
+        this.props.onChange(isSelected ? selected.concat(transactionIds) : selected);
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        if (color === Colors.IOTA_NAME) {
+            return Colors.IOTA_NAME;
+        }
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default CoinControl;
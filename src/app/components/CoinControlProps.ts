@@ -0,0 +1,35 @@
+import { IWalletAddressOutput } from "../../models/IWalletAddressOutput";
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface CoinControlProps {
+    /**
+     * The outputs available to spend, grouped by address.
+     */
+    outputs: IWalletAddressOutput[];
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The funds required by the destinations by color.
+     */
+    required: { [color: string]: bigint };
+
+    /**
+     * The ids of the selected outputs.
+     */
+    selected: string[];
+
+    /**
+     * Is the control disabled.
+     */
+    disabled?: boolean;
+
+    /**
+     * The selection was changed.
+     * @param selected The ids of the selected outputs.
+     */
+    onChange(selected: string[]): void;
+}
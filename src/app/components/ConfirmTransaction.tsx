@@ -0,0 +1,73 @@
+import React, { Component, ReactNode } from "react";
+import { ConfirmTransactionProps } from "./ConfirmTransactionProps";
+import "./ConfirmTransaction.scss";
+import Spinner from "./Spinner";
+import TransactionSummary from "./TransactionSummary";
+
+/**
+ * Component which will ask for confirmation of a draft transaction before it is signed.
+ */
+class ConfirmTransaction extends Component<ConfirmTransactionProps> {
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="confirm-transaction">
+                <div className="card">
+                    <div className="card--header">
+                        <h2>Confirm Transaction</h2>
+                    </div>
+                    <div className="card--content">
+                        <p className="margin-b-s">
+                            Check the transaction below, it will only be signed and sent once you confirm it.
+                        </p>
+                        {this.props.draft.minted.map(minted => (
+                            <p key={minted.address} className="margin-b-s success break">
+                                {minted.value} new tokens will be minted to {minted.address}
+                            </p>
+                        ))}
+                        {this.props.draft.spentAddresses.length > 0 && (
+                            <div className="margin-b-s warning">
+                                These addresses will be spent and must not receive funds again:
+                                {this.props.draft.spentAddresses.map(address => (
+                                    <div key={address} className="break">{address}</div>
+                                ))}
+                            </div>
+                        )}
+                        <TransactionSummary
+                            transaction={this.props.draft}
+                            assets={this.props.assets}
+                            isRemainderVerified={true}
+                        />
+                        <div className="row margin-t-s">
+                            <button
+                                className="margin-r-s"
+                                disabled={this.props.isBusy}
+                                onClick={() => this.props.onConfirm()}
+                            >
+                                Confirm
+                            </button>
+                            <button
+                                className="button--secondary"
+                                disabled={this.props.isBusy}
+                                onClick={() => this.props.onCancel()}
+                            >
+                                Cancel
+                            </button>
+                        </div>
+                        {this.props.isBusy && (
+                            <Spinner className="margin-t-s" />
+                        )}
+                        {this.props.error && (
+                            <p className="margin-t-s danger">{this.props.error}</p>
+                        )}
+                    </div>
+                </div>
+            </div>
+        );
+    }
+}
+
+export default ConfirmTransaction;
@@ -0,0 +1,34 @@
+import { ITransactionDraft } from "../../models/ITransactionDraft";
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface ConfirmTransactionProps {
+    /**
+     * The draft to confirm.
+     */
+    draft: ITransactionDraft;
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * Is the draft being sent.
+     */
+    isBusy: boolean;
+
+    /**
+     * The error from sending the draft.
+     */
+    error?: string;
+
+    /**
+     * The user confirmed the draft.
+     */
+    onConfirm(): void;
+
+    /**
+     * The user cancelled the draft.
+     */
+    onCancel(): void;
+}
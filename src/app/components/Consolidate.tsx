@@ -0,0 +1,218 @@
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { Base58 } from "../../iota/crypto/base58";
+import { Seed } from "../../iota/seed";
+import { IWalletService } from "../../models/services/IWalletService";
+import { ConsolidateProps } from "./ConsolidateProps";
+import { ConsolidateState } from "./ConsolidateState";
+import Spinner from "./Spinner";
+
+/**
+ * Component which will consolidate the wallet outputs and sweep foreign seeds.
+ */
+class Consolidate extends Component<ConsolidateProps, ConsolidateState> {
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * Subscription id for wallet updates.
+     */
+    private _subscriptionId?: string;
+
+    /**
+     * Create a new instance of Consolidate.
+     * @param props The props.
+     */
+    constructor(props: ConsolidateProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+
+        this.state = {
+            color: "",
+            sweepSeed: "",
+            isSubseed: false,
+            isBusy: false
+        };
+    }
+
+    /**
+     * The component mounted.
+     */
+    public componentDidMount(): void {
+        this._subscriptionId = this._walletService.subscribe(event => {
+            if (event && event.type === "progress" && this.state.isBusy) {
+                this.setState({
+                    status: `Sent ${event.completed} of ${event.total} transactions...`
+                });
+            }
+        });
+    }
+
+    /**
+     * The component will unmount so update flag.
+     */
+    public componentWillUnmount(): void {
+        if (this._subscriptionId) {
+            this._walletService.unsubscribe(this._subscriptionId);
+            this._subscriptionId = undefined;
+        }
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header">
+                    <h2>Consolidate &amp; Sweep</h2>
+                </div>
+                <div className="card--content">
+                    <p className="margin-b-s">
+                        Consolidate moves the confirmed outputs from every address in to a new address,
+                        addresses which still have unconfirmed outputs are left until they confirm.
+                    </p>
+                    <div className="row middle margin-b-s">
+                        <div className="select-wrapper margin-r-s">
+                            <select
+                                disabled={this.state.isBusy}
+                                value={this.state.color}
+                                onChange={e => this.setState({ color: e.target.value })}
+                            >
+                                <option value="">All Assets</option>
+                                {this.props.balances.map(balance => (
+                                    <option key={balance.asset.color} value={balance.asset.color}>
+                                        {balance.asset.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <button
+                            disabled={this.state.isBusy || !this.props.balances.some(b => b.confirmed > 0)}
+                            onClick={() => this.consolidate()}
+                        >
+                            Consolidate
+                        </button>
+                    </div>
+                    <p className="margin-b-s">
+                        Sweep moves everything held by another seed in to this wallet.
+                    </p>
+                    <div className="card--label">
+                        Seed, Subseed or {Seed.MNEMONIC_WORD_COUNT} Word Mnemonic
+                    </div>
+                    <div className="card--value margin-b-s">
+                        <input
+                            className="fill"
+                            type="password"
+                            disabled={this.state.isBusy}
+                            value={this.state.sweepSeed}
+                            onChange={e => this.setState({ sweepSeed: e.target.value, error: undefined })}
+                        />
+                    </div>
+                    <div className="row middle margin-b-s">
+                        <input
+                            id="sweep-subseed"
+                            type="checkbox"
+                            className="margin-r-t"
+                            disabled={this.state.isBusy}
+                            checked={this.state.isSubseed}
+                            onChange={e => this.setState({ isSubseed: e.target.checked })}
+                        />
+                        <label htmlFor="sweep-subseed">The seed is the subseed of a single address</label>
+                    </div>
+                    <button
+                        disabled={this.state.isBusy || this.state.sweepSeed.trim().length === 0}
+                        onClick={() => this.sweep()}
+                    >
+                        Sweep
+                    </button>
+                    {this.state.isBusy && (
+                        <div className="row middle margin-t-s">
+                            <Spinner className="margin-r-t" />
+                            {this.state.status && (
+                                <p>{this.state.status}</p>
+                            )}
+                        </div>
+                    )}
+                    {!this.state.isBusy && this.state.status && (
+                        <p className="margin-t-s success">{this.state.status}</p>
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Consolidate the outputs of the selected color.
+     */
+    private consolidate(): void {
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const transactionIds = await this._walletService.consolidate(this.state.color || undefined);
+                    this.setState({
+                        isBusy: false,
+                        status: `Consolidated with ${transactionIds.length} transactions`
+                    });
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        status: undefined,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Sweep the funds of the foreign seed in to the wallet.
+     */
+    private sweep(): void {
+        let seed = this.state.sweepSeed.trim();
+        if (seed.split(/\s+/).length > 1) {
+            try {
+                seed = Base58.encode(Seed.fromMnemonic(seed));
+            } catch (err) {
+                this.setState({ error: err.message });
+                return;
+            }
+        }
+
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const transactionIds = await this._walletService.sweep(seed, this.state.isSubseed);
+                    this.setState({
+                        isBusy: false,
+                        sweepSeed: "",
+                        status: `Swept with ${transactionIds.length} transactions`
+                    });
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        status: undefined,
+                        error: err.message
+                    });
+                }
+            });
+    }
+}
+
+export default Consolidate;
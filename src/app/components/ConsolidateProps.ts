@@ -0,0 +1,8 @@
+import { IWalletBalance } from "../../models/IWalletBalance";
+
+export interface ConsolidateProps {
+    /**
+     * The current wallet balances.
+     */
+    balances: IWalletBalance[];
+}
@@ -0,0 +1,31 @@
+export interface ConsolidateState {
+    /**
+     * The color to consolidate, empty for all outputs.
+     */
+    color: string;
+
+    /**
+     * The foreign seed, subseed or mnemonic to sweep.
+     */
+    sweepSeed: string;
+
+    /**
+     * Is the sweep seed the subseed of a single address.
+     */
+    isSubseed: boolean;
+
+    /**
+     * Is the component busy.
+     */
+    isBusy: boolean;
+
+    /**
+     * Progress of the current operation.
+     */
+    status?: string;
+
+    /**
+     * Error for the last operation.
+     */
+    error?: string;
+}
@@ -0,0 +1,183 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { DateHelper } from "../../helpers/dateHelper";
+import { InclusionStateHelper } from "../../helpers/inclusionStateHelper";
+import { Colors } from "../../iota/colors";
+import { IWalletTransaction } from "../../models/IWalletTransaction";
+import { IWalletService } from "../../models/services/IWalletService";
+import { HistoryProps } from "./HistoryProps";
+import { HistoryState } from "./HistoryState";
+
+/**
+ * Component which will display the transaction history.
+ */
+class History extends Component<HistoryProps, HistoryState> {
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * Subscription id for wallet updates.
+     */
+    private _subscriptionId?: string;
+
+    /**
+     * Create a new instance of History.
+     * @param props The props.
+     */
+    constructor(props: HistoryProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+
+        this.state = {
+            history: this._walletService.getTransactionHistory(),
+            filterColor: "",
+            filterStatus: ""
+        };
+    }
+
+    /**
+     * The component mounted.
+     */
+    public componentDidMount(): void {
+        this._subscriptionId = this._walletService.subscribe(() => {
+            this.setState({
+                history: this._walletService.getTransactionHistory()
+            });
+        });
+    }
+
+    /**
+     * The component will unmount so update flag.
+     */
+    public componentWillUnmount(): void {
+        if (this._subscriptionId) {
+            this._walletService.unsubscribe(this._subscriptionId);
+            this._subscriptionId = undefined;
+        }
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        const filtered = this.filterHistory();
+
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between middle">
+                    <h2>History</h2>
+                    <div className="row">
+                        <div className="select-wrapper select-wrapper--small margin-r-t">
+                            <select
+                                value={this.state.filterColor}
+                                onChange={e => this.setState({ filterColor: e.target.value })}
+                            >
+                                <option value="">All Assets</option>
+                                <option value={Colors.IOTA_NAME}>{Colors.IOTA_NAME}</option>
+                                {this.props.assets.map(asset => (
+                                    <option key={asset.color} value={asset.color}>
+                                        {asset.name}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                        <div className="select-wrapper select-wrapper--small">
+                            <select
+                                value={this.state.filterStatus}
+                                onChange={e => this.setState({ filterStatus: e.target.value })}
+                            >
+                                <option value="">All Statuses</option>
+                                {InclusionStateHelper.STATUSES.map(status => (
+                                    <option key={status} value={status}>
+                                        {status}
+                                    </option>
+                                ))}
+                            </select>
+                        </div>
+                    </div>
+                </div>
+                <div className="card--content">
+                    {filtered.length === 0 && (
+                        <p>There are no transactions in the history.</p>
+                    )}
+                    {filtered.length > 0 && (
+                        <table>
+                            <thead>
+                                <tr>
+                                    <th>Date</th>
+                                    <th>Type</th>
+                                    <th>Amounts</th>
+                                    <th>Counterparties</th>
+                                    <th>Status</th>
+                                </tr>
+                            </thead>
+                            <tbody>
+                                {filtered.map(transaction => (
+                                    <tr key={transaction.id}>
+                                        <td>{DateHelper.format(transaction.created)}</td>
+                                        <td>
+                                            {transaction.type}
+                                            {transaction.memo && (
+                                                <div className="break">{transaction.memo}</div>
+                                            )}
+                                        </td>
+                                        <td className={classNames({
+                                            "success": transaction.direction === "incoming",
+                                            "warning": transaction.direction === "outgoing"
+                                        })}>
+                                            {transaction.amounts.map((amount, idx) => (
+                                                <div key={idx}>
+                                                    {transaction.direction === "outgoing" ? "-" : "+"}
+                                                    {amount.value} {this.assetName(amount.color)}
+                                                </div>
+                                            ))}
+                                        </td>
+                                        <td className="break">
+                                            {transaction.counterparties.length === 0 && "-"}
+                                            {transaction.counterparties.map(address => (
+                                                <div key={address}>{address}</div>
+                                            ))}
+                                        </td>
+                                        <td>{transaction.status}</td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Filter the history by the selected color and status.
+     * @returns The filtered history.
+     */
+    private filterHistory(): IWalletTransaction[] {
+        if (!this.state.history) {
+            return [];
+        }
+
+        return this.state.history.filter(transaction =>
+            (!this.state.filterColor ||
+                transaction.amounts.some(a => a.color === this.state.filterColor)) &&
+            (!this.state.filterStatus || transaction.status === this.state.filterStatus));
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default History;
@@ -0,0 +1,8 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface HistoryProps {
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+}
@@ -0,0 +1,18 @@
+import { IWalletTransaction } from "../../models/IWalletTransaction";
+
+export interface HistoryState {
+    /**
+     * The transaction history.
+     */
+    history?: IWalletTransaction[];
+
+    /**
+     * Only show transactions with this color, empty for all.
+     */
+    filterColor: string;
+
+    /**
+     * Only show transactions with this status, empty for all.
+     */
+    filterStatus: string;
+}
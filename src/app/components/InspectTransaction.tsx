@@ -0,0 +1,195 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { Colors } from "../../iota/colors";
+import { Transaction } from "../../iota/transaction";
+import { InspectTransactionProps } from "./InspectTransactionProps";
+import { InspectTransactionState } from "./InspectTransactionState";
+
+/**
+ * Component which will decode transaction bytes to show what was sent.
+ */
+class InspectTransaction extends Component<InspectTransactionProps, InspectTransactionState> {
+    /**
+     * Create a new instance of InspectTransaction.
+     * @param props The props.
+     */
+    constructor(props: InspectTransactionProps) {
+        super(props);
+
+        this.state = {
+            bytes: ""
+        };
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card">
+                <div className="card--header">
+                    <h2>Inspect Transaction</h2>
+                </div>
+                <div className="card--content">
+                    <div className="card--label">
+                        Transaction Bytes (base64 txn_bytes)
+                    </div>
+                    <div className="card--value margin-b-s">
+                        <textarea
+                            className="fill"
+                            rows={6}
+                            value={this.state.bytes}
+                            onChange={e => this.setState({
+                                bytes: e.target.value,
+                                decoded: undefined,
+                                error: undefined
+                            })}
+                        />
+                    </div>
+                    <div className="row margin-b-s">
+                        <button
+                            className="margin-r-s"
+                            disabled={this.state.bytes.trim().length === 0}
+                            onClick={() => this.inspect()}
+                        >
+                            Inspect
+                        </button>
+                        <button
+                            className="button--secondary"
+                            onClick={() => this.props.onClose()}
+                        >
+                            Close
+                        </button>
+                    </div>
+                    {this.state.error && (
+                        <p className="margin-b-s danger">{this.state.error}</p>
+                    )}
+                    {this.state.decoded && this.renderDecoded()}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Render the decoded transaction.
+     * @returns The node to render.
+     */
+    private renderDecoded(): ReactNode {
+        if (!this.state.decoded) {
+            return null;
+        }
+
+        const { inputs, outputs, dataPayload, signatures } = this.state.decoded;
+
+        return (
+            <React.Fragment>
+                <div className="card--label">
+                    Inputs
+                </div>
+                <div className="card--value margin-b-s">
+                    {inputs.length === 0 && "-"}
+                    {inputs.map(input => (
+                        <div key={input} className="break">{input}</div>
+                    ))}
+                </div>
+                <div className="card--label">
+                    Outputs
+                </div>
+                <table className="margin-b-s">
+                    <thead>
+                        <tr>
+                            <th>Address</th>
+                            <th>Amounts</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {Object.keys(outputs).map(address => (
+                            <tr key={address}>
+                                <td className="break">{address}</td>
+                                <td>
+                                    {outputs[address].map((balance, idx) => (
+                                        <div key={idx}>
+                                            {balance.value.toString()} {this.assetName(balance.color)}
+                                        </div>
+                                    ))}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="card--label">
+                    Data Payload
+                </div>
+                <div className="card--value margin-b-s break">
+                    {dataPayload ? (
+                        <React.Fragment>
+                            <div>{dataPayload.toString("utf8")}</div>
+                            <div>{dataPayload.toString("hex")}</div>
+                        </React.Fragment>
+                    ) : "-"}
+                </div>
+                <div className="card--label">
+                    Signatures
+                </div>
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Version</th>
+                            <th>Address</th>
+                            <th>Public Key</th>
+                            <th>Signature</th>
+                            <th>Valid</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {signatures.map((signature, idx) => (
+                            <tr key={idx}>
+                                <td>{signature.version}</td>
+                                <td className="break">{signature.address}</td>
+                                <td className="break">{signature.publicKey.toString("hex")}</td>
+                                <td className="break">{signature.signature.toString("hex")}</td>
+                                <td className={classNames({
+                                    "success": signature.isValid,
+                                    "danger": !signature.isValid
+                                })}>
+                                    {signature.isValid ? "Yes" : "No"}
+                                </td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Decode the transaction bytes.
+     */
+    private inspect(): void {
+        try {
+            const decoded = Transaction.decode(Buffer.from(this.state.bytes.trim(), "base64"));
+            this.setState({ decoded, error: undefined });
+        } catch (err) {
+            this.setState({ decoded: undefined, error: err.message });
+        }
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        if (color === Colors.IOTA_NAME) {
+            return Colors.IOTA_NAME;
+        }
+        if (color === Colors.NEW) {
+            return "(new asset)";
+        }
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default InspectTransaction;
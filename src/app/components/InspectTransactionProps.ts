@@ -0,0 +1,13 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface InspectTransactionProps {
+    /**
+     * The assets in the wallet, used to name the colors.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The inspector was closed.
+     */
+    onClose(): void;
+}
@@ -0,0 +1,18 @@
+import { IDecodedTransaction } from "../../iota/models/IDecodedTransaction";
+
+export interface InspectTransactionState {
+    /**
+     * The base64 transaction bytes to inspect.
+     */
+    bytes: string;
+
+    /**
+     * The decoded transaction.
+     */
+    decoded?: IDecodedTransaction;
+
+    /**
+     * Error decoding the transaction.
+     */
+    error?: string;
+}
@@ -0,0 +1,375 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { FileHelper } from "../../helpers/fileHelper";
+import { Address } from "../../iota/address";
+import { ISignedTransaction } from "../../models/ISignedTransaction";
+import { IUnsignedTransaction } from "../../models/IUnsignedTransaction";
+import { IWalletService } from "../../models/services/IWalletService";
+import { OfflineSigningProps } from "./OfflineSigningProps";
+import { OfflineSigningState } from "./OfflineSigningState";
+import Spinner from "./Spinner";
+import TransactionSummary from "./TransactionSummary";
+
+/**
+ * Component which will build, sign and broadcast transactions using files.
+ */
+class OfflineSigning extends Component<OfflineSigningProps, OfflineSigningState> {
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * The file input for importing transactions.
+     */
+    private readonly _fileInput: React.RefObject<HTMLInputElement>;
+
+    /**
+     * Create a new instance of OfflineSigning.
+     * @param props The props.
+     */
+    constructor(props: OfflineSigningProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+        this._fileInput = React.createRef();
+
+        const available = props.balances.find(b => b.confirmed > 0);
+
+        this.state = {
+            mode: "build",
+            address: "",
+            color: available ? available.asset.color : "",
+            amount: "",
+            isBusy: false,
+            isRemainderVerified: false
+        };
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between">
+                    <h2>Offline Signing</h2>
+                    <div className="row">
+                        <input
+                            ref={this._fileInput}
+                            type="file"
+                            accept=".json"
+                            hidden={true}
+                            onChange={e => this.importFile(e.target.files)}
+                        />
+                        {(["build", "sign", "broadcast"] as OfflineSigningState["mode"][]).map(mode => (
+                            <button
+                                key={mode}
+                                className={classNames("margin-r-t", {
+                                    "button--secondary": this.state.mode !== mode
+                                })}
+                                disabled={this.state.isBusy}
+                                onClick={() => this.setState({
+                                    mode,
+                                    transaction: undefined,
+                                    status: undefined,
+                                    error: undefined
+                                })}
+                            >
+                                {mode.slice(0, 1).toUpperCase()}{mode.slice(1)}
+                            </button>
+                        ))}
+                        <button
+                            className="button--secondary"
+                            disabled={this.state.isBusy}
+                            onClick={() => this.props.onClose()}
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+                <div className="card--content">
+                    {this.state.mode === "build" && this.renderBuild()}
+                    {this.state.mode === "sign" && (
+                        <p className="margin-b-s">
+                            Import an unsigned transaction on the device holding the seed,
+                            then export the signed transaction.
+                        </p>
+                    )}
+                    {this.state.mode === "broadcast" && (
+                        <p className="margin-b-s">
+                            Import a signed transaction to send it to the node.
+                        </p>
+                    )}
+                    {this.state.mode !== "build" && (
+                        <button
+                            className="margin-b-s"
+                            disabled={this.state.isBusy}
+                            onClick={() => this._fileInput.current?.click()}
+                        >
+                            Import Transaction
+                        </button>
+                    )}
+                    {this.state.transaction && (
+                        <React.Fragment>
+                            <TransactionSummary
+                                transaction={this.state.transaction}
+                                assets={this.props.assets}
+                                isRemainderVerified={this.state.isRemainderVerified}
+                            />
+                            <div className="row margin-t-s">
+                                {this.state.mode === "build" && (
+                                    <button
+                                        disabled={this.state.isBusy}
+                                        onClick={() => this.exportTransaction("unsigned")}
+                                    >
+                                        Export Unsigned
+                                    </button>
+                                )}
+                                {this.state.mode === "sign" && (
+                                    <button
+                                        disabled={this.state.isBusy}
+                                        onClick={() => this.sign()}
+                                    >
+                                        Sign and Export
+                                    </button>
+                                )}
+                                {this.state.mode === "broadcast" && (
+                                    <button
+                                        disabled={this.state.isBusy}
+                                        onClick={() => this.broadcast()}
+                                    >
+                                        Broadcast
+                                    </button>
+                                )}
+                            </div>
+                        </React.Fragment>
+                    )}
+                    {this.state.isBusy && (
+                        <Spinner className="margin-t-s" />
+                    )}
+                    {this.state.status && (
+                        <p className="margin-t-s success break">{this.state.status}</p>
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Render the form for building a transaction.
+     * @returns The node to render.
+     */
+    private renderBuild(): ReactNode {
+        return (
+            <React.Fragment>
+                <div className="card--label">
+                    Address
+                </div>
+                <div className="card--value margin-b-s">
+                    <input
+                        className="fill"
+                        type="text"
+                        disabled={this.state.isBusy}
+                        value={this.state.address}
+                        onChange={e => this.setState({ address: e.target.value, transaction: undefined })}
+                    />
+                </div>
+                <div className="card--label">
+                    Asset
+                </div>
+                <div className="card--value margin-b-s">
+                    <div className="select-wrapper">
+                        <select
+                            disabled={this.state.isBusy}
+                            value={this.state.color}
+                            onChange={e => this.setState({ color: e.target.value, transaction: undefined })}
+                        >
+                            {this.props.balances.map(balance => (
+                                <option key={balance.asset.color} value={balance.asset.color}>
+                                    {balance.asset.name}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="card--label">
+                    Amount
+                </div>
+                <div className="card--value margin-b-s">
+                    <input
+                        type="text"
+                        disabled={this.state.isBusy}
+                        value={this.state.amount}
+                        onChange={e => this.setState({ amount: e.target.value, transaction: undefined })}
+                    />
+                </div>
+                {!this.state.transaction && (
+                    <button
+                        disabled={this.state.isBusy ||
+                            !Address.isValid(this.state.address.trim()) ||
+                            !this.state.color ||
+                            !/^\d+$/.test(this.state.amount) ||
+                            BigInt(this.state.amount) <= 0}
+                        onClick={() => this.build()}
+                    >
+                        Build
+                    </button>
+                )}
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Build an unsigned transaction from the form.
+     */
+    private build(): void {
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const transaction = await this._walletService.buildUnsignedTransaction({
+                        destinations: {
+                            [this.state.address.trim()]: {
+                                [this.state.color]: BigInt(this.state.amount)
+                            }
+                        }
+                    });
+
+                    this.setState({ isBusy: false, transaction, isRemainderVerified: true });
+                } catch (err) {
+                    this.setState({ isBusy: false, error: err.message });
+                }
+            });
+    }
+
+    /**
+     * Sign the imported transaction and export it.
+     */
+    private sign(): void {
+        const transaction = this.state.transaction;
+        if (!transaction) {
+            return;
+        }
+
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const signed = await this._walletService.signUnsignedTransaction(transaction);
+                    // signing refuses a remainder address which is not ours
+                    this.setState(
+                        { isBusy: false, transaction: signed, isRemainderVerified: true },
+                        () => this.exportTransaction("signed"));
+                } catch (err) {
+                    this.setState({ isBusy: false, error: err.message });
+                }
+            });
+    }
+
+    /**
+     * Broadcast the imported signed transaction.
+     */
+    private broadcast(): void {
+        const transaction = this.state.transaction as ISignedTransaction | undefined;
+        if (!transaction) {
+            return;
+        }
+
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const transactionId = await this._walletService.broadcastSignedTransaction(transaction);
+
+                    this.setState({
+                        isBusy: false,
+                        transaction: undefined,
+                        status: `Transaction ${transactionId} has been sent`
+                    });
+                } catch (err) {
+                    this.setState({ isBusy: false, error: err.message });
+                }
+            });
+    }
+
+    /**
+     * Export the current transaction to a file.
+     * @param kind The kind of transaction being exported.
+     */
+    private exportTransaction(kind: "unsigned" | "signed"): void {
+        if (this.state.transaction) {
+            FileHelper.save(
+                `${kind}-transaction-${this.state.transaction.created}.json`,
+                JSON.stringify(this.state.transaction, undefined, "\t")
+            );
+            this.setState({ status: `The ${kind} transaction has been exported` });
+        }
+    }
+
+    /**
+     * Import a transaction from a file.
+     * @param files The files selected.
+     */
+    private async importFile(files: FileList | null): Promise<void> {
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const content = await files[0].text();
+        if (this._fileInput.current) {
+            this._fileInput.current.value = "";
+        }
+
+        try {
+            const transaction = JSON.parse(content) as ISignedTransaction;
+
+            if (!this.isTransaction(transaction)) {
+                throw new Error("The file does not contain a transaction");
+            }
+            if (this.state.mode === "broadcast" && !Array.isArray(transaction.signatures)) {
+                throw new Error("The transaction has not been signed");
+            }
+
+            const isRemainderVerified = transaction.remainderAddress
+                ? await this._walletService.isOwnAddress(transaction.remainderAddress) : false;
+
+            this.setState({ transaction, isRemainderVerified, status: undefined, error: undefined });
+        } catch (err) {
+            this.setState({ transaction: undefined, status: undefined, error: err.message });
+        }
+    }
+
+    /**
+     * Does the object have the shape of a transaction.
+     * @param transaction The object to check.
+     * @returns True if it looks like a transaction.
+     */
+    private isTransaction(transaction: IUnsignedTransaction): boolean {
+        return transaction !== null &&
+            typeof transaction === "object" &&
+            typeof transaction.essence === "string" &&
+            Array.isArray(transaction.inputs) &&
+            Array.isArray(transaction.outputs) &&
+            Array.isArray(transaction.destinations);
+    }
+}
+
+export default OfflineSigning;
@@ -0,0 +1,19 @@
+import { IWalletAsset } from "../../models/IWalletAsset";
+import { IWalletBalance } from "../../models/IWalletBalance";
+
+export interface OfflineSigningProps {
+    /**
+     * The current wallet balances.
+     */
+    balances: IWalletBalance[];
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * The offline signing was closed.
+     */
+    onClose(): void;
+}
@@ -0,0 +1,49 @@
+import { ISignedTransaction } from "../../models/ISignedTransaction";
+import { IUnsignedTransaction } from "../../models/IUnsignedTransaction";
+
+export interface OfflineSigningState {
+    /**
+     * The current step.
+     */
+    mode: "build" | "sign" | "broadcast";
+
+    /**
+     * The address to send to.
+     */
+    address: string;
+
+    /**
+     * The color of the tokens to send.
+     */
+    color: string;
+
+    /**
+     * The amount to send.
+     */
+    amount: string;
+
+    /**
+     * The transaction loaded or built for the current step.
+     */
+    transaction?: IUnsignedTransaction | ISignedTransaction;
+
+    /**
+     * Has the remainder address of the transaction been checked to belong to the wallet.
+     */
+    isRemainderVerified: boolean;
+
+    /**
+     * Is the component busy.
+     */
+    isBusy: boolean;
+
+    /**
+     * The result of the last step.
+     */
+    status?: string;
+
+    /**
+     * Error for the last step.
+     */
+    error?: string;
+}
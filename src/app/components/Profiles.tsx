@@ -0,0 +1,337 @@
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { IProfileService } from "../../models/services/IProfileService";
+import { IWalletService } from "../../models/services/IWalletService";
+import { ProfilesProps } from "./ProfilesProps";
+import { ProfilesState } from "./ProfilesState";
+import Spinner from "./Spinner";
+
+/**
+ * Component which will manage the wallet profiles.
+ */
+class Profiles extends Component<ProfilesProps, ProfilesState> {
+    /**
+     * Profile service.
+     */
+    private readonly _profileService: IProfileService;
+
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * Create a new instance of Profiles.
+     * @param props The props.
+     */
+    constructor(props: ProfilesProps) {
+        super(props);
+
+        this._profileService = ServiceFactory.get<IProfileService>("profile");
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+
+        this.state = {
+            isBusy: true,
+            profiles: [],
+            name: "",
+            apiEndpoint: "",
+            deletePassword: ""
+        };
+    }
+
+    /**
+     * The component mounted.
+     */
+    public async componentDidMount(): Promise<void> {
+        await this.loadProfiles();
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card">
+                <div className="card--header row space-between">
+                    <h2>Profiles</h2>
+                    {this.state.editId === undefined && (
+                        <button
+                            disabled={this.state.isBusy}
+                            onClick={() => this.setState({
+                                editId: "",
+                                name: "",
+                                apiEndpoint: "",
+                                deleteId: undefined,
+                                error: undefined
+                            })}
+                        >
+                            New Profile
+                        </button>
+                    )}
+                </div>
+                <div className="card--content">
+                    {this.state.editId !== undefined && (
+                        <React.Fragment>
+                            <div className="card--label">
+                                Name
+                            </div>
+                            <div className="card--value margin-b-s">
+                                <input
+                                    className="fill"
+                                    type="text"
+                                    disabled={this.state.isBusy}
+                                    value={this.state.name}
+                                    onChange={e => this.setState({ name: e.target.value })}
+                                />
+                            </div>
+                            <div className="card--label">
+                                API Endpoint (optional, overrides the settings)
+                            </div>
+                            <div className="card--value margin-b-s">
+                                <input
+                                    className="fill"
+                                    type="text"
+                                    disabled={this.state.isBusy}
+                                    value={this.state.apiEndpoint}
+                                    onChange={e => this.setState({ apiEndpoint: e.target.value })}
+                                />
+                            </div>
+                            <div className="row margin-b-s">
+                                <button
+                                    className="margin-r-s"
+                                    disabled={this.state.isBusy || this.state.name.trim().length === 0}
+                                    onClick={() => this.saveProfile()}
+                                >
+                                    Save
+                                </button>
+                                <button
+                                    className="button--secondary"
+                                    disabled={this.state.isBusy}
+                                    onClick={() => this.setState({ editId: undefined, error: undefined })}
+                                >
+                                    Cancel
+                                </button>
+                            </div>
+                        </React.Fragment>
+                    )}
+                    <table>
+                        <thead>
+                            <tr>
+                                <th>Name</th>
+                                <th>API Endpoint</th>
+                                <th>&nbsp;</th>
+                            </tr>
+                        </thead>
+                        <tbody>
+                            {this.state.profiles.map(profile => (
+                                <tr key={profile.id} className="middle">
+                                    <td className="break">
+                                        {profile.name}
+                                        {profile.id === this.state.activeId && (
+                                            <span className="success"> (active)</span>
+                                        )}
+                                    </td>
+                                    <td className="break">{profile.apiEndpoint ?? "-"}</td>
+                                    <td>
+                                        {this.state.deleteId === profile.id ? (
+                                            <React.Fragment>
+                                                <button
+                                                    className="button--danger margin-r-t"
+                                                    disabled={this.state.isBusy}
+                                                    onClick={() => this.deleteProfile(profile.id)}
+                                                >
+                                                    Confirm Delete
+                                                </button>
+                                                <button
+                                                    className="button--secondary"
+                                                    disabled={this.state.isBusy}
+                                                    onClick={() => this.setState({ deleteId: undefined })}
+                                                >
+                                                    Cancel
+                                                </button>
+                                            </React.Fragment>
+                                        ) : (
+                                            <React.Fragment>
+                                                <button
+                                                    className="margin-r-t"
+                                                    disabled={this.state.isBusy ||
+                                                        profile.id === this.state.activeId}
+                                                    onClick={() => this.switchProfile(profile.id)}
+                                                >
+                                                    Switch
+                                                </button>
+                                                <button
+                                                    className="margin-r-t"
+                                                    disabled={this.state.isBusy}
+                                                    onClick={() => this.setState({
+                                                        editId: profile.id,
+                                                        name: profile.name,
+                                                        apiEndpoint: profile.apiEndpoint ?? "",
+                                                        deleteId: undefined,
+                                                        error: undefined
+                                                    })}
+                                                >
+                                                    Edit
+                                                </button>
+                                                <button
+                                                    className="button--danger"
+                                                    disabled={this.state.isBusy ||
+                                                        profile.id === this.state.activeId}
+                                                    onClick={() => this.setState({
+                                                        deleteId: profile.id,
+                                                        deletePassword: "",
+                                                        error: undefined
+                                                    })}
+                                                >
+                                                    Delete
+                                                </button>
+                                            </React.Fragment>
+                                        )}
+                                    </td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {this.state.deleteId && (
+                        <React.Fragment>
+                            <p className="margin-t-s danger">
+                                Deleting a profile also deletes its wallet, make sure you have a copy of the seed.
+                            </p>
+                            <div className="card--label">
+                                Password of the profile wallet
+                            </div>
+                            <div className="card--value margin-b-s">
+                                <input
+                                    className="fill"
+                                    type="password"
+                                    disabled={this.state.isBusy}
+                                    value={this.state.deletePassword}
+                                    onChange={e => this.setState({
+                                        deletePassword: e.target.value,
+                                        error: undefined
+                                    })}
+                                />
+                            </div>
+                        </React.Fragment>
+                    )}
+                    {this.state.isBusy && (
+                        <Spinner className="margin-t-s" />
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                    <button
+                        className="margin-t-s"
+                        disabled={this.state.isBusy}
+                        onClick={() => this.props.onClose()}
+                    >
+                        Close
+                    </button>
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Load the profiles from the service.
+     */
+    private async loadProfiles(): Promise<void> {
+        const profiles = await this._profileService.getAll();
+        const active = await this._profileService.getActive();
+
+        this.setState({
+            isBusy: false,
+            profiles: profiles.slice(),
+            activeId: active.id
+        });
+    }
+
+    /**
+     * Create or update the profile being edited, a new profile is made active.
+     */
+    private saveProfile(): void {
+        this.setState(
+            {
+                isBusy: true,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const apiEndpoint = this.state.apiEndpoint.trim().length > 0
+                        ? this.state.apiEndpoint.trim() : undefined;
+
+                    if (this.state.editId) {
+                        await this._profileService.update({
+                            id: this.state.editId,
+                            name: this.state.name,
+                            apiEndpoint
+                        });
+                    } else {
+                        const profile = await this._profileService.create(this.state.name, apiEndpoint);
+                        await this._walletService.switchProfile(profile.id);
+                    }
+
+                    this.setState({ editId: undefined });
+                    await this.loadProfiles();
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Switch to a different profile.
+     * @param id The id of the profile to switch to.
+     */
+    private switchProfile(id: string): void {
+        this.setState(
+            {
+                isBusy: true,
+                error: undefined
+            },
+            async () => {
+                try {
+                    await this._walletService.switchProfile(id);
+                    await this.loadProfiles();
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Delete a profile and its wallet.
+     * @param id The id of the profile to delete.
+     */
+    private deleteProfile(id: string): void {
+        this.setState(
+            {
+                isBusy: true,
+                error: undefined
+            },
+            async () => {
+                try {
+                    await this._walletService.deleteProfile(id, this.state.deletePassword);
+                    this.setState({ deleteId: undefined, deletePassword: "" });
+                    await this.loadProfiles();
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        error: err.message
+                    });
+                }
+            });
+    }
+}
+
+export default Profiles;
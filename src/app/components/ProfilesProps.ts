@@ -0,0 +1,11 @@
+export interface ProfilesProps {
+    /**
+     * The profiles were changed or a different profile was made active.
+     */
+    onUpdated(): void;
+
+    /**
+     * The profiles were closed.
+     */
+    onClose(): void;
+}
@@ -0,0 +1,48 @@
+import { IWalletProfile } from "../../models/IWalletProfile";
+
+export interface ProfilesState {
+    /**
+     * Is the component busy.
+     */
+    isBusy: boolean;
+
+    /**
+     * The profiles.
+     */
+    profiles: IWalletProfile[];
+
+    /**
+     * The id of the active profile.
+     */
+    activeId?: string;
+
+    /**
+     * The id of the profile being edited, empty for a new profile.
+     */
+    editId?: string;
+
+    /**
+     * The name of the profile being edited.
+     */
+    name: string;
+
+    /**
+     * The api endpoint of the profile being edited.
+     */
+    apiEndpoint: string;
+
+    /**
+     * The id of the profile waiting for delete confirmation.
+     */
+    deleteId?: string;
+
+    /**
+     * The password of the profile waiting for delete confirmation.
+     */
+    deletePassword: string;
+
+    /**
+     * Error for the last action.
+     */
+    error?: string;
+}
@@ -1,9 +1,17 @@
 import React, { Component, ReactNode } from "react";
+import { CoinSelectionStrategies } from "../../coinSelection/coinSelectionStrategies";
 import { ServiceFactory } from "../../factories/serviceFactory";
+import { AddressDiscoveryHelper } from "../../helpers/addressDiscoveryHelper";
+import { CryptoBenchmarkHelper } from "../../helpers/cryptoBenchmarkHelper";
 import { ISettings } from "../../models/ISettings";
+import { ICryptoService } from "../../models/services/ICryptoService";
 import { ISettingsService } from "../../models/services/ISettingsService";
+import { CryptoService } from "../../services/cryptoService";
+import { SettingsService } from "../../services/settingsService";
+import { WorkerCryptoService } from "../../services/workerCryptoService";
 import { SettingsProps } from "./SettingsProps";
 import { SettingsState } from "./SettingsState";
+import Spinner from "./Spinner";
 
 /**
  * Component which will display settings.
@@ -24,7 +32,9 @@ class Settings extends Component<SettingsProps, SettingsState> {
         this._settingsService = ServiceFactory.get<ISettingsService>("settings");
 
         this.state = {
-            isBusy: true
+            isBusy: true,
+            isEventStreamEnabled: false,
+            isBenchmarking: false
         };
     }
 
@@ -36,6 +46,11 @@ class Settings extends Component<SettingsProps, SettingsState> {
         this.setState({
             settings,
             apiEndpoint: settings.apiEndpoint,
+            autoLockMinutes: (settings.autoLockMinutes ?? SettingsService.DEFAULT_AUTO_LOCK_MINUTES).toString(),
+            coinSelection: settings.coinSelection ?? CoinSelectionStrategies.DEFAULT_ID,
+            addressGapLimit: (settings.addressGapLimit ?? AddressDiscoveryHelper.DEFAULT_GAP_LIMIT).toString(),
+            addressBatchSize: (settings.addressBatchSize ?? AddressDiscoveryHelper.DEFAULT_BATCH_SIZE).toString(),
+            isEventStreamEnabled: settings.isEventStreamEnabled ?? false,
             isBusy: false
         });
     }
@@ -63,8 +78,72 @@ class Settings extends Component<SettingsProps, SettingsState> {
                                 onChange={e => this.setState({ apiEndpoint: e.target.value })}
                             />
                         </div>
+                        <div className="card--label margin-t-s">
+                            Auto Lock (minutes, 0 to disable)
+                        </div>
+                        <div className="card--value">
+                            <input
+                                className="fill"
+                                type="text"
+                                value={this.state.autoLockMinutes}
+                                onChange={e => this.setState({ autoLockMinutes: e.target.value })}
+                            />
+                        </div>
+                        <div className="card--label margin-t-s">
+                            Coin Selection
+                        </div>
+                        <div className="card--value">
+                            <div className="select-wrapper">
+                                <select
+                                    value={this.state.coinSelection}
+                                    onChange={e => this.setState({ coinSelection: e.target.value })}
+                                >
+                                    {CoinSelectionStrategies.all().map(strategy => (
+                                        <option key={strategy.id} value={strategy.id}>
+                                            {strategy.name}
+                                        </option>
+                                    ))}
+                                </select>
+                            </div>
+                        </div>
+                        <div className="card--label margin-t-s">
+                            Address Gap Limit (unused addresses scanned after the last used one)
+                        </div>
+                        <div className="card--value">
+                            <input
+                                className="fill"
+                                type="text"
+                                value={this.state.addressGapLimit}
+                                onChange={e => this.setState({ addressGapLimit: e.target.value })}
+                            />
+                        </div>
+                        <div className="card--label margin-t-s">
+                            Address Batch Size (addresses requested at a time)
+                        </div>
+                        <div className="card--value">
+                            <input
+                                className="fill"
+                                type="text"
+                                value={this.state.addressBatchSize}
+                                onChange={e => this.setState({ addressBatchSize: e.target.value })}
+                            />
+                        </div>
+                        <div className="card--label margin-t-s">
+                            Event Stream (experimental, the node must serve ws://&lt;endpoint&gt;/events)
+                        </div>
+                        <div className="card--value">
+                            <input
+                                type="checkbox"
+                                checked={this.state.isEventStreamEnabled}
+                                onChange={e => this.setState({ isEventStreamEnabled: e.target.checked })}
+                            />
+                        </div>
                         <div className="margin-t-s">
                             <button
+                                disabled={!Number.isFinite(parseInt(this.state.autoLockMinutes ?? "", 10)) ||
+                                    parseInt(this.state.autoLockMinutes ?? "", 10) < 0 ||
+                                    !(parseInt(this.state.addressGapLimit ?? "", 10) > 0) ||
+                                    !(parseInt(this.state.addressBatchSize ?? "", 10) > 0)}
                                 onClick={() => this.save()}
                                 className="margin-r-t"
                             >
@@ -78,10 +157,87 @@ class Settings extends Component<SettingsProps, SettingsState> {
                         </div>
                     </div>
                 </div>
+                <div className="card margin-t-s">
+                    <div className="card--header">
+                        <h2>Crypto Benchmark</h2>
+                    </div>
+                    <div className="card--content">
+                        <p className="margin-b-s">
+                            Derive and sign with {CryptoBenchmarkHelper.DEFAULT_COUNT} addresses of a throwaway seed,
+                            on the render thread and in the worker.
+                        </p>
+                        {this.state.benchmark && (
+                            <table className="margin-b-s">
+                                <thead>
+                                    <tr>
+                                        <th>Service</th>
+                                        <th>Derive</th>
+                                        <th>Sign</th>
+                                        <th>Hash</th>
+                                        <th>Longest Block</th>
+                                    </tr>
+                                </thead>
+                                <tbody>
+                                    {this.state.benchmark.map(result => (
+                                        <tr key={result.name}>
+                                            <td>{result.name}</td>
+                                            <td>{result.deriveTime.toFixed(0)} ms</td>
+                                            <td>{result.signTime.toFixed(0)} ms</td>
+                                            <td>{result.hashTime.toFixed(0)} ms</td>
+                                            <td>{result.maxBlockedTime.toFixed(0)} ms</td>
+                                        </tr>
+                                    ))}
+                                </tbody>
+                            </table>
+                        )}
+                        {this.state.isBenchmarking && (
+                            <Spinner className="margin-b-s" />
+                        )}
+                        {this.state.benchmarkError && (
+                            <p className="margin-b-s danger">{this.state.benchmarkError}</p>
+                        )}
+                        <button
+                            disabled={this.state.isBenchmarking}
+                            onClick={() => this.runBenchmark()}
+                        >
+                            Run Benchmark
+                        </button>
+                    </div>
+                </div>
             </div>
         );
     }
 
+    /**
+     * Compare the crypto operations on the render thread with the configured service.
+     */
+    private runBenchmark(): void {
+        this.setState(
+            {
+                isBenchmarking: true,
+                benchmark: undefined,
+                benchmarkError: undefined
+            },
+            async () => {
+                try {
+                    const cryptoService = ServiceFactory.get<ICryptoService>("crypto");
+                    const count = CryptoBenchmarkHelper.DEFAULT_COUNT;
+
+                    const benchmark = [
+                        await CryptoBenchmarkHelper.run("Render Thread", new CryptoService(), count),
+                        await CryptoBenchmarkHelper.run(
+                            cryptoService instanceof WorkerCryptoService ? "Worker" : "Render Thread (no worker)",
+                            cryptoService,
+                            count)
+                    ];
+
+                    this.setState({ isBenchmarking: false, benchmark });
+                } catch (err) {
+                    this.setState({ isBenchmarking: false, benchmarkError: err.message });
+                }
+            });
+    }
+
     /**
      * Save the settings.
      */
@@ -92,7 +248,12 @@ class Settings extends Component<SettingsProps, SettingsState> {
         }
 
         const newSettings: ISettings = {
-            apiEndpoint: newEndpoint
+            apiEndpoint: newEndpoint,
+            autoLockMinutes: parseInt(this.state.autoLockMinutes ?? "", 10),
+            coinSelection: this.state.coinSelection,
+            addressGapLimit: parseInt(this.state.addressGapLimit ?? "", 10),
+            addressBatchSize: parseInt(this.state.addressBatchSize ?? "", 10),
+            isEventStreamEnabled: this.state.isEventStreamEnabled
         };
         await this._settingsService.set(newSettings);
 
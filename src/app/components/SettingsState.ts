@@ -1,3 +1,4 @@
+import { ICryptoBenchmarkResult } from "../../models/ICryptoBenchmarkResult";
 import { ISettings } from "../../models/ISettings";
 
 export interface SettingsState {
@@ -15,4 +16,44 @@ export interface SettingsState {
      * The api endpoint.
      */
     apiEndpoint?: string;
+
+    /**
+     * The idle minutes before the wallet is locked.
+     */
+    autoLockMinutes?: string;
+
+    /**
+     * The id of the coin selection strategy.
+     */
+    coinSelection?: string;
+
+    /**
+     * The number of consecutive unused addresses before the address scan stops.
+     */
+    addressGapLimit?: string;
+
+    /**
+     * The number of addresses requested from the node at a time.
+     */
+    addressBatchSize?: string;
+
+    /**
+     * Use the experimental event stream.
+     */
+    isEventStreamEnabled: boolean;
+
+    /**
+     * Is the crypto benchmark running.
+     */
+    isBenchmarking: boolean;
+
+    /**
+     * The results of the crypto benchmark.
+     */
+    benchmark?: ICryptoBenchmarkResult[];
+
+    /**
+     * Error from the crypto benchmark.
+     */
+    benchmarkError?: string;
 }
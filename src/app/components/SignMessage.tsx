@@ -0,0 +1,279 @@
+import classNames from "classnames";
+import React, { Component, ReactNode } from "react";
+import { ServiceFactory } from "../../factories/serviceFactory";
+import { ClipboardHelper } from "../../helpers/clipboardHelper";
+import { FileHelper } from "../../helpers/fileHelper";
+import { SignedMessageHelper } from "../../helpers/signedMessageHelper";
+import { IWalletService } from "../../models/services/IWalletService";
+import { SignMessageProps } from "./SignMessageProps";
+import { SignMessageState } from "./SignMessageState";
+
+/**
+ * Component which will sign messages with a wallet address and verify signed messages.
+ */
+class SignMessage extends Component<SignMessageProps, SignMessageState> {
+    /**
+     * Wallet service.
+     */
+    private readonly _walletService: IWalletService;
+
+    /**
+     * The file input for importing signed messages.
+     */
+    private readonly _fileInput: React.RefObject<HTMLInputElement>;
+
+    /**
+     * Create a new instance of SignMessage.
+     * @param props The props.
+     */
+    constructor(props: SignMessageProps) {
+        super(props);
+
+        this._walletService = ServiceFactory.get<IWalletService>("wallet");
+        this._fileInput = React.createRef();
+
+        this.state = {
+            mode: props.isWatchOnly ? "verify" : "sign",
+            address: props.addresses.length > 0 ? props.addresses[0].address : "",
+            message: "",
+            bundle: "",
+            isBusy: false
+        };
+    }
+
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <div className="card margin-b-s">
+                <div className="card--header row space-between">
+                    <h2>Sign Message</h2>
+                    <div className="row">
+                        {(["sign", "verify"] as SignMessageState["mode"][]).map(mode => (
+                            <button
+                                key={mode}
+                                className={classNames("margin-r-t", {
+                                    "button--secondary": this.state.mode !== mode
+                                })}
+                                disabled={mode === "sign" && this.props.isWatchOnly}
+                                onClick={() => this.setState({
+                                    mode,
+                                    status: undefined,
+                                    error: undefined
+                                })}
+                            >
+                                {mode.slice(0, 1).toUpperCase()}{mode.slice(1)}
+                            </button>
+                        ))}
+                        <button
+                            className="button--secondary"
+                            onClick={() => this.props.onClose()}
+                        >
+                            Close
+                        </button>
+                    </div>
+                </div>
+                <div className="card--content">
+                    {this.state.mode === "sign" ? this.renderSign() : this.renderVerify()}
+                    {this.state.status && (
+                        <p className="margin-t-s success">{this.state.status}</p>
+                    )}
+                    {this.state.error && (
+                        <p className="margin-t-s danger">{this.state.error}</p>
+                    )}
+                </div>
+            </div>
+        );
+    }
+
+    /**
+     * Render the form for signing a message.
+     * @returns The node to render.
+     */
+    private renderSign(): ReactNode {
+        return (
+            <React.Fragment>
+                <div className="card--label">
+                    Address
+                </div>
+                <div className="card--value margin-b-s">
+                    <div className="select-wrapper">
+                        <select
+                            value={this.state.address}
+                            onChange={e => this.setState({ address: e.target.value, signed: undefined })}
+                        >
+                            {this.props.addresses.map(address => (
+                                <option key={address.address} value={address.address}>
+                                    {address.index.toString()}: {address.address}
+                                </option>
+                            ))}
+                        </select>
+                    </div>
+                </div>
+                <div className="card--label">
+                    Message
+                </div>
+                <div className="card--value margin-b-s">
+                    <textarea
+                        className="fill"
+                        rows={4}
+                        value={this.state.message}
+                        onChange={e => this.setState({ message: e.target.value, signed: undefined })}
+                    />
+                </div>
+                {this.state.signed ? (
+                    <React.Fragment>
+                        <div className="card--label">
+                            Signed Message
+                        </div>
+                        <div className="card--value card--value-textarea card--value-textarea__json margin-b-s break">
+                            {this.bundle()}
+                        </div>
+                        <div className="row">
+                            <button
+                                className="margin-r-t"
+                                onClick={() => this.setState({
+                                    status: ClipboardHelper.copy(this.bundle())
+                                        ? "The signed message has been copied" : undefined
+                                })}
+                            >
+                                Copy
+                            </button>
+                            <button
+                                onClick={() => this.exportSigned()}
+                            >
+                                Export
+                            </button>
+                        </div>
+                    </React.Fragment>
+                ) : (
+                    <button
+                        disabled={this.state.isBusy || !this.state.address || this.state.message.length === 0}
+                        onClick={() => this.sign()}
+                    >
+                        Sign
+                    </button>
+                )}
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Render the form for verifying a message.
+     * @returns The node to render.
+     */
+    private renderVerify(): ReactNode {
+        return (
+            <React.Fragment>
+                <div className="card--label">
+                    Signed Message
+                </div>
+                <div className="card--value margin-b-s">
+                    <textarea
+                        className="fill"
+                        rows={6}
+                        value={this.state.bundle}
+                        onChange={e => this.setState({ bundle: e.target.value, status: undefined, error: undefined })}
+                    />
+                </div>
+                <div className="row">
+                    <input
+                        ref={this._fileInput}
+                        type="file"
+                        accept=".json"
+                        hidden={true}
+                        onChange={e => this.importFile(e.target.files)}
+                    />
+                    <button
+                        className="margin-r-t"
+                        disabled={this.state.bundle.trim().length === 0}
+                        onClick={() => this.verify()}
+                    >
+                        Verify
+                    </button>
+                    <button
+                        className="button--secondary"
+                        onClick={() => this._fileInput.current?.click()}
+                    >
+                        Import File
+                    </button>
+                </div>
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Sign the message with the selected address.
+     */
+    private sign(): void {
+        this.setState(
+            {
+                isBusy: true,
+                status: undefined,
+                error: undefined
+            },
+            async () => {
+                try {
+                    const signed = await this._walletService.signMessage(this.state.address, this.state.message);
+                    this.setState({ isBusy: false, signed });
+                } catch (err) {
+                    this.setState({ isBusy: false, signed: undefined, error: err.message });
+                }
+            });
+    }
+
+    /**
+     * Verify the signed message.
+     */
+    private verify(): void {
+        try {
+            const signed = SignedMessageHelper.parse(this.state.bundle);
+            SignedMessageHelper.verify(signed);
+            this.setState({
+                status: `The message was signed by ${signed.address}`,
+                error: undefined
+            });
+        } catch (err) {
+            this.setState({ status: undefined, error: err.message });
+        }
+    }
+
+    /**
+     * Get the signed message as text for export.
+     * @returns The signed message.
+     */
+    private bundle(): string {
+        return JSON.stringify(this.state.signed, undefined, "\t");
+    }
+
+    /**
+     * Export the signed message to a file.
+     */
+    private exportSigned(): void {
+        if (this.state.signed) {
+            FileHelper.save(`signed-message-${Date.now()}.json`, this.bundle());
+            this.setState({ status: "The signed message has been exported" });
+        }
+    }
+
+    /**
+     * Import a signed message from a file.
+     * @param files The files selected.
+     */
+    private async importFile(files: FileList | null): Promise<void> {
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const bundle = await files[0].text();
+        if (this._fileInput.current) {
+            this._fileInput.current.value = "";
+        }
+
+        this.setState({ bundle, status: undefined, error: undefined }, () => this.verify());
+    }
+}
+
+export default SignMessage;
@@ -0,0 +1,18 @@
+import { IWalletAddress } from "../../models/IWalletAddress";
+
+export interface SignMessageProps {
+    /**
+     * The wallet addresses which can sign.
+     */
+    addresses: IWalletAddress[];
+
+    /**
+     * Is the wallet watch-only, in which case it can only verify.
+     */
+    isWatchOnly: boolean;
+
+    /**
+     * The message signing was closed.
+     */
+    onClose(): void;
+}
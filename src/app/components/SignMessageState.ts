@@ -0,0 +1,43 @@
+import { ISignedMessage } from "../../models/ISignedMessage";
+
+export interface SignMessageState {
+    /**
+     * Is a message being signed or verified.
+     */
+    mode: "sign" | "verify";
+
+    /**
+     * The address to sign with.
+     */
+    address: string;
+
+    /**
+     * The message to sign.
+     */
+    message: string;
+
+    /**
+     * The signed message.
+     */
+    signed?: ISignedMessage;
+
+    /**
+     * The exported signed message to verify.
+     */
+    bundle: string;
+
+    /**
+     * Is the message being signed.
+     */
+    isBusy: boolean;
+
+    /**
+     * The status of the last action.
+     */
+    status?: string;
+
+    /**
+     * Error for the last action.
+     */
+    error?: string;
+}
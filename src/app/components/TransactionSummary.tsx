@@ -0,0 +1,109 @@
+import React, { Component, ReactNode } from "react";
+import { Colors } from "../../iota/colors";
+import { IWalletTransactionAmount } from "../../models/IWalletTransactionAmount";
+import { TransactionSummaryProps } from "./TransactionSummaryProps";
+
+/**
+ * Component which will display the inputs and outputs of a transaction.
+ */
+class TransactionSummary extends Component<TransactionSummaryProps> {
+    /**
+     * Render the component.
+     * @returns The node to render.
+     */
+    public render(): ReactNode {
+        return (
+            <React.Fragment>
+                {this.props.transaction.memo && (
+                    <React.Fragment>
+                        <div className="card--label">
+                            Memo
+                        </div>
+                        <div className="card--value margin-b-s break">
+                            {this.props.transaction.memo}
+                        </div>
+                    </React.Fragment>
+                )}
+                <div className="card--label">
+                    Inputs
+                </div>
+                <table className="margin-b-s">
+                    <thead>
+                        <tr>
+                            <th>Address</th>
+                            <th>Index</th>
+                            <th>Output</th>
+                            <th>Amounts</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {this.props.transaction.inputs.map(input => (
+                            <tr key={input.transactionId}>
+                                <td className="break">{input.address}</td>
+                                <td>{input.addressIndex}</td>
+                                <td className="break">{input.transactionId}</td>
+                                <td>{this.renderAmounts(input.balances)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+                <div className="card--label">
+                    Outputs
+                </div>
+                <table>
+                    <thead>
+                        <tr>
+                            <th>Address</th>
+                            <th>Amounts</th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {this.props.transaction.outputs.map(output => (
+                            <tr key={output.address}>
+                                <td className="break">
+                                    {output.address}
+                                    {this.props.isRemainderVerified &&
+                                        output.address === this.props.transaction.remainderAddress && (
+                                        <span className="warning"> (remainder)</span>
+                                    )}
+                                </td>
+                                <td>{this.renderAmounts(output.balances)}</td>
+                            </tr>
+                        ))}
+                    </tbody>
+                </table>
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * Render a list of amounts.
+     * @param amounts The amounts to render.
+     * @returns The node to render.
+     */
+    private renderAmounts(amounts: IWalletTransactionAmount[]): ReactNode {
+        return amounts.map((amount, idx) => (
+            <div key={idx}>
+                {amount.value} {this.assetName(amount.color)}
+            </div>
+        ));
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        if (color === Colors.IOTA_NAME) {
+            return Colors.IOTA_NAME;
+        }
+        if (color === Colors.NEW) {
+            return "(new asset)";
+        }
+        const asset = this.props.assets.find(a => a.color === color);
+        return asset ? asset.name : color;
+    }
+}
+
+export default TransactionSummary;
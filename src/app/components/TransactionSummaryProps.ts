@@ -0,0 +1,19 @@
+import { IUnsignedTransaction } from "../../models/IUnsignedTransaction";
+import { IWalletAsset } from "../../models/IWalletAsset";
+
+export interface TransactionSummaryProps {
+    /**
+     * The transaction to summarise.
+     */
+    transaction: IUnsignedTransaction;
+
+    /**
+     * The assets in the wallet.
+     */
+    assets: IWalletAsset[];
+
+    /**
+     * Has the remainder address been checked to belong to the wallet, it is only labelled if so.
+     */
+    isRemainderVerified: boolean;
+}
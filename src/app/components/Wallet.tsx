@@ -2,8 +2,24 @@ import classNames from "classnames";
 import React, { Component, ReactNode } from "react";
 import { ServiceFactory } from "../../factories/serviceFactory";
 import { ClipboardHelper } from "../../helpers/clipboardHelper";
+import { FileHelper } from "../../helpers/fileHelper";
+import { WatchAddressHelper } from "../../helpers/watchAddressHelper";
+import { Address } from "../../iota/address";
+import { Colors } from "../../iota/colors";
+import { Base58 } from "../../iota/crypto/base58";
+import { Seed } from "../../iota/seed";
 import { IWalletAsset } from "../../models/IWalletAsset";
+import { IWatchAddress } from "../../models/IWatchAddress";
+import { IAddressBookService } from "../../models/services/IAddressBookService";
 import { IWalletService } from "../../models/services/IWalletService";
+import AddressBook from "./AddressBook";
+import AddressDetail from "./AddressDetail";
+import BatchSend from "./BatchSend";
+import ConfirmTransaction from "./ConfirmTransaction";
+import Consolidate from "./Consolidate";
+import History from "./History";
+import OfflineSigning from "./OfflineSigning";
+import SignMessage from "./SignMessage";
 import Spinner from "./Spinner";
 import { WalletProps } from "./WalletProps";
 import { WalletState } from "./WalletState";
@@ -12,16 +28,31 @@ import { WalletState } from "./WalletState";
  * Component which will display wallet.
  */
 class Wallet extends Component<WalletProps, WalletState> {
+    /**
+     * The minimum length for a wallet password.
+     */
+    private static readonly MIN_PASSWORD_LENGTH: number = 8;
+
     /**
      * Wallet service.
      */
     private readonly _walletService: IWalletService;
 
+    /**
+     * Address book service.
+     */
+    private readonly _addressBookService: IAddressBookService;
+
     /**
      * Subscription id for wallet updates.
      */
     private _subscriptionId?: string;
 
+    /**
+     * The file input for importing addresses to watch.
+     */
+    private readonly _watchFileInput: React.RefObject<HTMLInputElement>;
+
     /**
      * Create a new instance of Wallet.
      * @param props The props.
@@ -30,17 +61,31 @@ class Wallet extends Component<WalletProps, WalletState> {
         super(props);
 
         this._walletService = ServiceFactory.get<IWalletService>("wallet");
+        this._addressBookService = ServiceFactory.get<IAddressBookService>("address-book");
+        this._watchFileInput = React.createRef();
 
         this.state = {
             isBusy: true,
+            isLocked: false,
             justCreated: false,
+            password: "",
+            passwordConfirm: "",
             isBusyFaucet: false,
             isBusyNewAsset: false,
             isBusySendFunds: false,
+            isBusyDraft: false,
+            isBatchSend: false,
+            isOfflineSigning: false,
+            isSignMessage: false,
+            isAddressBook: false,
+            addressBook: [],
+            isWatchOnly: false,
             faucetIsError: false,
             errorNewAsset: "",
             sendFundsAmount: "100",
-            newAssetAmount: "100"
+            sendFundsMemo: "",
+            newAssetAmount: "100",
+            notifications: []
         };
     }
 
@@ -49,21 +94,51 @@ class Wallet extends Component<WalletProps, WalletState> {
      */
     public async componentDidMount(): Promise<void> {
         const wallet = await this._walletService.get();
+        const addressBook = await this._addressBookService.getAll();
         this.setState(
             {
                 wallet,
+                addressBook,
                 isBusy: false,
+                isLocked: this._walletService.isLocked(),
+                isWatchOnly: this._walletService.isWatchOnly(),
                 balances: this._walletService.getWalletBalances(),
                 addresses: this._walletService.getWalletAddresses(),
                 receiveAddress: this._walletService.getReceiveAddress()
             },
             () => {
-                this._subscriptionId = this._walletService.subscribe(() => {
+                this._subscriptionId = this._walletService.subscribe(event => {
+                    if (event && event.type === "draft-expired" && event.draftId === this.state.draft?.id) {
+                        this.setState({
+                            draft: undefined,
+                            errorDraft: undefined,
+                            errorSendFunds: "The inputs of the transaction were spent, review the transaction again",
+                            errorNewAsset: ""
+                        });
+                    }
+                    if (event && event.type === "transaction-status" && event.transactionId) {
+                        this.setState({
+                            notifications: [
+                                `Transaction ${event.transactionId} is now ${event.status}`,
+                                ...this.state.notifications
+                            ].slice(0, 5)
+                        });
+                    }
+                    const isLocked = this._walletService.isLocked();
                     this.setState({
+                        isLocked,
                         balances: this._walletService.getWalletBalances(),
                         addresses: this._walletService.getWalletAddresses(),
                         receiveAddress: this._walletService.getReceiveAddress()
                     });
+                    if (isLocked) {
+                        // the service has wiped the seed so the copy shown after creation goes too
+                        this.setState({
+                            justCreated: false,
+                            seed: undefined,
+                            seedMnemonic: undefined
+                        });
+                    }
                 });
             });
     }
@@ -88,56 +163,365 @@ class Wallet extends Component<WalletProps, WalletState> {
                 {this.state.isBusy && (
                     <Spinner />
                 )}
-                {(!this.state.wallet || !this.state.wallet.seed) && (
+                {!this.state.wallet && (
                     <div className="card">
                         <div className="card--header">
                             <h2>Wallet</h2>
                         </div>
                         <div className="card--content">
                             <p className="margin-b-s">You do not currently have a wallet.</p>
+                            {this.state.watchAddresses === undefined && (
+                                <React.Fragment>
+                                    <p className="margin-b-s">
+                                        Choose a password of at least {Wallet.MIN_PASSWORD_LENGTH} characters,
+                                        it will be used to encrypt your seed.
+                                    </p>
+                                    <div className="card--label">
+                                        Password
+                                    </div>
+                                    <div className="card--value margin-b-s">
+                                        <input
+                                            className="fill"
+                                            type="password"
+                                            disabled={this.state.isBusy}
+                                            value={this.state.password}
+                                            onChange={e => this.setState({
+                                                password: e.target.value
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="card--label">
+                                        Confirm Password
+                                    </div>
+                                    <div className="card--value margin-b-s">
+                                        <input
+                                            className="fill"
+                                            type="password"
+                                            disabled={this.state.isBusy}
+                                            value={this.state.passwordConfirm}
+                                            onChange={e => this.setState({
+                                                passwordConfirm: e.target.value
+                                            })}
+                                        />
+                                    </div>
+                                </React.Fragment>
+                            )}
+                            {this.state.restoreSeed === undefined && this.state.watchAddresses === undefined && (
+                                <div className="row">
+                                    <button
+                                        className="margin-r-s"
+                                        disabled={this.state.isBusy ||
+                                            this.state.password.length < Wallet.MIN_PASSWORD_LENGTH ||
+                                            this.state.password !== this.state.passwordConfirm}
+                                        onClick={() => this.createWallet()}
+                                    >
+                                        Create New Wallet
+                                    </button>
+                                    <button
+                                        className="button--secondary"
+                                        disabled={this.state.isBusy}
+                                        onClick={() => this.setState({
+                                            restoreSeed: "",
+                                            errorRestore: undefined
+                                        })}
+                                    >
+                                        Restore Wallet
+                                    </button>
+                                    <button
+                                        className="button--secondary margin-l-s"
+                                        disabled={this.state.isBusy}
+                                        onClick={() => this.setState({
+                                            watchAddresses: "",
+                                            errorWatch: undefined
+                                        })}
+                                    >
+                                        Watch Addresses
+                                    </button>
+                                </div>
+                            )}
+                            {this.state.watchAddresses !== undefined && (
+                                <React.Fragment>
+                                    <p className="margin-b-s">
+                                        A watch-only wallet tracks the balances of addresses without a seed, enter
+                                        one address per line or import the addresses exported from a wallet.
+                                    </p>
+                                    <div className="card--label">
+                                        Addresses
+                                    </div>
+                                    <div className="card--value margin-b-s">
+                                        <textarea
+                                            className="fill"
+                                            rows={6}
+                                            disabled={this.state.isBusy}
+                                            value={this.state.watchAddresses}
+                                            onChange={e => this.setState({
+                                                watchAddresses: e.target.value,
+                                                errorWatch: undefined
+                                            })}
+                                        />
+                                    </div>
+                                    <input
+                                        ref={this._watchFileInput}
+                                        type="file"
+                                        accept=".json,.txt"
+                                        hidden={true}
+                                        onChange={e => this.importWatchAddresses(e.target.files)}
+                                    />
+                                    <div className="row">
+                                        <button
+                                            className="margin-r-s"
+                                            disabled={this.state.isBusy ||
+                                                this.state.watchAddresses.trim().length === 0}
+                                            onClick={() => this.watchWallet()}
+                                        >
+                                            Watch
+                                        </button>
+                                        <button
+                                            className="margin-r-s"
+                                            disabled={this.state.isBusy}
+                                            onClick={() => this._watchFileInput.current?.click()}
+                                        >
+                                            Import File
+                                        </button>
+                                        <button
+                                            className="button--secondary"
+                                            disabled={this.state.isBusy}
+                                            onClick={() => this.setState({
+                                                watchAddresses: undefined,
+                                                errorWatch: undefined
+                                            })}
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                    {this.state.errorWatch && (
+                                        <p className="margin-t-s danger">{this.state.errorWatch}</p>
+                                    )}
+                                </React.Fragment>
+                            )}
+                            {this.state.restoreSeed !== undefined && (
+                                <React.Fragment>
+                                    <div className="card--label">
+                                        Seed or {Seed.MNEMONIC_WORD_COUNT} Word Mnemonic
+                                    </div>
+                                    <div className="card--value margin-b-s">
+                                        <input
+                                            className="fill"
+                                            type="text"
+                                            disabled={this.state.isBusy}
+                                            value={this.state.restoreSeed}
+                                            onChange={e => this.setState({
+                                                restoreSeed: e.target.value,
+                                                errorRestore: undefined
+                                            })}
+                                        />
+                                    </div>
+                                    <div className="row">
+                                        <button
+                                            className="margin-r-s"
+                                            disabled={this.state.isBusy ||
+                                                this.state.restoreSeed.trim().length === 0 ||
+                                                this.state.password.length < Wallet.MIN_PASSWORD_LENGTH ||
+                                                this.state.password !== this.state.passwordConfirm}
+                                            onClick={() => this.restoreWallet()}
+                                        >
+                                            Restore
+                                        </button>
+                                        <button
+                                            className="button--secondary"
+                                            disabled={this.state.isBusy}
+                                            onClick={() => this.setState({
+                                                restoreSeed: undefined,
+                                                errorRestore: undefined
+                                            })}
+                                        >
+                                            Cancel
+                                        </button>
+                                    </div>
+                                    {this.state.restoreProgress && (
+                                        <div className="row middle margin-t-s">
+                                            <Spinner className="margin-r-t" />
+                                            <p>{this.state.restoreProgress}</p>
+                                        </div>
+                                    )}
+                                    {this.state.errorRestore && (
+                                        <p className="margin-t-s danger">{this.state.errorRestore}</p>
+                                    )}
+                                </React.Fragment>
+                            )}
+                        </div>
+                    </div>
+                )}
+                {this.state.wallet && this.state.isLocked && (
+                    <div className="card">
+                        <div className="card--header">
+                            <h2>Unlock Wallet</h2>
+                        </div>
+                        <div className="card--content">
+                            {this.state.wallet.seed ? (
+                                <p className="margin-b-s">
+                                    Your seed is not protected by a password, choose a password of at
+                                    least {Wallet.MIN_PASSWORD_LENGTH} characters to encrypt it.
+                                </p>
+                            ) : (
+                                <p className="margin-b-s">Enter your password to unlock the wallet.</p>
+                            )}
+                            <div className="card--label">
+                                Password
+                            </div>
+                            <div className="card--value margin-b-s">
+                                <input
+                                    className="fill"
+                                    type="password"
+                                    disabled={this.state.isBusy}
+                                    value={this.state.password}
+                                    onChange={e => this.setState({
+                                        password: e.target.value
+                                    })}
+                                    onKeyDown={e => {
+                                        if (e.key === "Enter" && this.state.password.length > 0) {
+                                            this.unlockWallet();
+                                        }
+                                    }}
+                                />
+                            </div>
                             <button
-                                className="margin-b-s"
-                                disabled={this.state.isBusy}
-                                onClick={() => this.createWallet()}
+                                disabled={this.state.isBusy ||
+                                    this.state.password.length === 0 ||
+                                    (this.state.wallet.seed !== undefined &&
+                                        this.state.password.length < Wallet.MIN_PASSWORD_LENGTH)}
+                                onClick={() => this.unlockWallet()}
                             >
-                                Create New Wallet
+                                Unlock
                             </button>
+                            {this.state.errorPassword && (
+                                <p className="margin-t-s danger">{this.state.errorPassword}</p>
+                            )}
                         </div>
                     </div>
                 )}
-                {this.state.wallet && this.state.wallet.seed && this.state.justCreated && (
+                {this.state.wallet && !this.state.isLocked && this.state.justCreated && (
                     <div className="card">
                         <div className="card--header">
                             <h2>Created</h2>
                         </div>
                         <div className="card--content">
                             <p className="margin-b-s">
-                                Your new wallet has been created, please copy the seed for future use.
+                                Your new wallet has been created, please write down the mnemonic words in
+                                order or copy the seed for future use, either can be used to restore the wallet.
                             </p>
                             <React.Fragment>
+                                <div className="card--label">
+                                    Mnemonic
+                                </div>
+                                <div className="card--value card--value-textarea margin-b-s">
+                                    {this.state.seedMnemonic?.split(" ").map((word, idx) => (
+                                        <span key={idx} className="margin-r-t">
+                                            {idx + 1}. {word}
+                                        </span>
+                                    ))}
+                                </div>
                                 <div className="card--label">
                                     Seed
                                 </div>
                                 <div className="card--value margin-b-s">
-                                    {this.state.wallet.seed}
+                                    {this.state.seed}
                                 </div>
                             </React.Fragment>
                             <button
                                 className="margin-t-s"
-                                onClick={() => this.setState({ justCreated: false })}
+                                onClick={() => this.setState({
+                                    justCreated: false,
+                                    seed: undefined,
+                                    seedMnemonic: undefined
+                                })}
                             >
                                 OK
                             </button>
                         </div>
                     </div>
                 )}
-                {this.state.wallet && this.state.wallet.seed && !this.state.justCreated && (
+                {this.state.wallet && !this.state.isLocked && !this.state.justCreated && (
                     <React.Fragment>
+                        {this.state.notifications.length > 0 && (
+                            <div className="card margin-b-s">
+                                <div className="card--header row space-between">
+                                    <h2>Notifications</h2>
+                                    <button
+                                        onClick={() => this.setState({ notifications: [] })}
+                                    >
+                                        Dismiss
+                                    </button>
+                                </div>
+                                <div className="card--content">
+                                    {this.state.notifications.map((notification, idx) => (
+                                        <p key={idx} className="break">{notification}</p>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+                        {this.state.isBatchSend && this.state.balances && (
+                            <BatchSend
+                                balances={this.state.balances}
+                                assets={this.state.wallet.assets}
+                                onClose={() => this.setState({ isBatchSend: false })}
+                            />
+                        )}
+                        {this.state.isAddressBook && (
+                            <AddressBook
+                                assets={this.state.wallet.assets}
+                                onUpdated={async () => this.setState({
+                                    addressBook: await this._addressBookService.getAll()
+                                })}
+                                onClose={() => this.setState({ isAddressBook: false })}
+                            />
+                        )}
+                        {this.state.isOfflineSigning && this.state.balances && (
+                            <OfflineSigning
+                                balances={this.state.balances}
+                                assets={this.state.wallet.assets}
+                                onClose={() => this.setState({ isOfflineSigning: false })}
+                            />
+                        )}
                         <div className="card margin-b-s">
-                            <div className="card--header">
+                            <div className="card--header row space-between">
                                 <h2>Balances</h2>
+                                {!this.state.isBatchSend && !this.state.isOfflineSigning &&
+                                    this.state.sendFundsAddress === undefined && (
+                                        <div className="row">
+                                            {!this.state.isAddressBook && (
+                                                <button
+                                                    className="margin-r-t"
+                                                    onClick={() => this.setState({ isAddressBook: true })}
+                                                >
+                                                    Address Book
+                                                </button>
+                                            )}
+                                            <button
+                                                className="margin-r-t"
+                                                disabled={!this.state.balances}
+                                                onClick={() => this.setState({ isOfflineSigning: true })}
+                                            >
+                                                Offline Signing
+                                            </button>
+                                            <button
+                                                disabled={this.state.isWatchOnly ||
+                                                    !this.state.balances ||
+                                                    !this.state.balances.some(b => b.confirmed > 0)}
+                                                onClick={() => this.setState({ isBatchSend: true })}
+                                            >
+                                                Batch Send
+                                            </button>
+                                        </div>
+                                    )}
                             </div>
                             <div className="card--content">
+                                {this.state.isWatchOnly && (
+                                    <p className="margin-b-s warning">
+                                        This wallet is watch-only, use Offline Signing to build transactions
+                                        which can be signed by the wallet holding the seed.
+                                    </p>
+                                )}
                                 {this.state.sendFundsAddress !== undefined &&
                                     this.state.sendFundsColor !== undefined && (
                                         <React.Fragment>
@@ -148,31 +532,95 @@ class Wallet extends Component<WalletProps, WalletState> {
                                                 <input
                                                     className="fill"
                                                     type="text"
+                                                    list="address-book"
+                                                    placeholder="Address, or search the address book"
                                                     disabled={this.state.isBusySendFunds}
                                                     value={this.state.sendFundsAddress}
+                                                    onChange={e => this.changeSendFundsAddress(e.target.value)}
+                                                />
+                                                <datalist id="address-book">
+                                                    {this.state.addressBook.map(entry => (
+                                                        <option key={entry.id} value={entry.address}>
+                                                            {entry.name}{entry.note ? ` - ${entry.note}` : ""}
+                                                        </option>
+                                                    ))}
+                                                    {this.state.addresses?.filter(a => a.label).map(address => (
+                                                        <option key={address.address} value={address.address}>
+                                                            {address.label} (own address)
+                                                        </option>
+                                                    ))}
+                                                </datalist>
+                                            </div>
+                                            {this.renderRecipient(this.state.sendFundsAddress.trim())}
+                                            <div className="card--label">
+                                                Asset
+                                            </div>
+                                            <div className="card--value margin-b-s">
+                                                {this.assetName(this.state.sendFundsColor)}
+                                            </div>
+                                            <div className="card--label">
+                                                Amount
+                                            </div>
+                                            <div className="card--value row middle margin-b-s">
+                                                <input
+                                                    className="fill margin-r-t"
+                                                    type="text"
+                                                    disabled={this.state.isBusySendFunds}
+                                                    value={this.state.sendFundsAmount}
                                                     onChange={e => this.setState({
-                                                        sendFundsAddress: e.target.value
+                                                        sendFundsAmount: e.target.value,
+                                                        sendFundsMax: undefined
                                                     })}
                                                 />
+                                                <button
+                                                    className="button--secondary"
+                                                    disabled={this.state.isBusySendFunds}
+                                                    onClick={() => this.sendFundsMax()}
+                                                >
+                                                    Max
+                                                </button>
                                             </div>
                                             <div className="card--label">
-                                                Amount
+                                                Memo (optional)
                                             </div>
                                             <div className="card--value margin-b-s">
                                                 <input
                                                     className="fill"
                                                     type="text"
                                                     disabled={this.state.isBusySendFunds}
-                                                    value={this.state.sendFundsAmount}
+                                                    value={this.state.sendFundsMemo}
                                                     onChange={e => this.setState({
-                                                        sendFundsAmount: e.target.value
+                                                        sendFundsMemo: e.target.value
                                                     })}
                                                 />
                                             </div>
+                                            {this.state.sendFundsMax &&
+                                                Object.keys(this.state.sendFundsMax.remainder).length > 0 && (
+                                                <div className="margin-b-s warning">
+                                                    Sending the maximum spends whole outputs, these other
+                                                    assets will move to your remainder address:
+                                                    {Object.keys(this.state.sendFundsMax.remainder).map(color => (
+                                                        <div key={color}>
+                                                            {this.state.sendFundsMax?.remainder[color].toString()}
+                                                            {" "}
+                                                            {this.assetName(color)}
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                            )}
+                                            {this.state.sendFundsMax && this.state.sendFundsMax.pending > 0 && (
+                                                <div className="margin-b-s warning">
+                                                    {this.state.sendFundsMax.pending.toString()}
+                                                    {" "}
+                                                    {this.assetName(this.state.sendFundsColor)} is not included as
+                                                    it is on addresses which are still receiving unconfirmed outputs,
+                                                    it can be sent once they confirm.
+                                                </div>
+                                            )}
                                             <div className="row">
                                                 <button
                                                     className="margin-r-s"
-                                                    disabled={this.state.sendFundsAddress.trimEnd().length === 0 ||
+                                                    disabled={!Address.isValid(this.state.sendFundsAddress.trim()) ||
                                                         this.state.sendFundsColor.trimEnd().length === 0 ||
                                                         !Number.isFinite(parseInt(this.state.sendFundsAmount, 10)) ||
                                                         parseInt(this.state.sendFundsAmount, 10) <= 0 ||
@@ -186,7 +634,8 @@ class Wallet extends Component<WalletProps, WalletState> {
                                                     disabled={this.state.isBusySendFunds}
                                                     onClick={() => this.setState({
                                                         sendFundsColor: undefined,
-                                                        sendFundsAddress: undefined
+                                                        sendFundsAddress: undefined,
+                                                        sendFundsMax: undefined
                                                     })}
                                                 >
                                                     Cancel
@@ -235,11 +684,14 @@ class Wallet extends Component<WalletProps, WalletState> {
                                                             </td>
                                                             <td>
                                                                 <button
-                                                                    disabled={balance.confirmed <= 0}
+                                                                    disabled={this.state.isWatchOnly ||
+                                                                        balance.confirmed <= 0}
                                                                     onClick={() => this.setState({
                                                                         sendFundsAddress: "",
                                                                         sendFundsColor: balance.asset.color,
                                                                         sendFundsAmount: balance.confirmed.toString(),
+                                                                        sendFundsMax: undefined,
+                                                                        sendFundsMemo: "",
                                                                         errorSendFunds: ""
                                                                     })}
                                                                 >
@@ -254,17 +706,66 @@ class Wallet extends Component<WalletProps, WalletState> {
                             </div>
                         </div>
 
+                        {this.state.detailAddress && (
+                            <AddressDetail
+                                key={this.state.detailAddress}
+                                address={this.state.detailAddress}
+                                assets={this.state.wallet.assets}
+                                onClose={() => this.setState({ detailAddress: undefined })}
+                            />
+                        )}
+                        {this.state.isSignMessage && this.state.addresses && (
+                            <SignMessage
+                                addresses={this.state.addresses}
+                                isWatchOnly={this.state.isWatchOnly}
+                                onClose={() => this.setState({ isSignMessage: false })}
+                            />
+                        )}
                         <div className="card margin-b-s">
                             <div className="card--header row space-between">
                                 <h2>Addresses</h2>
                                 {this.state.newAssetName === undefined && (
-                                    <button
-                                        onClick={() => this.copyReceiveAddress()}>
-                                        Copy Receive Address
-                                    </button>
+                                    <div className="row">
+                                        {!this.state.isSignMessage && (
+                                            <button
+                                                className="margin-r-t"
+                                                disabled={!this.state.addresses}
+                                                onClick={() => this.setState({ isSignMessage: true })}
+                                            >
+                                                Sign Message
+                                            </button>
+                                        )}
+                                        {!this.state.isWatchOnly && (
+                                            <button
+                                                className="margin-r-t"
+                                                onClick={() => this.exportWatchAddresses()}
+                                            >
+                                                Export Watch Addresses
+                                            </button>
+                                        )}
+                                        <button
+                                            onClick={() => this.copyReceiveAddress()}>
+                                            Copy Receive Address
+                                        </button>
+                                    </div>
                                 )}
                             </div>
                             <div className="card--content">
+                                {this.state.receiveAddress && (
+                                    <React.Fragment>
+                                        <div className="card--label">
+                                            Receive Address
+                                        </div>
+                                        <div className="card--value margin-b-s break">
+                                            {this.state.receiveAddress}
+                                            {this.addressLabel(this.state.receiveAddress) && (
+                                                <span className="success">
+                                                    {" "}({this.addressLabel(this.state.receiveAddress)})
+                                                </span>
+                                            )}
+                                        </div>
+                                    </React.Fragment>
+                                )}
                                 {(!this.state.addresses || this.state.addresses.length === 0) && (
                                     <p>There are no addresses in the wallet.</p>
                                 )}
@@ -274,8 +775,10 @@ class Wallet extends Component<WalletProps, WalletState> {
                                             <tr>
                                                 <th>Index</th>
                                                 <th>Address</th>
+                                                <th>Label</th>
                                                 <th>Is Spent</th>
                                                 <th>Is Receive</th>
+                                                <th>&nbsp;</th>
                                             </tr>
                                         </thead>
                                         <tbody>
@@ -283,9 +786,20 @@ class Wallet extends Component<WalletProps, WalletState> {
                                                 <tr key={idx}>
                                                     <td>{address.index.toString()}</td>
                                                     <td className="break">{address.address}</td>
+                                                    <td>{address.label ?? "-"}</td>
                                                     <td>{address.isSpent ? "Yes" : "No"}</td>
                                                     <td>{address.address === this.state.receiveAddress
                                                         ? "Yes" : "No"}</td>
+                                                    <td>
+                                                        <button
+                                                            disabled={this.state.detailAddress === address.address}
+                                                            onClick={() => this.setState({
+                                                                detailAddress: address.address
+                                                            })}
+                                                        >
+                                                            Details
+                                                        </button>
+                                                    </td>
                                                 </tr>
                                             ))}
                                         </tbody>
@@ -297,7 +811,7 @@ class Wallet extends Component<WalletProps, WalletState> {
                         <div className="card margin-b-s">
                             <div className="card--header row space-between">
                                 <h2>Assets</h2>
-                                {this.state.newAssetName === undefined && (
+                                {this.state.newAssetName === undefined && !this.state.isWatchOnly && (
                                     <button
                                         onClick={() => this.setState({
                                             newAssetName: "",
@@ -448,6 +962,10 @@ class Wallet extends Component<WalletProps, WalletState> {
                             </div>
                         </div>
 
+                        {!this.state.isWatchOnly && this.state.balances && (
+                            <Consolidate balances={this.state.balances} />
+                        )}
+
                         <div className="card margin-b-s">
                             <div className="card--header">
                                 <h2>Faucet</h2>
@@ -475,6 +993,18 @@ class Wallet extends Component<WalletProps, WalletState> {
                                 </div>
                             </div>
                         </div>
+
+                        <History assets={this.state.wallet.assets} />
+                        {this.state.draft && (
+                            <ConfirmTransaction
+                                draft={this.state.draft}
+                                assets={this.state.wallet.assets}
+                                isBusy={this.state.isBusyDraft}
+                                error={this.state.errorDraft}
+                                onConfirm={() => this.confirmDraft()}
+                                onCancel={() => this.discardDraft()}
+                            />
+                        )}
                     </React.Fragment>
                 )
                 }
@@ -488,19 +1018,168 @@ class Wallet extends Component<WalletProps, WalletState> {
      */
     private createWallet(seed?: string): void {
         this.setState(
-            { isBusy: true },
+            {
+                isBusy: true,
+                errorRestore: undefined,
+                restoreProgress: seed ? "Scanning the ledger for used addresses..." : undefined
+            },
             async () => {
-                const wallet = await this._walletService.create(seed);
-                this.setState(
-                    {
+                try {
+                    const wallet = await this._walletService.create(
+                        this.state.password,
+                        seed,
+                        progress => this.setState({
+                            restoreProgress:
+                                `Scanned ${progress.scannedCount} addresses, ${progress.usedCount} with funds...`
+                        }));
+                    const newSeed = seed ? undefined : this._walletService.getSeed();
+                    this.setState(
+                        {
+                            wallet,
+                            isBusy: false,
+                            isLocked: false,
+                            justCreated: newSeed !== undefined,
+                            seed: newSeed,
+                            seedMnemonic: newSeed ? Seed.toMnemonic(Base58.decode(newSeed)) : undefined,
+                            password: "",
+                            passwordConfirm: "",
+                            restoreSeed: undefined,
+                            restoreProgress: undefined,
+                            balances: this._walletService.getWalletBalances(),
+                            addresses: this._walletService.getWalletAddresses(),
+                            receiveAddress: this._walletService.getReceiveAddress()
+                        });
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        restoreProgress: undefined,
+                        errorRestore: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Restore a wallet from a Base58 seed or a mnemonic.
+     */
+    private restoreWallet(): void {
+        const restoreSeed = (this.state.restoreSeed ?? "").trim();
+
+        if (Seed.isValid(restoreSeed)) {
+            this.createWallet(restoreSeed);
+        } else if (restoreSeed.split(/\s+/).length > 1) {
+            try {
+                this.createWallet(Base58.encode(Seed.fromMnemonic(restoreSeed)));
+            } catch (err) {
+                this.setState({ errorRestore: err.message });
+            }
+        } else {
+            const wordCount = Seed.MNEMONIC_WORD_COUNT;
+            this.setState({
+                errorRestore: `The seed must be a Base58 encoded ${Seed.SEED_SIZE} byte value or ${wordCount} words`
+            });
+        }
+    }
+
+    /**
+     * Create a watch-only wallet from the entered addresses.
+     */
+    private watchWallet(): void {
+        let addresses: IWatchAddress[];
+        try {
+            addresses = WatchAddressHelper.parse(this.state.watchAddresses ?? "");
+        } catch (err) {
+            this.setState({ errorWatch: err.message });
+            return;
+        }
+
+        this.setState(
+            {
+                isBusy: true,
+                errorWatch: undefined
+            },
+            async () => {
+                try {
+                    const wallet = await this._walletService.createWatchOnly(addresses);
+                    this.setState({
                         wallet,
                         isBusy: false,
-                        justCreated: true,
+                        isLocked: false,
+                        isWatchOnly: true,
+                        watchAddresses: undefined,
                         balances: this._walletService.getWalletBalances(),
                         addresses: this._walletService.getWalletAddresses(),
                         receiveAddress: this._walletService.getReceiveAddress()
                     });
-                this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        errorWatch: err.message
+                    });
+                }
+            });
+    }
+
+    /**
+     * Load the addresses to watch from a file.
+     * @param files The files selected.
+     */
+    private async importWatchAddresses(files: FileList | null): Promise<void> {
+        if (!files || files.length === 0) {
+            return;
+        }
+
+        const content = await files[0].text();
+        if (this._watchFileInput.current) {
+            this._watchFileInput.current.value = "";
+        }
+
+        this.setState({
+            watchAddresses: content,
+            errorWatch: undefined
+        });
+    }
+
+    /**
+     * Export the wallet addresses so they can be watched elsewhere.
+     */
+    private exportWatchAddresses(): void {
+        FileHelper.save(
+            "watch-addresses.json",
+            JSON.stringify(this._walletService.exportWatchAddresses(), undefined, "\t")
+        );
+    }
+
+    /**
+     * Unlock the wallet with the password.
+     */
+    private unlockWallet(): void {
+        this.setState(
+            {
+                isBusy: true,
+                errorPassword: undefined
+            },
+            async () => {
+                try {
+                    await this._walletService.unlock(this.state.password);
+                    this.setState(
+                        {
+                            wallet: await this._walletService.get(),
+                            isBusy: false,
+                            isLocked: false,
+                            password: "",
+                            balances: this._walletService.getWalletBalances(),
+                            addresses: this._walletService.getWalletAddresses(),
+                            receiveAddress: this._walletService.getReceiveAddress()
+                        });
+                    this.props.onUpdated();
+                } catch (err) {
+                    this.setState({
+                        isBusy: false,
+                        errorPassword: err.message
+                    });
+                }
             });
     }
 
@@ -549,21 +1228,34 @@ class Wallet extends Component<WalletProps, WalletState> {
                                 this.state.newAssetColor,
                                 this.state.newAssetName,
                                 this.state.newAssetSymbol);
+                            this.setState({
+                                isBusyNewAsset: false,
+                                newAssetAmount: "100",
+                                newAssetName: undefined,
+                                newAssetSymbol: undefined,
+                                newAssetColor: undefined
+                            });
                         } else {
-                            await this._walletService.createAsset(
-                                this.state.newAssetName,
-                                this.state.newAssetSymbol,
-                                BigInt(parseInt(this.state.newAssetAmount, 10))
-                            );
-                        }
+                            const receiveAddress = this._walletService.getReceiveAddress();
+                            if (!receiveAddress) {
+                                throw new Error("There is no address to receive the new asset");
+                            }
 
-                        this.setState({
-                            isBusyNewAsset: false,
-                            newAssetAmount: "100",
-                            newAssetName: undefined,
-                            newAssetSymbol: undefined,
-                            newAssetColor: undefined
-                        });
+                            // the asset is named once the draft is confirmed and its color is known
+                            const draft = await this._walletService.createDraft({
+                                destinations: {
+                                    [receiveAddress]: {
+                                        [Colors.NEW]: BigInt(parseInt(this.state.newAssetAmount, 10))
+                                    }
+                                }
+                            });
+
+                            this.setState({
+                                isBusyNewAsset: false,
+                                draft,
+                                errorDraft: undefined
+                            });
+                        }
                     } catch (err) {
                         this.setState({
                             errorNewAsset: err.message,
@@ -614,17 +1306,21 @@ class Wallet extends Component<WalletProps, WalletState> {
             async () => {
                 if (this.state.sendFundsAddress && this.state.sendFundsColor) {
                     try {
-                        await this._walletService.sendFunds(
-                            this.state.sendFundsAddress,
-                            this.state.sendFundsColor,
-                            BigInt(parseInt(this.state.sendFundsAmount, 10))
-                        );
+                        const draft = await this._walletService.createDraft({
+                            destinations: {
+                                [this.state.sendFundsAddress]: {
+                                    [this.state.sendFundsColor]: BigInt(parseInt(this.state.sendFundsAmount, 10))
+                                }
+                            },
+                            sendMax: this.state.sendFundsMax !== undefined,
+                            memo: this.state.sendFundsMemo.trim().length > 0
+                                ? this.state.sendFundsMemo.trim() : undefined
+                        });
 
                         this.setState({
                             isBusySendFunds: false,
-                            sendFundsAmount: "100",
-                            sendFundsAddress: undefined,
-                            sendFundsColor: undefined
+                            draft,
+                            errorDraft: undefined
                         });
                     } catch (err) {
                         this.setState({
@@ -637,6 +1333,161 @@ class Wallet extends Component<WalletProps, WalletState> {
         );
     }
 
+    /**
+     * Sign and send the draft transaction.
+     */
+    private confirmDraft(): void {
+        this.setState(
+            {
+                isBusyDraft: true,
+                errorDraft: undefined
+            },
+            async () => {
+                if (this.state.draft) {
+                    try {
+                        const txId = await this._walletService.confirmDraft(this.state.draft.id);
+
+                        if (txId && this.state.draft.minted.length > 0 &&
+                            this.state.newAssetName && this.state.newAssetSymbol) {
+                            await this._walletService.updateAsset(
+                                txId,
+                                this.state.newAssetName,
+                                this.state.newAssetSymbol);
+                        }
+
+                        this.setState({
+                            isBusyDraft: false,
+                            draft: undefined,
+                            sendFundsAmount: "100",
+                            sendFundsAddress: undefined,
+                            sendFundsColor: undefined,
+                            sendFundsMax: undefined,
+                            sendFundsMemo: "",
+                            newAssetAmount: "100",
+                            newAssetName: undefined,
+                            newAssetSymbol: undefined,
+                            newAssetColor: undefined
+                        });
+                    } catch (err) {
+                        this.setState({
+                            isBusyDraft: false,
+                            errorDraft: err.message
+                        });
+                    }
+                }
+            }
+        );
+    }
+
+    /**
+     * Discard the draft transaction so the form can be changed.
+     */
+    private discardDraft(): void {
+        if (this.state.draft) {
+            this._walletService.discardDraft(this.state.draft.id);
+        }
+        this.setState({
+            draft: undefined,
+            errorDraft: undefined
+        });
+    }
+
+    /**
+     * Render the details and warnings for the recipient of the send form.
+     * @param address The address being sent to.
+     * @returns The node to render.
+     */
+    private renderRecipient(address: string): ReactNode {
+        if (address.length === 0) {
+            return null;
+        }
+        if (!Address.isValid(address)) {
+            return (
+                <p className="margin-b-s danger">The address is not valid.</p>
+            );
+        }
+
+        const entry = this.state.addressBook.find(e => e.address === address);
+        const isOwn = this.state.addresses?.some(a => a.address === address);
+
+        return (
+            <React.Fragment>
+                {entry && (
+                    <p className="margin-b-s success">
+                        {entry.name}{entry.note ? ` - ${entry.note}` : ""}
+                    </p>
+                )}
+                {isOwn && (
+                    <p className="margin-b-s warning">
+                        This is one of your own addresses
+                        {this.addressLabel(address) ? ` (${this.addressLabel(address)})` : ""}.
+                    </p>
+                )}
+                {!entry && !isOwn && (
+                    <p className="margin-b-s warning">
+                        This address is not in your address book, check it before sending.
+                    </p>
+                )}
+            </React.Fragment>
+        );
+    }
+
+    /**
+     * The send address changed, use the default asset of the address book entry if it can be sent.
+     * @param sendFundsAddress The new address.
+     */
+    private changeSendFundsAddress(sendFundsAddress: string): void {
+        const entry = this.state.addressBook.find(e => e.address === sendFundsAddress.trim());
+        const balance = entry?.defaultColor
+            ? this.state.balances?.find(b => b.asset.color === entry.defaultColor && b.confirmed > 0)
+            : undefined;
+
+        if (balance && balance.asset.color !== this.state.sendFundsColor) {
+            this.setState({
+                sendFundsAddress,
+                sendFundsColor: balance.asset.color,
+                sendFundsAmount: balance.confirmed.toString(),
+                sendFundsMax: undefined
+            });
+        } else {
+            this.setState({ sendFundsAddress });
+        }
+    }
+
+    /**
+     * Fill in the maximum amount of the color being sent.
+     */
+    private sendFundsMax(): void {
+        if (this.state.sendFundsColor) {
+            const sendFundsMax = this._walletService.getMaxSendAmount(this.state.sendFundsColor);
+
+            this.setState({
+                sendFundsAmount: sendFundsMax.amount.toString(),
+                sendFundsMax,
+                errorSendFunds: sendFundsMax.amount > 0 ? "" : "There are no confirmed funds to send"
+            });
+        }
+    }
+
+    /**
+     * Get the label of one of the wallet addresses.
+     * @param address The address to look up.
+     * @returns The label if there is one.
+     */
+    private addressLabel(address: string): string | undefined {
+        return this.state.addresses?.find(a => a.address === address)?.label;
+    }
+
+    /**
+     * Get the name of the asset for a color.
+     * @param color The color to look up.
+     * @returns The asset name.
+     */
+    private assetName(color: string): string {
+        const balance = this.state.balances?.find(b => b.asset.color === color);
+        return balance ? balance.asset.name : color;
+    }
+
     /**
      * Does the asset have a balance.
      * @param asset The asset to check.
@@ -1,4 +1,7 @@
+import { IAddressBookEntry } from "../../models/IAddressBookEntry";
+import { IMaxSendAmount } from "../../models/IMaxSendAmount";
 import { ISettings } from "../../models/ISettings";
+import { ITransactionDraft } from "../../models/ITransactionDraft";
 import { IWallet } from "../../models/IWallet";
 import { IWalletAddress } from "../../models/IWalletAddress";
 import { IWalletBalance } from "../../models/IWalletBalance";
@@ -19,6 +22,66 @@ export interface WalletState {
      */
     wallet?: IWallet;
 
+    /**
+     * Is the wallet locked.
+     */
+    isLocked: boolean;
+
+    /**
+     * The password for creating or unlocking the wallet.
+     */
+    password: string;
+
+    /**
+     * The password confirmation when creating the wallet.
+     */
+    passwordConfirm: string;
+
+    /**
+     * Error when unlocking the wallet.
+     */
+    errorPassword?: string;
+
+    /**
+     * The seed to display when the wallet was just created.
+     */
+    seed?: string;
+
+    /**
+     * The mnemonic to display when the wallet was just created.
+     */
+    seedMnemonic?: string;
+
+    /**
+     * The seed or mnemonic to restore a wallet from.
+     */
+    restoreSeed?: string;
+
+    /**
+     * Progress of the address scan when restoring the wallet.
+     */
+    restoreProgress?: string;
+
+    /**
+     * Error when restoring the wallet.
+     */
+    errorRestore?: string;
+
+    /**
+     * The addresses to create a watch-only wallet from.
+     */
+    watchAddresses?: string;
+
+    /**
+     * Error when creating the watch-only wallet.
+     */
+    errorWatch?: string;
+
+    /**
+     * Is the wallet watch-only.
+     */
+    isWatchOnly: boolean;
+
     /**
      * The wallet was just created.
      */
@@ -99,6 +162,16 @@ export interface WalletState {
      */
     sendFundsColor?: string;
 
+    /**
+     * Memo to send with the funds.
+     */
+    sendFundsMemo: string;
+
+    /**
+     * The maximum being sent, set when the whole balance of the color is sent.
+     */
+    sendFundsMax?: IMaxSendAmount;
+
     /**
      * Send funds error.
      */
@@ -108,4 +181,54 @@ export interface WalletState {
      * Busy sending funds.
      */
     isBusySendFunds: boolean;
+
+    /**
+     * The draft transaction waiting for confirmation.
+     */
+    draft?: ITransactionDraft;
+
+    /**
+     * Busy confirming the draft.
+     */
+    isBusyDraft: boolean;
+
+    /**
+     * Confirm draft error.
+     */
+    errorDraft?: string;
+
+    /**
+     * The address book entries.
+     */
+    addressBook: IAddressBookEntry[];
+
+    /**
+     * Is the address book open.
+     */
+    isAddressBook: boolean;
+
+    /**
+     * The address whose detail is open.
+     */
+    detailAddress?: string;
+
+    /**
+     * Is the message signing open.
+     */
+    isSignMessage: boolean;
+
+    /**
+     * Is the batch send composer open.
+     */
+    isBatchSend: boolean;
+
+    /**
+     * Is the offline signing panel open.
+     */
+    isOfflineSigning: boolean;
+
+    /**
+     * Notifications of transaction status changes.
+     */
+    notifications: string[];
 }
@@ -0,0 +1,122 @@
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { CoinSelectionStrategies } from "./coinSelectionStrategies";
+
+/**
+ * Create a candidate holding IOTA.
+ * @param address The address holding the outputs.
+ * @param order The position in the ledger order.
+ * @param value The value of the outputs.
+ * @param outputCount The number of outputs.
+ * @param created The time the oldest output was received.
+ * @returns The candidate.
+ */
+function candidate(
+    address: string,
+    order: number,
+    value: number,
+    outputCount: number,
+    created?: number): ICoinSelectionCandidate {
+    return {
+        address,
+        outputs: Array.from({ length: outputCount }, (_, i) => ({
+            transactionId: `${address}-${order}-${i}`,
+            balances: [],
+            inclusionState: { confirmed: true }
+        })),
+        balances: { IOTA: BigInt(value) },
+        order,
+        created
+    };
+}
+
+/**
+ * Select with a strategy and return the ledger order of the selected candidates.
+ * @param id The id of the strategy.
+ * @param candidates The candidates to select from.
+ * @param value The IOTA required.
+ * @returns The order of each selected candidate.
+ */
+function select(id: string, candidates: ICoinSelectionCandidate[], value: number): number[] {
+    return CoinSelectionStrategies.get(id).select(candidates, { IOTA: BigInt(value) }).map(c => c.order);
+}
+
+describe("CoinSelectionStrategies", () => {
+    const candidates = [
+        candidate("addr1", 0, 30, 1, 3000),
+        candidate("addr2", 1, 50, 1, 1000),
+        candidate("addr1", 2, 40, 2, 2000),
+        candidate("addr3", 3, 100, 3, 4000)
+    ];
+
+    test("get falls back to the default strategy", () => {
+        expect(CoinSelectionStrategies.get("unknown").id).toBe(CoinSelectionStrategies.DEFAULT_ID);
+        expect(CoinSelectionStrategies.get().id).toBe("ledger-order");
+    });
+
+    test("ledger-order takes candidates in the order given", () => {
+        expect(select("ledger-order", candidates, 60)).toEqual([0, 1]);
+        expect(select("ledger-order", candidates, 30)).toEqual([0]);
+    });
+
+    test("minimize-inputs takes the candidate with the fewest outputs that covers the funds", () => {
+        expect(select("minimize-inputs", candidates, 60)).toEqual([3]);
+        expect(select("minimize-inputs", candidates, 40)).toEqual([1]);
+    });
+
+    test("minimize-inputs prefers the most value per output when nothing covers the funds", () => {
+        expect(select("minimize-inputs", candidates, 150)).toEqual([1, 3]);
+    });
+
+    test("minimize-addresses stays on the richest address", () => {
+        expect(select("minimize-addresses", candidates, 60)).toEqual([0, 2]);
+        expect(select("minimize-addresses", candidates, 80)).toEqual([3]);
+    });
+
+    test("oldest-first takes the oldest candidates first", () => {
+        expect(select("oldest-first", candidates, 60)).toEqual([1, 2]);
+    });
+
+    test("oldest-first takes candidates with no age first in ledger order", () => {
+        const unknownAge = [
+            ...candidates,
+            candidate("addr4", 4, 10, 1),
+            candidate("addr5", 5, 10, 1)
+        ];
+
+        expect(select("oldest-first", unknownAge, 25)).toEqual([4, 5, 1]);
+    });
+
+    test("exact-match takes a single candidate which matches exactly", () => {
+        expect(select("exact-match", candidates, 50)).toEqual([1]);
+    });
+
+    test("exact-match takes a pair of candidates which match exactly", () => {
+        expect(select("exact-match", candidates, 70)).toEqual([0, 2]);
+    });
+
+    test("exact-match ignores candidates holding other colors", () => {
+        const colored = candidate("addr4", 4, 50, 1);
+        colored.balances.RED = BigInt(5);
+
+        expect(select("exact-match", [colored, ...candidates], 50)).toEqual([1]);
+    });
+
+    test("exact-match falls back to minimize-inputs when there is no exact match", () => {
+        expect(select("exact-match", candidates, 60)).toEqual(select("minimize-inputs", candidates, 60));
+        expect(select("exact-match", candidates, 60)).toEqual([3]);
+    });
+
+    test("every strategy selects all the candidates when there are insufficient funds", () => {
+        for (const strategy of CoinSelectionStrategies.all()) {
+            const selected = strategy.select(candidates, { IOTA: BigInt(1000) });
+
+            expect(selected.map(c => c.order).sort()).toEqual([0, 1, 2, 3]);
+        }
+    });
+
+    test("every strategy ignores candidates which do not hold the required color", () => {
+        for (const strategy of CoinSelectionStrategies.all()) {
+            expect(strategy.select(candidates, { RED: BigInt(10) })).toEqual([]);
+        }
+    });
+});
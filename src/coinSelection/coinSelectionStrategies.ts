@@ -0,0 +1,46 @@
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+import { ExactMatchStrategy } from "./exactMatchStrategy";
+import { LedgerOrderStrategy } from "./ledgerOrderStrategy";
+import { MinimizeAddressesStrategy } from "./minimizeAddressesStrategy";
+import { MinimizeInputsStrategy } from "./minimizeInputsStrategy";
+import { OldestFirstStrategy } from "./oldestFirstStrategy";
+
+/**
+ * The available coin selection strategies.
+ */
+export class CoinSelectionStrategies {
+    /**
+     * The id of the strategy used when none is chosen.
+     */
+    public static readonly DEFAULT_ID: string = "ledger-order";
+
+    /**
+     * The strategies.
+     */
+    private static readonly _strategies: ICoinSelectionStrategy[] = [
+        new LedgerOrderStrategy(),
+        new MinimizeInputsStrategy(),
+        new MinimizeAddressesStrategy(),
+        new OldestFirstStrategy(),
+        new ExactMatchStrategy()
+    ];
+
+    /**
+     * Get all the strategies.
+     * @returns The strategies.
+     */
+    public static all(): ICoinSelectionStrategy[] {
+        return CoinSelectionStrategies._strategies;
+    }
+
+    /**
+     * Get a strategy by its id, falling back to the default.
+     * @param id The id of the strategy.
+     * @returns The strategy.
+     */
+    public static get(id?: string): ICoinSelectionStrategy {
+        return CoinSelectionStrategies._strategies.find(s => s.id === id) ??
+            CoinSelectionStrategies._strategies.find(s => s.id === CoinSelectionStrategies.DEFAULT_ID) ??
+            CoinSelectionStrategies._strategies[0];
+    }
+}
@@ -0,0 +1,73 @@
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+import { MinimizeInputsStrategy } from "./minimizeInputsStrategy";
+
+/**
+ * Coin selection which prefers outputs that match the amount exactly, so there is no remainder.
+ */
+export class ExactMatchStrategy implements ICoinSelectionStrategy {
+    /**
+     * The most candidates to search for an exact pair, the search is quadratic.
+     */
+    private static readonly MAX_PAIR_CANDIDATES: number = 200;
+
+    /**
+     * The id of the strategy.
+     */
+    public readonly id: string = "exact-match";
+
+    /**
+     * The name to display for the strategy.
+     */
+    public readonly name: string = "Exact match preferred";
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    public select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        const single = candidates.find(c => this.isExact([c], requiredFunds));
+        if (single) {
+            return [single];
+        }
+
+        if (candidates.length <= ExactMatchStrategy.MAX_PAIR_CANDIDATES) {
+            for (let i = 0; i < candidates.length; i++) {
+                for (let j = i + 1; j < candidates.length; j++) {
+                    if (this.isExact([candidates[i], candidates[j]], requiredFunds)) {
+                        return [candidates[i], candidates[j]];
+                    }
+                }
+            }
+        }
+
+        return new MinimizeInputsStrategy().select(candidates, requiredFunds);
+    }
+
+    /**
+     * Do the candidates add up to exactly the required funds with nothing left over.
+     * @param candidates The candidates to check.
+     * @param requiredFunds The funds required by color.
+     * @returns True if the candidates are an exact match.
+     */
+    private isExact(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): boolean {
+        const totals: { [color: string]: bigint } = {};
+        for (const candidate of candidates) {
+            for (const color in candidate.balances) {
+                totals[color] = (totals[color] ?? BigInt(0)) + candidate.balances[color];
+            }
+        }
+
+        const colors = Object.keys(totals);
+        return colors.length === Object.keys(requiredFunds).length &&
+            colors.every(color => totals[color] === requiredFunds[color]) &&
+            candidates.every(c => CoinSelectionHelper.coverage(c, requiredFunds) > BigInt(0));
+    }
+}
@@ -0,0 +1,30 @@
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+
+/**
+ * Coin selection which takes outputs in the order the ledger returns them.
+ */
+export class LedgerOrderStrategy implements ICoinSelectionStrategy {
+    /**
+     * The id of the strategy.
+     */
+    public readonly id: string = "ledger-order";
+
+    /**
+     * The name to display for the strategy.
+     */
+    public readonly name: string = "Ledger order";
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    public select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        return CoinSelectionHelper.takeInOrder(candidates, requiredFunds);
+    }
+}
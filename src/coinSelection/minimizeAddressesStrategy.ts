@@ -0,0 +1,56 @@
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+
+/**
+ * Coin selection which spends from as few addresses as possible.
+ */
+export class MinimizeAddressesStrategy implements ICoinSelectionStrategy {
+    /**
+     * The id of the strategy.
+     */
+    public readonly id: string = "minimize-addresses";
+
+    /**
+     * The name to display for the strategy.
+     */
+    public readonly name: string = "Fewest addresses";
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    public select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        // total up each address so the richest addresses are spent first
+        const addressTotals: { [address: string]: ICoinSelectionCandidate } = {};
+        for (const candidate of candidates) {
+            const total = addressTotals[candidate.address] ?? {
+                address: candidate.address,
+                outputs: [],
+                balances: {},
+                order: candidate.order
+            };
+            for (const color in candidate.balances) {
+                total.balances[color] = (total.balances[color] ?? BigInt(0)) + candidate.balances[color];
+            }
+            addressTotals[candidate.address] = total;
+        }
+
+        return CoinSelectionHelper.takeBest(candidates, requiredFunds, (a, b, remaining, selected) => {
+            // stay on addresses which are already being spent from
+            const aSelected = selected.some(s => s.address === a.address);
+            const bSelected = selected.some(s => s.address === b.address);
+            if (aSelected !== bSelected) {
+                return aSelected ? -1 : 1;
+            }
+
+            return CoinSelectionHelper.compareBigInt(
+                CoinSelectionHelper.coverage(addressTotals[b.address], remaining),
+                CoinSelectionHelper.coverage(addressTotals[a.address], remaining));
+        });
+    }
+}
@@ -0,0 +1,46 @@
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+
+/**
+ * Coin selection which uses as few outputs as possible.
+ */
+export class MinimizeInputsStrategy implements ICoinSelectionStrategy {
+    /**
+     * The id of the strategy.
+     */
+    public readonly id: string = "minimize-inputs";
+
+    /**
+     * The name to display for the strategy.
+     */
+    public readonly name: string = "Fewest inputs";
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    public select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        return CoinSelectionHelper.takeBest(candidates, requiredFunds, (a, b, remaining) => {
+            // a candidate which finishes the selection beats one which does not,
+            // between two that finish the one with fewer outputs wins
+            const aCovers = CoinSelectionHelper.covers(a, remaining);
+            const bCovers = CoinSelectionHelper.covers(b, remaining);
+            if (aCovers !== bCovers) {
+                return aCovers ? -1 : 1;
+            }
+            if (aCovers) {
+                return a.outputs.length - b.outputs.length;
+            }
+
+            // otherwise prefer the most value per output
+            return CoinSelectionHelper.compareBigInt(
+                CoinSelectionHelper.coverage(b, remaining) * BigInt(a.outputs.length),
+                CoinSelectionHelper.coverage(a, remaining) * BigInt(b.outputs.length));
+        });
+    }
+}
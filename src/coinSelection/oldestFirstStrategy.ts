@@ -0,0 +1,34 @@
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICoinSelectionStrategy } from "../models/ICoinSelectionStrategy";
+
+/**
+ * Coin selection which takes the oldest outputs first.
+ */
+export class OldestFirstStrategy implements ICoinSelectionStrategy {
+    /**
+     * The id of the strategy.
+     */
+    public readonly id: string = "oldest-first";
+
+    /**
+     * The name to display for the strategy.
+     */
+    public readonly name: string = "Oldest first";
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    public select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        // outputs with no recorded age were received before the history was kept
+        const sorted = candidates.slice().sort((a, b) =>
+            (a.created ?? 0) - (b.created ?? 0) || a.order - b.order);
+
+        return CoinSelectionHelper.takeInOrder(sorted, requiredFunds);
+    }
+}
@@ -0,0 +1,149 @@
+import { IAddressDiscoveryOptions } from "../models/IAddressDiscoveryOptions";
+import { IAddressDiscoveryResult } from "../models/IAddressDiscoveryResult";
+import { IAddressScanProgress } from "../models/IAddressScanProgress";
+import { IWalletAddressOutput } from "../models/IWalletAddressOutput";
+import { AddressDiscoveryHelper } from "./addressDiscoveryHelper";
+
+/**
+ * A fake ledger where the given indexes hold an output.
+ */
+class FakeLedger {
+    /**
+     * The ranges derived as [startIndex, count].
+     */
+    public readonly derived: [number, number][] = [];
+
+    /**
+     * The progress reported after each batch.
+     */
+    public readonly progress: IAddressScanProgress[] = [];
+
+    /**
+     * The indexes which hold an output.
+     */
+    private readonly _usedIndexes: number[];
+
+    /**
+     * Create a new instance of FakeLedger.
+     * @param usedIndexes The indexes which hold an output.
+     */
+    constructor(usedIndexes: number[]) {
+        this._usedIndexes = usedIndexes;
+    }
+
+    /**
+     * Run the discovery against the ledger.
+     * @param options The options to override the defaults with.
+     * @returns The result of the discovery.
+     */
+    public async discover(options: Partial<IAddressDiscoveryOptions>): Promise<IAddressDiscoveryResult> {
+        return AddressDiscoveryHelper.discover(
+            {
+                gapLimit: AddressDiscoveryHelper.DEFAULT_GAP_LIMIT,
+                batchSize: AddressDiscoveryHelper.DEFAULT_BATCH_SIZE,
+                maxIndex: AddressDiscoveryHelper.MAX_INDEX,
+                scanToIndex: 0,
+                ...options
+            },
+            async (startIndex, count) => {
+                this.derived.push([startIndex, count]);
+                return Array.from({ length: count }, (_, i) => `addr${startIndex + i}`);
+            },
+            async addresses => this.fetch(addresses),
+            progress => this.progress.push(progress));
+    }
+
+    /**
+     * Fetch the outputs, addresses without outputs are not returned.
+     * @param addresses The addresses to fetch.
+     * @returns The outputs of the used addresses.
+     */
+    private fetch(addresses: string[]): IWalletAddressOutput[] {
+        return addresses
+            .filter(a => this._usedIndexes.includes(Number(a.substr(4))))
+            .map(address => ({
+                address,
+                outputs: [{ transactionId: `tx-${address}`, balances: [], inclusionState: { confirmed: true } }]
+            }));
+    }
+}
+
+describe("AddressDiscoveryHelper", () => {
+    test("finds funds after a gap shorter than the limit", async () => {
+        const ledger = new FakeLedger([0, 19]);
+
+        const result = await ledger.discover({ gapLimit: 20, batchSize: 5 });
+
+        expect(result.outputs.map(o => o.address)).toEqual(["addr0", "addr19"]);
+        expect(result.lastUsedIndex).toBe(19);
+        expect(result.scannedCount).toBe(40);
+        expect(result.isMaxIndexReached).toBe(false);
+    });
+
+    test("stops exactly at the gap limit", async () => {
+        const unused = await new FakeLedger([]).discover({ gapLimit: 20, batchSize: 1 });
+        expect(unused.lastUsedIndex).toBe(-1);
+        expect(unused.scannedCount).toBe(20);
+
+        const beyondGap = await new FakeLedger([20]).discover({ gapLimit: 20, batchSize: 1 });
+        expect(beyondGap.outputs).toEqual([]);
+        expect(beyondGap.scannedCount).toBe(20);
+
+        const withinGap = await new FakeLedger([19]).discover({ gapLimit: 20, batchSize: 1 });
+        expect(withinGap.lastUsedIndex).toBe(19);
+        expect(withinGap.scannedCount).toBe(40);
+    });
+
+    test("stops after the batch which completes the gap, missing funds beyond it", async () => {
+        const result = await new FakeLedger([0, 3, 45]).discover({ gapLimit: 20, batchSize: 7 });
+
+        expect(result.lastUsedIndex).toBe(3);
+        expect(result.scannedCount).toBe(28);
+        expect(result.outputs.map(o => o.address)).toEqual(["addr0", "addr3"]);
+    });
+
+    test("scans every index up to scanToIndex whatever the gap", async () => {
+        const unused = await new FakeLedger([]).discover({ gapLimit: 5, batchSize: 1, scanToIndex: 30 });
+        expect(unused.scannedCount).toBe(31);
+        expect(unused.lastUsedIndex).toBe(-1);
+
+        const used = await new FakeLedger([0, 45]).discover({ gapLimit: 5, batchSize: 10, scanToIndex: 45 });
+        expect(used.lastUsedIndex).toBe(45);
+        expect(used.scannedCount).toBe(60);
+    });
+
+    test("stops at maxIndex and reports it was reached", async () => {
+        const ledger = new FakeLedger([8]);
+
+        const result = await ledger.discover({ gapLimit: 20, batchSize: 4, maxIndex: 9, scanToIndex: 50 });
+
+        expect(ledger.derived).toEqual([[0, 4], [4, 4], [8, 2]]);
+        expect(result.lastUsedIndex).toBe(8);
+        expect(result.scannedCount).toBe(10);
+        expect(result.isMaxIndexReached).toBe(true);
+    });
+
+    test("does not report maxIndex reached when the gap is found first", async () => {
+        const result = await new FakeLedger([]).discover({ gapLimit: 5, batchSize: 5, maxIndex: 9 });
+
+        expect(result.scannedCount).toBe(5);
+        expect(result.isMaxIndexReached).toBe(false);
+    });
+
+    test("derives consecutive batches without skipping or repeating an index", async () => {
+        const ledger = new FakeLedger([6, 7, 13, 14, 30]);
+
+        const result = await ledger.discover({ gapLimit: 10, batchSize: 7 });
+
+        let expectedStart = 0;
+        for (const [startIndex, count] of ledger.derived) {
+            expect(startIndex).toBe(expectedStart);
+            expect(count).toBe(7);
+            expectedStart += count;
+        }
+        expect(expectedStart).toBe(result.scannedCount);
+        expect(result.outputs.map(o => o.address)).toEqual(["addr6", "addr7", "addr13", "addr14"]);
+        expect(ledger.progress.map(p => p.scannedCount)).toEqual([7, 14, 21, 28]);
+        expect(ledger.progress.map(p => p.usedCount)).toEqual([1, 3, 4, 4]);
+    });
+});
@@ -0,0 +1,78 @@
+import { IAddressDiscoveryOptions } from "../models/IAddressDiscoveryOptions";
+import { IAddressDiscoveryResult } from "../models/IAddressDiscoveryResult";
+import { IAddressScanProgress } from "../models/IAddressScanProgress";
+import { IWalletAddressOutput } from "../models/IWalletAddressOutput";
+
+/**
+ * Class to help with discovering the used addresses of a seed.
+ */
+export class AddressDiscoveryHelper {
+    /**
+     * The default number of consecutive unused addresses before the scan stops.
+     */
+    public static readonly DEFAULT_GAP_LIMIT: number = 20;
+
+    /**
+     * The default number of addresses requested at a time.
+     */
+    public static readonly DEFAULT_BATCH_SIZE: number = 20;
+
+    /**
+     * The highest index which is ever scanned.
+     */
+    public static readonly MAX_INDEX: number = 10000;
+
+    /**
+     * Scan the addresses in batches until there is a gap of unused addresses after the last used one.
+     * @param options The options for the scan.
+     * @param deriveAddresses Derive the addresses for a batch of consecutive indexes.
+     * @param fetchUnspentOutputs Fetch the outputs for addresses, only addresses with outputs are returned.
+     * @param onProgress Callback to report progress after each batch.
+     * @returns The outputs found and the last used index.
+     */
+    public static async discover(
+        options: IAddressDiscoveryOptions,
+        deriveAddresses: (startIndex: number, count: number) => Promise<string[]>,
+        fetchUnspentOutputs: (addresses: string[]) => Promise<IWalletAddressOutput[]>,
+        onProgress?: (progress: IAddressScanProgress) => void): Promise<IAddressDiscoveryResult> {
+        const gapLimit = Math.max(1, Math.floor(options.gapLimit));
+        const batchSize = Math.max(1, Math.floor(options.batchSize));
+        const maxIndex = Math.max(0, Math.floor(options.maxIndex));
+        const scanToIndex = Math.min(maxIndex, Math.max(0, Math.floor(options.scanToIndex)));
+
+        const outputs: IWalletAddressOutput[] = [];
+        let lastUsedIndex = -1;
+        let nextIndex = 0;
+
+        // stop once everything known has been scanned and the unused run since the last used reaches the gap
+        while (nextIndex <= maxIndex &&
+            (nextIndex <= scanToIndex || nextIndex - (lastUsedIndex + 1) < gapLimit)) {
+            const endIndex = Math.min(nextIndex + batchSize - 1, maxIndex);
+            const addresses = await deriveAddresses(nextIndex, endIndex - nextIndex + 1);
+
+            const batchOutputs = await fetchUnspentOutputs(addresses);
+            for (const addressOutput of batchOutputs) {
+                const idx = addresses.indexOf(addressOutput.address);
+                if (idx >= 0 && addressOutput.outputs.length > 0) {
+                    lastUsedIndex = Math.max(lastUsedIndex, nextIndex + idx);
+                    outputs.push(addressOutput);
+                }
+            }
+            nextIndex = endIndex + 1;
+
+            if (onProgress) {
+                onProgress({
+                    scannedCount: nextIndex,
+                    usedCount: outputs.length
+                });
+            }
+        }
+
+        return {
+            outputs,
+            lastUsedIndex,
+            scannedCount: nextIndex,
+            isMaxIndexReached: nextIndex > maxIndex && nextIndex - (lastUsedIndex + 1) < gapLimit
+        };
+    }
+}
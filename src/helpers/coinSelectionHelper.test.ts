@@ -0,0 +1,108 @@
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { IWalletOutput } from "../models/IWalletOutput";
+import { CoinSelectionHelper } from "./coinSelectionHelper";
+
+/**
+ * Create a candidate with a single output.
+ * @param order The position in the ledger order.
+ * @param balances The balances by color.
+ * @returns The candidate.
+ */
+function candidate(order: number, balances: { [color: string]: number }): ICoinSelectionCandidate {
+    const result: ICoinSelectionCandidate = {
+        address: `addr${order}`,
+        outputs: [{ transactionId: `tx${order}`, balances: [], inclusionState: { confirmed: true } }],
+        balances: {},
+        order
+    };
+    for (const color in balances) {
+        result.balances[color] = BigInt(balances[color]);
+    }
+    return result;
+}
+
+/**
+ * Create a confirmed output without balances.
+ * @param transactionId The id of the output.
+ * @returns The output.
+ */
+function output(transactionId: string): IWalletOutput {
+    return { transactionId, balances: [], inclusionState: { confirmed: true } };
+}
+
+describe("CoinSelectionHelper", () => {
+    test("coverage counts only the remaining funds of each color", () => {
+        const remaining = { IOTA: BigInt(100), RED: BigInt(10) };
+
+        expect(CoinSelectionHelper.coverage(candidate(0, { IOTA: 40, RED: 50 }), remaining)).toBe(BigInt(50));
+        expect(CoinSelectionHelper.coverage(candidate(0, { BLUE: 40 }), remaining)).toBe(BigInt(0));
+    });
+
+    test("subtract drops the colors which are covered", () => {
+        const remaining = { IOTA: BigInt(100), RED: BigInt(10) };
+
+        expect(CoinSelectionHelper.subtract(remaining, candidate(0, { IOTA: 40, RED: 50 })))
+            .toEqual({ IOTA: BigInt(60) });
+        expect(remaining).toEqual({ IOTA: BigInt(100), RED: BigInt(10) });
+    });
+
+    test("covers needs every color to be covered", () => {
+        const remaining = { IOTA: BigInt(100), RED: BigInt(10) };
+
+        expect(CoinSelectionHelper.covers(candidate(0, { IOTA: 100, RED: 10 }), remaining)).toBe(true);
+        expect(CoinSelectionHelper.covers(candidate(0, { IOTA: 500 }), remaining)).toBe(false);
+    });
+
+    test("takeInOrder skips candidates which add nothing", () => {
+        const candidates = [
+            candidate(0, { RED: 5 }),
+            candidate(1, { IOTA: 60 }),
+            candidate(2, { IOTA: 60 }),
+            candidate(3, { IOTA: 60 })
+        ];
+
+        expect(CoinSelectionHelper.takeInOrder(candidates, { IOTA: BigInt(100) }).map(c => c.order))
+            .toEqual([1, 2]);
+    });
+
+    test("takeBest breaks ties by ledger order", () => {
+        const candidates = [
+            candidate(0, { IOTA: 10 }),
+            candidate(1, { IOTA: 60 }),
+            candidate(2, { IOTA: 60 })
+        ];
+
+        expect(CoinSelectionHelper.takeBest(candidates, { IOTA: BigInt(100) }, () => 0).map(c => c.order))
+            .toEqual([0, 1, 2]);
+        expect(CoinSelectionHelper.takeBest(
+            candidates,
+            { IOTA: BigInt(100) },
+            (a, b) => CoinSelectionHelper.compareBigInt(b.balances.IOTA, a.balances.IOTA)).map(c => c.order))
+            .toEqual([1, 2]);
+    });
+
+    test("takeBest stops when the funds can not be covered", () => {
+        const candidates = [candidate(0, { IOTA: 10 }), candidate(1, { RED: 10 })];
+
+        expect(CoinSelectionHelper.takeBest(candidates, { IOTA: BigInt(100) }, () => 0).map(c => c.order))
+            .toEqual([0]);
+    });
+
+    test("partialAddresses finds the addresses with outputs left out of the selection", () => {
+        const outputs = [
+            { address: "addr1", outputs: [output("a"), output("b")] },
+            { address: "addr2", outputs: [output("c"), output("d")] },
+            { address: "addr3", outputs: [output("e")] }
+        ];
+
+        expect(CoinSelectionHelper.partialAddresses(outputs, ["a", "c", "d"])).toEqual(["addr1"]);
+        expect(CoinSelectionHelper.partialAddresses(outputs, ["a", "b", "e"])).toEqual([]);
+        expect(CoinSelectionHelper.partialAddresses(outputs, [])).toEqual([]);
+    });
+
+    test("compareBigInt orders values", () => {
+        expect(CoinSelectionHelper.compareBigInt(BigInt(1), BigInt(2))).toBe(-1);
+        expect(CoinSelectionHelper.compareBigInt(BigInt(2), BigInt(1))).toBe(1);
+        expect(CoinSelectionHelper.compareBigInt(BigInt(2), BigInt(2))).toBe(0);
+    });
+});
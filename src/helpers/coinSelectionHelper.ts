@@ -0,0 +1,141 @@
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { IWalletAddressOutput } from "../models/IWalletAddressOutput";
+
+/**
+ * Class to help with selecting outputs to cover required funds.
+ */
+export class CoinSelectionHelper {
+    /**
+     * Calculate how much of the remaining funds a candidate covers.
+     * @param candidate The candidate to check.
+     * @param remaining The funds still required by color.
+     * @returns The total value of the remaining funds the candidate covers.
+     */
+    public static coverage(candidate: ICoinSelectionCandidate, remaining: { [color: string]: bigint }): bigint {
+        let covered = BigInt(0);
+        for (const color in remaining) {
+            const balance = candidate.balances[color];
+            if (balance) {
+                covered += balance < remaining[color] ? balance : remaining[color];
+            }
+        }
+        return covered;
+    }
+
+    /**
+     * Subtract the balances of a candidate from the remaining funds.
+     * @param remaining The funds still required by color.
+     * @param candidate The candidate to subtract.
+     * @returns The funds still required after the candidate.
+     */
+    public static subtract(
+        remaining: { [color: string]: bigint },
+        candidate: ICoinSelectionCandidate): { [color: string]: bigint } {
+        const result: { [color: string]: bigint } = {};
+        for (const color in remaining) {
+            const value = remaining[color] - (candidate.balances[color] ?? BigInt(0));
+            if (value > BigInt(0)) {
+                result[color] = value;
+            }
+        }
+        return result;
+    }
+
+    /**
+     * Does the candidate cover all the remaining funds.
+     * @param candidate The candidate to check.
+     * @param remaining The funds still required by color.
+     * @returns True if the candidate covers the funds.
+     */
+    public static covers(candidate: ICoinSelectionCandidate, remaining: { [color: string]: bigint }): boolean {
+        return Object.keys(CoinSelectionHelper.subtract(remaining, candidate)).length === 0;
+    }
+
+    /**
+     * Take the candidates in the order given while they contain any of the remaining funds.
+     * @param candidates The candidates in the order to take them.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates.
+     */
+    public static takeInOrder(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[] {
+        const selected: ICoinSelectionCandidate[] = [];
+        let remaining = requiredFunds;
+
+        for (const candidate of candidates) {
+            if (Object.keys(remaining).length === 0) {
+                break;
+            }
+            if (CoinSelectionHelper.coverage(candidate, remaining) > BigInt(0)) {
+                selected.push(candidate);
+                remaining = CoinSelectionHelper.subtract(remaining, candidate);
+            }
+        }
+
+        return selected;
+    }
+
+    /**
+     * Repeatedly take the best candidate until the funds are covered.
+     * @param candidates The candidates to choose from.
+     * @param requiredFunds The funds required by color.
+     * @param compare Comparison where a negative result means the first candidate is better.
+     * @returns The selected candidates.
+     */
+    public static takeBest(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint },
+        compare: (
+            a: ICoinSelectionCandidate,
+            b: ICoinSelectionCandidate,
+            remaining: { [color: string]: bigint },
+            selected: ICoinSelectionCandidate[]) => number): ICoinSelectionCandidate[] {
+        const selected: ICoinSelectionCandidate[] = [];
+        let available = candidates.slice();
+        let remaining = requiredFunds;
+
+        while (Object.keys(remaining).length > 0) {
+            const current = remaining;
+            const useful = available.filter(c => CoinSelectionHelper.coverage(c, current) > BigInt(0));
+            if (useful.length === 0) {
+                break;
+            }
+
+            useful.sort((a, b) => compare(a, b, current, selected) || a.order - b.order);
+
+            selected.push(useful[0]);
+            available = available.filter(c => c !== useful[0]);
+            remaining = CoinSelectionHelper.subtract(remaining, useful[0]);
+        }
+
+        return selected;
+    }
+
+    /**
+     * Find the addresses where only some of the outputs are selected.
+     * @param outputs The outputs available to spend, grouped by address.
+     * @param selected The ids of the selected outputs.
+     * @returns The addresses with outputs which are not selected as well as ones which are.
+     */
+    public static partialAddresses(outputs: IWalletAddressOutput[], selected: string[]): string[] {
+        return outputs
+            .filter(o =>
+                o.outputs.some(output => selected.includes(output.transactionId)) &&
+                o.outputs.some(output => !selected.includes(output.transactionId)))
+            .map(o => o.address);
+    }
+
+    /**
+     * Compare two bigint values for sorting.
+     * @param a The first value.
+     * @param b The second value.
+     * @returns Negative if a is smaller, positive if a is larger, otherwise 0.
+     */
+    public static compareBigInt(a: bigint, b: bigint): number {
+        if (a < b) {
+            return -1;
+        }
+        return a > b ? 1 : 0;
+    }
+}
@@ -0,0 +1,74 @@
+import { Seed } from "../iota/seed";
+import { Transaction } from "../iota/transaction";
+import { ICryptoBenchmarkResult } from "../models/ICryptoBenchmarkResult";
+import { ICryptoService } from "../models/services/ICryptoService";
+
+/**
+ * Class to compare the performance of crypto services.
+ */
+export class CryptoBenchmarkHelper {
+    /**
+     * The default number of addresses to derive and sign with.
+     */
+    public static readonly DEFAULT_COUNT: number = 100;
+
+    /**
+     * How often the render thread is sampled to find how long it was blocked.
+     */
+    private static readonly SAMPLE_INTERVAL: number = 5;
+
+    /**
+     * Measure a crypto service with a throwaway seed.
+     * @param name The name to report the service as.
+     * @param cryptoService The service to measure.
+     * @param count The number of addresses to derive and sign with, and essences to hash.
+     * @returns The timings.
+     */
+    public static async run(name: string, cryptoService: ICryptoService, count: number): Promise<ICryptoBenchmarkResult> {
+        const seed = Seed.generate();
+        const essence = Buffer.alloc(Transaction.MAX_DATA_PAYLOAD_SIZE, 0xA5);
+        const indexes: number[] = [];
+        for (let i = 0; i < count; i++) {
+            indexes.push(i);
+        }
+
+        // a blocked render thread shows up as a late timer
+        let lastSample = performance.now();
+        let maxBlockedTime = 0;
+        const sample = (): void => {
+            const now = performance.now();
+            maxBlockedTime = Math.max(maxBlockedTime, now - lastSample);
+            lastSample = now;
+        };
+        const timer = setInterval(sample, CryptoBenchmarkHelper.SAMPLE_INTERVAL);
+
+        try {
+            let start = performance.now();
+            await cryptoService.deriveAddresses(seed, 0, count);
+            const deriveTime = performance.now() - start;
+
+            start = performance.now();
+            await cryptoService.signBatch(seed, indexes, essence);
+            const signTime = performance.now() - start;
+
+            start = performance.now();
+            for (let i = 0; i < count; i++) {
+                await cryptoService.hashEssence(essence);
+            }
+            const hashTime = performance.now() - start;
+
+            sample();
+
+            return {
+                name,
+                deriveTime,
+                signTime,
+                hashTime,
+                maxBlockedTime
+            };
+        } finally {
+            clearInterval(timer);
+            seed.fill(0);
+        }
+    }
+}
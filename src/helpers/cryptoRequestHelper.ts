@@ -0,0 +1,97 @@
+import { blake2b } from "blakejs";
+import { Address } from "../iota/address";
+import { ED25519 } from "../iota/crypto/ed25519";
+import { Seed } from "../iota/seed";
+import { ICryptoRequest } from "../models/ICryptoRequest";
+import { ICryptoResponse } from "../models/ICryptoResponse";
+import { ICryptoSignature } from "../models/ICryptoSignature";
+
+/**
+ * Class to perform the crypto operations, on whichever thread it is called from.
+ */
+export class CryptoRequestHelper {
+    /**
+     * Derive a batch of consecutive addresses from a seed.
+     * @param seed The seed to derive from.
+     * @param startIndex The index of the first address.
+     * @param count The number of addresses to derive.
+     * @returns The addresses in index order.
+     */
+    public static deriveAddresses(seed: Buffer, startIndex: number, count: number): string[] {
+        const addresses: string[] = [];
+        for (let i = startIndex; i < startIndex + count; i++) {
+            const keyPair = Seed.generateKeyPair(seed, BigInt(i));
+            addresses.push(Address.fromPublicKey(keyPair.publicKey));
+            keyPair.secretKey.fill(0);
+        }
+        return addresses;
+    }
+
+    /**
+     * Sign data with the key pairs of a batch of addresses.
+     * @param seed The seed to derive the key pairs from.
+     * @param indexes The indexes of the addresses to sign with.
+     * @param data The data to sign.
+     * @returns A signature for each index in the same order.
+     */
+    public static signBatch(seed: Buffer, indexes: number[], data: Buffer): ICryptoSignature[] {
+        const signatures: ICryptoSignature[] = [];
+        for (const index of indexes) {
+            const keyPair = Seed.generateKeyPair(seed, BigInt(index));
+            signatures.push({
+                index,
+                address: Address.fromPublicKey(keyPair.publicKey),
+                publicKey: keyPair.publicKey,
+                signature: ED25519.privateSign(keyPair, data)
+            });
+            keyPair.secretKey.fill(0);
+        }
+        return signatures;
+    }
+
+    /**
+     * Hash the essence of a transaction.
+     * @param essence The essence to hash.
+     * @returns The hex encoded hash.
+     */
+    public static hashEssence(essence: Buffer): string {
+        return Buffer.from(blake2b(essence, undefined, 32)).toString("hex");
+    }
+
+    /**
+     * Perform a request received from another thread, the seed in the request is zeroed afterwards.
+     * @param request The request to perform.
+     * @returns The response to send back.
+     */
+    public static execute(request: ICryptoRequest): ICryptoResponse {
+        const seed = Buffer.from(request.seed ?? []);
+        try {
+            if (request.operation === "derive-addresses") {
+                return {
+                    id: request.id,
+                    result: CryptoRequestHelper.deriveAddresses(seed, request.startIndex ?? 0, request.count ?? 0)
+                };
+            } else if (request.operation === "sign-batch") {
+                return {
+                    id: request.id,
+                    result: CryptoRequestHelper.signBatch(
+                        seed, request.indexes ?? [], Buffer.from(request.data ?? []))
+                };
+            } else if (request.operation === "hash-essence") {
+                return {
+                    id: request.id,
+                    result: CryptoRequestHelper.hashEssence(Buffer.from(request.data ?? []))
+                };
+            }
+            throw new Error(`Unsupported crypto operation ${request.operation}`);
+        } catch (err) {
+            return {
+                id: request.id,
+                error: err.message
+            };
+        } finally {
+            seed.fill(0);
+            request.seed?.fill(0);
+        }
+    }
+}
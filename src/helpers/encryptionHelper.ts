@@ -0,0 +1,139 @@
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from "crypto";
+import { IEncryptedData } from "../models/IEncryptedData";
+
+/**
+ * Class to help with password based encryption.
+ */
+export class EncryptionHelper {
+    /**
+     * The size of the salt in bytes.
+     */
+    private static readonly SALT_SIZE: number = 32;
+
+    /**
+     * The size of the initialization vector in bytes.
+     */
+    private static readonly IV_SIZE: number = 12;
+
+    /**
+     * The size of the derived key in bytes.
+     */
+    private static readonly KEY_SIZE: number = 32;
+
+    /**
+     * The scrypt CPU/memory cost.
+     */
+    private static readonly COST: number = 32768;
+
+    /**
+     * The scrypt block size.
+     */
+    private static readonly BLOCK_SIZE: number = 8;
+
+    /**
+     * The scrypt parallelization.
+     */
+    private static readonly PARALLELIZATION: number = 1;
+
+    /**
+     * Encrypt the data using a key derived from the password.
+     * @param password The password to derive the key from.
+     * @param data The data to encrypt.
+     * @returns The encrypted data and the parameters needed to decrypt it.
+     */
+    public static async encrypt(password: string, data: Buffer): Promise<IEncryptedData> {
+        const salt = randomBytes(EncryptionHelper.SALT_SIZE);
+        const iv = randomBytes(EncryptionHelper.IV_SIZE);
+
+        const key = await EncryptionHelper.deriveKey(
+            password,
+            salt,
+            EncryptionHelper.COST,
+            EncryptionHelper.BLOCK_SIZE,
+            EncryptionHelper.PARALLELIZATION
+        );
+
+        const cipher = createCipheriv("aes-256-gcm", key, iv);
+        const cipherText = Buffer.concat([cipher.update(data), cipher.final()]);
+        key.fill(0);
+
+        return {
+            kdf: "scrypt",
+            salt: salt.toString("base64"),
+            cost: EncryptionHelper.COST,
+            blockSize: EncryptionHelper.BLOCK_SIZE,
+            parallelization: EncryptionHelper.PARALLELIZATION,
+            cipher: "aes-256-gcm",
+            iv: iv.toString("base64"),
+            authTag: cipher.getAuthTag().toString("base64"),
+            cipherText: cipherText.toString("base64")
+        };
+    }
+
+    /**
+     * Decrypt the data using a key derived from the password.
+     * @param password The password to derive the key from.
+     * @param encrypted The encrypted data.
+     * @returns The decrypted data.
+     */
+    public static async decrypt(password: string, encrypted: IEncryptedData): Promise<Buffer> {
+        const key = await EncryptionHelper.deriveKey(
+            password,
+            Buffer.from(encrypted.salt, "base64"),
+            encrypted.cost,
+            encrypted.blockSize,
+            encrypted.parallelization
+        );
+
+        try {
+            const decipher = createDecipheriv("aes-256-gcm", key, Buffer.from(encrypted.iv, "base64"));
+            decipher.setAuthTag(Buffer.from(encrypted.authTag, "base64"));
+
+            return Buffer.concat([
+                decipher.update(Buffer.from(encrypted.cipherText, "base64")),
+                decipher.final()
+            ]);
+        } catch {
+            throw new Error("The password is incorrect");
+        } finally {
+            key.fill(0);
+        }
+    }
+
+    /**
+     * Derive a key from the password using scrypt.
+     * @param password The password to derive the key from.
+     * @param salt The salt for the derivation.
+     * @param cost The CPU/memory cost.
+     * @param blockSize The block size.
+     * @param parallelization The parallelization.
+     * @returns The derived key.
+     */
+    private static async deriveKey(
+        password: string,
+        salt: Buffer,
+        cost: number,
+        blockSize: number,
+        parallelization: number): Promise<Buffer> {
+        return new Promise<Buffer>((resolve, reject) => {
+            scrypt(
+                password.normalize("NFKC"),
+                salt,
+                EncryptionHelper.KEY_SIZE,
+                {
+                    N: cost,
+                    r: blockSize,
+                    p: parallelization,
+                    // scrypt needs 128 * N * r bytes, allow double the default limit
+                    maxmem: 256 * cost * blockSize
+                },
+                (err, derivedKey) => {
+                    if (err) {
+                        reject(err);
+                    } else {
+                        resolve(derivedKey);
+                    }
+                });
+        });
+    }
+}
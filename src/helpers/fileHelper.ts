@@ -0,0 +1,23 @@
+/**
+ * Class to help with saving files.
+ */
+export class FileHelper {
+    /**
+     * Save the content as a file download.
+     * @param filename The name of the file to save.
+     * @param content The content of the file.
+     * @param mimeType The mime type of the content.
+     */
+    public static save(filename: string, content: string, mimeType: string = "application/json"): void {
+        const url = URL.createObjectURL(new Blob([content], { type: mimeType }));
+
+        const anchor = document.createElement("a");
+        anchor.href = url;
+        anchor.download = filename;
+        document.body.append(anchor);
+        anchor.click();
+        anchor.remove();
+
+        URL.revokeObjectURL(url);
+    }
+}
@@ -0,0 +1,117 @@
+import { IWalletOutputInclusionState } from "../models/IWalletOutputInclusionState";
+
+/**
+ * Class to help with output inclusion states.
+ */
+export class InclusionStateHelper {
+    /**
+     * The statuses an inclusion state can be summarised as.
+     */
+    public static readonly STATUSES: string[] = [
+        "pending",
+        "solid",
+        "confirmed",
+        "finalized",
+        "rejected",
+        "conflicting",
+        "unknown"
+    ];
+
+    /**
+     * The order of the statuses a transaction progresses through.
+     */
+    private static readonly PROGRESS: string[] = [
+        "pending",
+        "solid",
+        "confirmed",
+        "finalized"
+    ];
+
+    /**
+     * Summarise the inclusion state as a single status.
+     * @param inclusionState The inclusion state to summarise.
+     * @returns The status.
+     */
+    public static status(inclusionState: IWalletOutputInclusionState): string {
+        if (inclusionState.rejected) {
+            return "rejected";
+        }
+        if (inclusionState.conflicting) {
+            return "conflicting";
+        }
+        if (inclusionState.finalized) {
+            return "finalized";
+        }
+        if (inclusionState.confirmed) {
+            return "confirmed";
+        }
+        if (inclusionState.solid) {
+            return "solid";
+        }
+        return "pending";
+    }
+
+    /**
+     * The status of a transaction whose inputs were spent without its outputs being seen,
+     * it may have been included or lost to a conflicting transaction.
+     */
+    public static readonly UNKNOWN: string = "unknown";
+
+    /**
+     * Is the status a failure, the transaction outputs will not be included in the ledger.
+     * @param status The status to check.
+     * @returns True if the status is a failure.
+     */
+    public static isFailed(status: string): boolean {
+        return status === "rejected" || status === "conflicting";
+    }
+
+    /**
+     * Is the status one where the transaction has been sent but not yet confirmed or failed.
+     * @param status The status to check.
+     * @returns True if the transaction is still in flight.
+     */
+    public static isInFlight(status: string): boolean {
+        return status === "pending" || status === "solid";
+    }
+
+    /**
+     * Is the status one which will not change again.
+     * @param status The status to check.
+     * @returns True if the status is final.
+     */
+    public static isFinal(status: string): boolean {
+        return status === "finalized" || status === "rejected";
+    }
+
+    /**
+     * Determine the next status for a transaction from its latest inclusion state.
+     * A transaction only moves forward through the progress statuses, it can fail at any point
+     * before it is final, and a conflicting transaction can still be resolved as confirmed.
+     * A transaction whose status is unknown takes the status of its outputs once they are seen.
+     * @param current The current status of the transaction.
+     * @param inclusionState The latest inclusion state of the transaction outputs.
+     * @returns The next status, which is the current status if there is no valid transition.
+     */
+    public static transition(current: string, inclusionState: IWalletOutputInclusionState): string {
+        if (InclusionStateHelper.isFinal(current)) {
+            return current;
+        }
+
+        const next = InclusionStateHelper.status(inclusionState);
+
+        if (InclusionStateHelper.isFailed(next)) {
+            return next;
+        }
+
+        const currentProgress = InclusionStateHelper.PROGRESS.indexOf(current);
+        const nextProgress = InclusionStateHelper.PROGRESS.indexOf(next);
+
+        if (current === "conflicting") {
+            // only a decisive state resolves a conflict
+            return nextProgress >= InclusionStateHelper.PROGRESS.indexOf("confirmed") ? next : current;
+        }
+
+        return nextProgress > currentProgress ? next : current;
+    }
+}
@@ -0,0 +1,108 @@
+import { Address } from "../iota/address";
+import { Colors } from "../iota/colors";
+import { IPaymentImportResult } from "../models/IPaymentImportResult";
+import { IWalletAsset } from "../models/IWalletAsset";
+
+/**
+ * Class to help with importing payments from CSV or TSV files.
+ */
+export class PaymentImportHelper {
+    /**
+     * Parse address,color,amount rows in to payments.
+     * @param content The CSV or TSV content.
+     * @param assets The assets to resolve colors, symbols and names against.
+     * @returns The payments and any errors in the rows.
+     */
+    public static parse(content: string, assets: IWalletAsset[]): IPaymentImportResult {
+        const result: IPaymentImportResult = {
+            options: {
+                destinations: {}
+            },
+            rowCount: 0,
+            errors: []
+        };
+
+        const lines = content.split(/\r?\n/);
+
+        for (let i = 0; i < lines.length; i++) {
+            const line = lines[i].trim();
+            if (line.length === 0 || line.startsWith("#")) {
+                continue;
+            }
+
+            const columns = line.split(line.includes("\t") ? "\t" : ",").map(c => c.trim().replace(/^"|"$/g, ""));
+
+            // skip a header row
+            if (result.rowCount === 0 && result.errors.length === 0 &&
+                columns[0].toLowerCase() === "address") {
+                continue;
+            }
+
+            const row = i + 1;
+            result.rowCount++;
+
+            if (columns.length !== 3) {
+                result.errors.push({ row, message: `Expected 3 columns but found ${columns.length}` });
+                continue;
+            }
+
+            const [address, colorOrSymbol, amount] = columns;
+
+            if (!Address.isValid(address)) {
+                result.errors.push({ row, message: `The address "${address}" is not valid` });
+                continue;
+            }
+
+            const color = PaymentImportHelper.resolveColor(colorOrSymbol, assets);
+            if (typeof color !== "string") {
+                result.errors.push({ row, message: color.error });
+                continue;
+            }
+
+            if (!/^\d+$/.test(amount) || BigInt(amount) <= 0) {
+                result.errors.push({ row, message: `The amount "${amount}" is not a positive whole number` });
+                continue;
+            }
+
+            const destination = result.options.destinations[address] ?? {};
+            destination[color] = (destination[color] ?? BigInt(0)) + BigInt(amount);
+            result.options.destinations[address] = destination;
+        }
+
+        return result;
+    }
+
+    /**
+     * Resolve the color column against the known assets.
+     * @param colorOrSymbol The color, symbol or name from the row.
+     * @param assets The assets to resolve against.
+     * @returns The color or an error.
+     */
+    private static resolveColor(colorOrSymbol: string, assets: IWalletAsset[]): string | {
+        /**
+         * The error message.
+         */
+        error: string;
+    } {
+        if (colorOrSymbol.toUpperCase() === Colors.IOTA_NAME || colorOrSymbol === Colors.IOTA_BASE58) {
+            return Colors.IOTA_NAME;
+        }
+
+        const byColor = assets.find(a => a.color === colorOrSymbol);
+        if (byColor) {
+            return byColor.color;
+        }
+
+        const lower = colorOrSymbol.toLowerCase();
+        const matches = assets.filter(a =>
+            (a.symbol.length > 0 && a.symbol.toLowerCase() === lower) || a.name.toLowerCase() === lower);
+
+        if (matches.length === 1) {
+            return matches[0].color;
+        }
+        if (matches.length > 1) {
+            return { error: `The asset "${colorOrSymbol}" matches more than one asset, use the color instead` };
+        }
+        return { error: `The asset "${colorOrSymbol}" is not in the wallet` };
+    }
+}
@@ -0,0 +1,53 @@
+import { ED25519 } from "../iota/crypto/ed25519";
+import { Seed } from "../iota/seed";
+import { ISignedMessage } from "../models/ISignedMessage";
+import { SignedMessageHelper } from "./signedMessageHelper";
+
+describe("SignedMessageHelper", () => {
+    const seed = Buffer.alloc(Seed.SEED_SIZE, 7);
+    const keyPair = Seed.generateKeyPair(seed, BigInt(0));
+    const address = Seed.generateAddress(seed, BigInt(0));
+
+    /**
+     * Sign data with the key pair of the address.
+     * @param message The message to include.
+     * @param data The data to sign.
+     * @returns The signed message.
+     */
+    function sign(message: string, data: Buffer): ISignedMessage {
+        return {
+            address,
+            message,
+            publicKey: keyPair.publicKey.toString("base64"),
+            signature: ED25519.privateSign(keyPair, data).toString("base64")
+        };
+    }
+
+    test("signingBytes puts the domain tag and byte length ahead of the message", () => {
+        expect(SignedMessageHelper.signingBytes("h\u00e9llo").toString("utf8"))
+            .toBe("IOTA Signed Message:\n6\nh\u00e9llo");
+        expect(SignedMessageHelper.signingBytes("").toString("utf8")).toBe("IOTA Signed Message:\n0\n");
+    });
+
+    test("verify accepts a message signed behind the domain tag", () => {
+        const message = "I own this address";
+
+        expect(() => SignedMessageHelper.verify(sign(message, SignedMessageHelper.signingBytes(message))))
+            .not.toThrow();
+    });
+
+    test("verify rejects a signature over the bare message", () => {
+        const message = "I own this address";
+
+        expect(() => SignedMessageHelper.verify(sign(message, Buffer.from(message, "utf8"))))
+            .toThrow("The signature does not match the message");
+    });
+
+    test("verify rejects a key which does not belong to the address", () => {
+        const message = "I own this address";
+        const signed = sign(message, SignedMessageHelper.signingBytes(message));
+        signed.address = Seed.generateAddress(seed, BigInt(1));
+
+        expect(() => SignedMessageHelper.verify(signed)).toThrow("The public key does not belong to the address");
+    });
+});
@@ -0,0 +1,76 @@
+import { Address } from "../iota/address";
+import { ED25519 } from "../iota/crypto/ed25519";
+import { ISignedMessage } from "../models/ISignedMessage";
+
+/**
+ * Class to help with signed messages.
+ */
+export class SignedMessageHelper {
+    /**
+     * The tag signed ahead of every message, so a message signature can never pass as a transaction signature.
+     */
+    public static readonly DOMAIN_TAG: string = "IOTA Signed Message:\n";
+
+    /**
+     * Get the bytes which are signed for a message, the domain tag and the byte length of the message
+     * followed by the message itself.
+     * @param message The message to sign.
+     * @returns The bytes to sign.
+     */
+    public static signingBytes(message: string): Buffer {
+        const body = Buffer.from(message, "utf8");
+        return Buffer.concat([Buffer.from(`${SignedMessageHelper.DOMAIN_TAG}${body.length}\n`, "utf8"), body]);
+    }
+
+    /**
+     * Parse an exported signed message.
+     * @param content The content to parse.
+     * @returns The signed message.
+     */
+    public static parse(content: string): ISignedMessage {
+        let signed: ISignedMessage;
+        try {
+            signed = JSON.parse(content.trim());
+        } catch {
+            throw new Error("The signed message is not valid JSON");
+        }
+
+        if (!signed ||
+            typeof signed.address !== "string" ||
+            typeof signed.message !== "string" ||
+            typeof signed.publicKey !== "string" ||
+            typeof signed.signature !== "string") {
+            throw new Error("The signed message must contain an address, message, public key and signature");
+        }
+
+        return {
+            address: signed.address,
+            message: signed.message,
+            publicKey: signed.publicKey,
+            signature: signed.signature
+        };
+    }
+
+    /**
+     * Verify that the public key belongs to the address and that it signed the message.
+     * @param signed The signed message to verify.
+     */
+    public static verify(signed: ISignedMessage): void {
+        if (!Address.isValid(signed.address)) {
+            throw new Error("The address is not valid");
+        }
+
+        const publicKey = Buffer.from(signed.publicKey, "base64");
+        if (publicKey.length !== ED25519.PUBLIC_KEY_SIZE) {
+            throw new Error("The public key is not valid");
+        }
+        if (Address.fromPublicKey(publicKey) !== signed.address) {
+            throw new Error("The public key does not belong to the address");
+        }
+
+        if (!ED25519.verify(
+            publicKey, SignedMessageHelper.signingBytes(signed.message), Buffer.from(signed.signature, "base64"))) {
+            throw new Error("The signature does not match the message");
+        }
+    }
+}
@@ -0,0 +1,40 @@
+import { UpdateIntervalHelper } from "./updateIntervalHelper";
+
+describe("UpdateIntervalHelper", () => {
+    test("backOff doubles the interval up to the maximum", () => {
+        expect(UpdateIntervalHelper.backOff(5000)).toBe(10000);
+        expect(UpdateIntervalHelper.backOff(10000)).toBe(20000);
+        expect(UpdateIntervalHelper.backOff(40000)).toBe(UpdateIntervalHelper.MAX_INTERVAL);
+        expect(UpdateIntervalHelper.backOff(UpdateIntervalHelper.MAX_INTERVAL)).toBe(UpdateIntervalHelper.MAX_INTERVAL);
+    });
+
+    test("backOff starts from the minimum for shorter intervals", () => {
+        expect(UpdateIntervalHelper.backOff(0)).toBe(10000);
+        expect(UpdateIntervalHelper.backOff(1000)).toBe(10000);
+    });
+
+    test("next polls at the minimum after a change", () => {
+        expect(UpdateIntervalHelper.next(40000, "changed", false)).toBe(UpdateIntervalHelper.MIN_INTERVAL);
+    });
+
+    test("next polls at the minimum while something is pending", () => {
+        expect(UpdateIntervalHelper.next(40000, "unchanged", true)).toBe(UpdateIntervalHelper.MIN_INTERVAL);
+        expect(UpdateIntervalHelper.next(5000, "unchanged", true)).toBe(UpdateIntervalHelper.MIN_INTERVAL);
+    });
+
+    test("next backs off when nothing changed", () => {
+        let interval = UpdateIntervalHelper.DEFAULT_INTERVAL;
+        const intervals: number[] = [];
+        for (let i = 0; i < 4; i++) {
+            interval = UpdateIntervalHelper.next(interval, "unchanged", false);
+            intervals.push(interval);
+        }
+
+        expect(intervals).toEqual([20000, 40000, 60000, 60000]);
+    });
+
+    test("next backs off after a failure even when something is pending", () => {
+        expect(UpdateIntervalHelper.next(5000, "failed", true)).toBe(10000);
+        expect(UpdateIntervalHelper.next(10000, "failed", false)).toBe(20000);
+    });
+});
@@ -0,0 +1,53 @@
+/**
+ * Class to help with choosing how often to poll for wallet updates.
+ */
+export class UpdateIntervalHelper {
+    /**
+     * The shortest interval, used while the wallet is waiting for a change.
+     */
+    public static readonly MIN_INTERVAL: number = 5000;
+
+    /**
+     * The interval to start at.
+     */
+    public static readonly DEFAULT_INTERVAL: number = 10000;
+
+    /**
+     * The longest interval, also used to reconcile with the node while the event stream is open.
+     */
+    public static readonly MAX_INTERVAL: number = 60000;
+
+    /**
+     * How much the interval grows after each poll with nothing new.
+     */
+    public static readonly BACKOFF_FACTOR: number = 2;
+
+    /**
+     * Get the interval before the next poll.
+     * @param interval The interval before the last poll.
+     * @param outcome Whether the last poll found changes, found nothing new or failed.
+     * @param isPending Is the wallet waiting for outputs or transactions to confirm.
+     * @returns The interval in milliseconds.
+     */
+    public static next(interval: number, outcome: "changed" | "unchanged" | "failed", isPending: boolean): number {
+        // a failing node is left alone for longer even when something is pending
+        if (outcome === "failed") {
+            return UpdateIntervalHelper.backOff(interval);
+        }
+        if (outcome === "changed" || isPending) {
+            return UpdateIntervalHelper.MIN_INTERVAL;
+        }
+        return UpdateIntervalHelper.backOff(interval);
+    }
+
+    /**
+     * Increase an interval up to the maximum.
+     * @param interval The interval to increase.
+     * @returns The increased interval.
+     */
+    public static backOff(interval: number): number {
+        return Math.min(
+            Math.max(interval, UpdateIntervalHelper.MIN_INTERVAL) * UpdateIntervalHelper.BACKOFF_FACTOR,
+            UpdateIntervalHelper.MAX_INTERVAL);
+    }
+}
@@ -0,0 +1,57 @@
+import { Address } from "../iota/address";
+import { IWatchAddress } from "../models/IWatchAddress";
+
+/**
+ * Class to help with importing addresses to watch.
+ */
+export class WatchAddressHelper {
+    /**
+     * Parse an exported address list, or plain text with one address per line.
+     * @param content The content to parse.
+     * @returns The addresses to watch.
+     */
+    public static parse(content: string): IWatchAddress[] {
+        const trimmed = content.trim();
+
+        if (trimmed.startsWith("[")) {
+            let exported: unknown;
+            try {
+                exported = JSON.parse(trimmed);
+            } catch {
+                throw new Error("The address export is not valid JSON");
+            }
+
+            if (!Array.isArray(exported)) {
+                throw new Error("The address export must be a list of addresses");
+            }
+
+            return exported.map((entry: IWatchAddress, idx) => {
+                if (!entry || typeof entry.address !== "string" || !Address.isValid(entry.address)) {
+                    throw new Error(`Entry ${idx + 1} does not contain a valid address`);
+                }
+                if (entry.index !== undefined && (!Number.isInteger(entry.index) || entry.index < 0)) {
+                    throw new Error(`Entry ${idx + 1} does not contain a valid index`);
+                }
+                return {
+                    address: entry.address,
+                    index: entry.index
+                };
+            });
+        }
+
+        const addresses: IWatchAddress[] = [];
+        const lines = trimmed.split(/\r?\n/);
+        for (let i = 0; i < lines.length; i++) {
+            const address = lines[i].trim();
+            if (address.length === 0 || address.startsWith("#")) {
+                continue;
+            }
+            if (!Address.isValid(address)) {
+                throw new Error(`Line ${i + 1} does not contain a valid address`);
+            }
+            addresses.push({ address });
+        }
+
+        return addresses;
+    }
+}
@@ -0,0 +1,44 @@
+import { blake2b } from "blakejs";
+import { Base58 } from "./crypto/base58";
+import { ED25519 } from "./crypto/ed25519";
+
+/**
+ * Class to help with addresses.
+ */
+export class Address {
+    /**
+     * The size of an address in bytes, the version byte followed by the public key digest.
+     */
+    public static SIZE: number = 33;
+
+    /**
+     * Is the string a valid address.
+     * @param address The address to check.
+     * @returns True if the address is valid.
+     */
+    public static isValid(address?: string): boolean {
+        if (!address) {
+            return false;
+        }
+        if (!Base58.isValid(address)) {
+            return false;
+        }
+        const bytes = Base58.decode(address);
+        return bytes.length === Address.SIZE && bytes[0] === ED25519.VERSION;
+    }
+
+    /**
+     * Generate the address for a public key.
+     * @param publicKey The public key.
+     * @returns The address.
+     */
+    public static fromPublicKey(publicKey: Buffer): string {
+        const digest = blake2b(publicKey, undefined, 32);
+
+        const buffer = Buffer.alloc(Address.SIZE);
+        buffer[0] = ED25519.VERSION;
+        Buffer.from(digest).copy(buffer, 1);
+
+        return Base58.encode(buffer);
+    }
+}
@@ -0,0 +1,76 @@
+import { blake2b } from "blakejs";
+import { ICryptoService } from "../models/services/ICryptoService";
+
+/**
+ * Class to cache the addresses derived from seeds.
+ */
+export class AddressCache {
+    /**
+     * The service to derive the addresses with.
+     */
+    private readonly _cryptoService: ICryptoService;
+
+    /**
+     * The derived addresses by seed fingerprint, in index order.
+     */
+    private _addresses: { [fingerprint: string]: string[] };
+
+    /**
+     * Create a new instance of AddressCache.
+     * @param cryptoService The service to derive the addresses with.
+     */
+    constructor(cryptoService: ICryptoService) {
+        this._cryptoService = cryptoService;
+        this._addresses = {};
+    }
+
+    /**
+     * Get the fingerprint of a seed, which identifies it without revealing it.
+     * @param seed The seed.
+     * @returns The fingerprint.
+     */
+    public static fingerprint(seed: Buffer): string {
+        return Buffer.from(blake2b(seed, undefined, 16)).toString("hex");
+    }
+
+    /**
+     * Get the address for a seed index, deriving any missing addresses up to it.
+     * @param seed The seed.
+     * @param index The index of the address.
+     * @returns The address.
+     */
+    public async getAddress(seed: Buffer, index: number): Promise<string> {
+        const addresses = await this.getAddresses(seed, index + 1);
+        return addresses[index];
+    }
+
+    /**
+     * Get the addresses for the first indexes of a seed, only indexes not already cached are derived.
+     * @param seed The seed.
+     * @param count The number of addresses.
+     * @returns The addresses in index order, the cache may hold more than requested.
+     */
+    public async getAddresses(seed: Buffer, count: number): Promise<string[]> {
+        const fingerprint = AddressCache.fingerprint(seed);
+        const addresses = this._addresses[fingerprint] ?? [];
+        this._addresses[fingerprint] = addresses;
+
+        const startIndex = addresses.length;
+        if (startIndex < count) {
+            const derived = await this._cryptoService.deriveAddresses(seed, startIndex, count - startIndex);
+            // concurrent requests derive the same addresses so they can be assigned by index
+            for (let i = 0; i < derived.length; i++) {
+                addresses[startIndex + i] = derived[i];
+            }
+        }
+
+        return addresses;
+    }
+
+    /**
+     * Clear the cache.
+     */
+    public clear(): void {
+        this._addresses = {};
+    }
+}
@@ -0,0 +1,132 @@
+import { AddressInfo } from "net";
+import WS from "ws";
+import { EventStreamClient } from "./eventStreamClient";
+import { IEventStreamEvent } from "./models/IEventStreamEvent";
+
+/**
+ * Wait until a condition is met.
+ * @param condition The condition to wait for.
+ * @returns Resolves when the condition is met.
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > 5000) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await new Promise(resolve => setTimeout(resolve, 10));
+    }
+}
+
+describe("EventStreamClient", () => {
+    let server: WS.Server;
+    let sockets: WS[];
+    let received: unknown[];
+    let client: EventStreamClient;
+
+    beforeEach(async () => {
+        sockets = [];
+        received = [];
+        await new Promise(resolve => {
+            server = new WS.Server({ host: "127.0.0.1", port: 0 }, resolve);
+        });
+        server.on("connection", socket => {
+            sockets.push(socket);
+            socket.on("message", data => received.push(JSON.parse(String(data))));
+        });
+        client = new EventStreamClient(`http://127.0.0.1:${(server.address() as AddressInfo).port}`);
+    });
+
+    afterEach(async () => {
+        client.close();
+        await new Promise(resolve => server.close(resolve));
+    });
+
+    test("is supported where there is a WebSocket", () => {
+        expect(EventStreamClient.isSupported()).toBe(true);
+    });
+
+    test("sends the subscription when the stream opens", async () => {
+        client.subscribe(["addr1", "addr2"]);
+        expect(client.isConnected()).toBe(false);
+
+        await client.connect(() => undefined, () => undefined);
+
+        expect(client.isConnected()).toBe(true);
+        await waitFor(() => received.length === 1);
+        expect(received).toEqual([{ type: "subscribe", addresses: ["addr1", "addr2"] }]);
+    });
+
+    test("sends the subscription again only when the addresses change", async () => {
+        await client.connect(() => undefined, () => undefined);
+        await waitFor(() => received.length === 1);
+
+        client.subscribe(["addr1"]);
+        client.subscribe(["addr1"]);
+        client.subscribe(["addr1", "addr2"]);
+
+        await waitFor(() => received.length === 3);
+        expect(received).toEqual([
+            { type: "subscribe", addresses: [] },
+            { type: "subscribe", addresses: ["addr1"] },
+            { type: "subscribe", addresses: ["addr1", "addr2"] }
+        ]);
+    });
+
+    test("passes on address events and ignores other messages", async () => {
+        const events: IEventStreamEvent[] = [];
+        const error = jest.spyOn(console, "error").mockImplementation(() => undefined);
+        await client.connect(event => events.push(event), () => undefined);
+        await waitFor(() => sockets.length === 1);
+
+        sockets[0].send("not json");
+        sockets[0].send(JSON.stringify({ type: "milestone", address: "addr1" }));
+        sockets[0].send(JSON.stringify({ type: "output" }));
+        sockets[0].send(JSON.stringify({ type: "output", address: "addr1", transactionId: "tx1" }));
+        sockets[0].send(JSON.stringify({ type: "inclusion-state", address: "addr2" }));
+
+        await waitFor(() => events.length === 2);
+        expect(events).toEqual([
+            { type: "output", address: "addr1", transactionId: "tx1" },
+            { type: "inclusion-state", address: "addr2" }
+        ]);
+        expect(error).toHaveBeenCalledTimes(1);
+        error.mockRestore();
+    });
+
+    test("reports the node closing an open stream", async () => {
+        let closeCount = 0;
+        await client.connect(() => undefined, () => closeCount++);
+        await waitFor(() => sockets.length === 1);
+
+        sockets[0].close();
+
+        await waitFor(() => closeCount === 1);
+        expect(client.isConnected()).toBe(false);
+    });
+
+    test("does not report a close it was asked for", async () => {
+        let closeCount = 0;
+        await client.connect(() => undefined, () => closeCount++);
+        await waitFor(() => sockets.length === 1);
+        const serverClosed = new Promise(resolve => sockets[0].on("close", resolve));
+
+        client.close();
+
+        await serverClosed;
+        expect(closeCount).toBe(0);
+        expect(client.isConnected()).toBe(false);
+    });
+
+    test("rejects when the stream can not be opened", async () => {
+        await new Promise(resolve => server.close(resolve));
+        let closeCount = 0;
+
+        await expect(client.connect(() => undefined, () => closeCount++)).rejects.toThrow("is not available");
+        expect(closeCount).toBe(0);
+
+        await new Promise(resolve => {
+            server = new WS.Server({ host: "127.0.0.1", port: 0 }, resolve);
+        });
+    });
+});
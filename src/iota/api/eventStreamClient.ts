@@ -0,0 +1,156 @@
+import { IEventStreamEvent } from "./models/IEventStreamEvent";
+import { IEventStreamSubscribeRequest } from "./models/IEventStreamSubscribeRequest";
+
+/**
+ * Class to receive address events pushed from the node over a WebSocket.
+ */
+export class EventStreamClient {
+    /**
+     * The path of the event stream relative to the API endpoint.
+     */
+    public static readonly PATH: string = "events";
+
+    /**
+     * The end point of the event stream.
+     */
+    private readonly _endpoint: string;
+
+    /**
+     * The addresses subscribed to.
+     */
+    private _addresses: string[];
+
+    /**
+     * The socket for the current connection.
+     */
+    private _socket?: WebSocket;
+
+    /**
+     * Create a new instance of EventStreamClient.
+     * @param apiEndpoint The endpoint of the API, the stream is served from the same host.
+     */
+    constructor(apiEndpoint: string) {
+        this._endpoint = `${apiEndpoint.replace(/^http/i, "ws")}/${EventStreamClient.PATH}`;
+        this._addresses = [];
+    }
+
+    /**
+     * Can event streams be used in this environment.
+     * @returns True if WebSockets are available.
+     */
+    public static isSupported(): boolean {
+        return typeof WebSocket !== "undefined";
+    }
+
+    /**
+     * Open the event stream.
+     * @param onEvent Callback for each event received.
+     * @param onClose Callback when an open stream is closed by the node or the network.
+     * @returns Resolves when the stream is open, rejects if it could not be opened.
+     */
+    public async connect(onEvent: (event: IEventStreamEvent) => void, onClose: () => void): Promise<void> {
+        this.close();
+
+        return new Promise<void>((resolve, reject) => {
+            const socket = new WebSocket(this._endpoint);
+            let isOpen = false;
+            this._socket = socket;
+
+            socket.addEventListener("open", () => {
+                isOpen = true;
+                if (this._socket === socket) {
+                    this.sendSubscribe();
+                }
+                resolve();
+            });
+
+            socket.addEventListener("message", e => {
+                const event = this.parseEvent(e.data);
+                if (event && this._socket === socket) {
+                    onEvent(event);
+                }
+            });
+
+            // an error is always followed by a close so that is the only place it is handled
+            socket.addEventListener("close", () => {
+                const isCurrent = this._socket === socket;
+                if (isCurrent) {
+                    this._socket = undefined;
+                }
+                if (!isOpen) {
+                    reject(new Error(`The event stream ${this._endpoint} is not available`));
+                } else if (isCurrent) {
+                    onClose();
+                }
+            });
+        });
+    }
+
+    /**
+     * Set the addresses to receive events for.
+     * @param addresses The addresses.
+     */
+    public subscribe(addresses: string[]): void {
+        const isChanged = addresses.length !== this._addresses.length ||
+            addresses.some((a, i) => a !== this._addresses[i]);
+
+        if (isChanged) {
+            this._addresses = addresses.slice();
+            this.sendSubscribe();
+        }
+    }
+
+    /**
+     * Is the stream open.
+     * @returns True if the stream is open.
+     */
+    public isConnected(): boolean {
+        return this._socket !== undefined && this._socket.readyState === WebSocket.OPEN;
+    }
+
+    /**
+     * Close the stream, the close callback is not called.
+     */
+    public close(): void {
+        const socket = this._socket;
+        this._socket = undefined;
+        if (socket) {
+            socket.close();
+        }
+    }
+
+    /**
+     * Send the subscription if the stream is open.
+     */
+    private sendSubscribe(): void {
+        if (this._socket && this.isConnected()) {
+            const request: IEventStreamSubscribeRequest = {
+                type: "subscribe",
+                addresses: this._addresses
+            };
+            this._socket.send(JSON.stringify(request));
+        }
+    }
+
+    /**
+     * Parse a message from the stream, anything which is not an address event is ignored.
+     * @param data The message data.
+     * @returns The event if the message was one.
+     */
+    private parseEvent(data: unknown): IEventStreamEvent | undefined {
+        if (typeof data !== "string") {
+            return;
+        }
+
+        try {
+            const event = JSON.parse(data) as IEventStreamEvent;
+            if (event &&
+                (event.type === "output" || event.type === "inclusion-state") &&
+                typeof event.address === "string") {
+                return event;
+            }
+        } catch {
+            console.error("The event stream sent a message which is not JSON");
+        }
+    }
+}
@@ -0,0 +1,16 @@
+export interface IEventStreamEvent {
+    /**
+     * The type of the event, an output arrived on an address or the inclusion state of an output changed.
+     */
+    type: "output" | "inclusion-state";
+
+    /**
+     * The address the event is for.
+     */
+    address: string;
+
+    /**
+     * The transaction which created the output.
+     */
+    transactionId?: string;
+}
@@ -0,0 +1,11 @@
+export interface IEventStreamSubscribeRequest {
+    /**
+     * The type of the request.
+     */
+    type: "subscribe";
+
+    /**
+     * The addresses to receive events for, replacing any previous subscription.
+     */
+    addresses: string[];
+}
@@ -43,4 +43,18 @@ export class ED25519 {
     public static privateSign(keyPair: IKeyPair, buffer: Buffer): Buffer {
         return Buffer.from(nacl.sign.detached(buffer, keyPair.secretKey));
     }
+
+    /**
+     * Verify the signature of the data.
+     * @param publicKey The public key of the signer.
+     * @param buffer The data which was signed.
+     * @param signature The signature to verify.
+     * @returns True if the signature is valid.
+     */
+    public static verify(publicKey: Buffer, buffer: Buffer, signature: Buffer): boolean {
+        if (publicKey.length !== ED25519.PUBLIC_KEY_SIZE || signature.length !== ED25519.SIGNATURE_SIZE) {
+            return false;
+        }
+        return nacl.sign.detached.verify(buffer, signature, publicKey);
+    }
 }
@@ -0,0 +1,49 @@
+import { ITransaction } from "./ITransaction";
+
+export interface IDecodedTransaction {
+    /**
+     * The essence of the transaction, the data which is signed.
+     */
+    essence: Buffer;
+
+    /**
+     * The ids of the outputs consumed.
+     */
+    inputs: ITransaction["inputs"];
+
+    /**
+     * The outputs created.
+     */
+    outputs: ITransaction["outputs"];
+
+    /**
+     * The data payload, if there is one.
+     */
+    dataPayload?: Buffer;
+
+    /**
+     * The signature blocks in the order they appear.
+     */
+    signatures: {
+        /**
+         * The version of the signature scheme.
+         */
+        version: number;
+        /**
+         * Public key of the key pair that generated the signature.
+         */
+        publicKey: Buffer;
+        /**
+         * The signature.
+         */
+        signature: Buffer;
+        /**
+         * The address of the public key.
+         */
+        address: string;
+        /**
+         * Is the signature valid for the essence.
+         */
+        isValid: boolean;
+    }[];
+}
@@ -1,5 +1,3 @@
-import { IKeyPair } from "./IKeyPair";
-
 export interface ITransaction {
     /**
      * The inputs to send.
@@ -22,15 +20,20 @@ export interface ITransaction {
         }[];
     };
 
+    /**
+     * Optional data to carry with the transaction.
+     */
+    dataPayload?: Buffer;
+
     /**
      * The signatures to send.
      */
     signatures: {
         [address: string]: {
             /**
-             * Key pair that generated the signature.
+             * Public key of the key pair that generated the signature.
              */
-            keyPair: IKeyPair;
+            publicKey: Buffer;
             /**
              * The signature.
              */
@@ -1,5 +1,7 @@
+import { entropyToMnemonic, mnemonicToEntropy, wordlists } from "bip39";
 import { blake2b } from "blakejs";
 import { randomBytes } from "crypto";
+import { Address } from "./address";
 import { Base58 } from "./crypto/base58";
 import { ED25519 } from "./crypto/ed25519";
 import { IKeyPair} from "./models/IKeyPair";
@@ -13,6 +15,11 @@ export class Seed {
      */
     public static SEED_SIZE: number = 32;
 
+    /**
+     * The number of words in a mnemonic for a seed, 256 bits of seed and 8 bits of checksum in 11 bit words.
+     */
+    public static MNEMONIC_WORD_COUNT: number = 24;
+
     /**
      * Generate a new seed.
      * @returns The random seed.
@@ -51,6 +58,67 @@ export class Seed {
         return Base58.decode(seed).length === Seed.SEED_SIZE;
     }
 
+    /**
+     * Encode the seed as a mnemonic using the BIP39 english word list.
+     * @param seed The seed to encode.
+     * @returns The mnemonic words separated by spaces.
+     */
+    public static toMnemonic(seed: Buffer): string {
+        if (seed.length !== Seed.SEED_SIZE) {
+            throw new Error(`The seed must be ${Seed.SEED_SIZE} bytes long`);
+        }
+        return entropyToMnemonic(seed, wordlists.english);
+    }
+
+    /**
+     * Decode a mnemonic to a seed.
+     * @param mnemonic The mnemonic to decode.
+     * @returns The seed.
+     */
+    public static fromMnemonic(mnemonic: string): Buffer {
+        const words = Seed.splitMnemonic(mnemonic);
+
+        if (words.length !== Seed.MNEMONIC_WORD_COUNT) {
+            throw new Error(
+                `The mnemonic must contain ${Seed.MNEMONIC_WORD_COUNT} words, it contains ${words.length}`);
+        }
+
+        const wordList = wordlists.english;
+        for (let i = 0; i < words.length; i++) {
+            if (!wordList.includes(words[i])) {
+                const suggestions = wordList.filter(w => w.startsWith(words[i].slice(0, 4)));
+                let message = `Word ${i + 1} "${words[i]}" is not in the word list`;
+                if (suggestions.length > 0 && words[i].length >= 4) {
+                    message += `, did you mean "${suggestions.join('" or "')}"`;
+                }
+                throw new Error(message);
+            }
+        }
+
+        try {
+            return Buffer.from(mnemonicToEntropy(words.join(" "), wordList), "hex");
+        } catch {
+            throw new Error("The mnemonic checksum is invalid, please check the words and their order");
+        }
+    }
+
+    /**
+     * Is the string a valid mnemonic.
+     * @param mnemonic The mnemonic to check.
+     * @returns True if the mnemonic is valid.
+     */
+    public static isValidMnemonic(mnemonic?: string): boolean {
+        if (!mnemonic) {
+            return false;
+        }
+        try {
+            Seed.fromMnemonic(mnemonic);
+            return true;
+        } catch {
+            return false;
+        }
+    }
+
     /**
      * Generate a key pair for the seed index.
      * @param seed The seed.
@@ -71,13 +139,20 @@ export class Seed {
     public static generateAddress(seed: Buffer, index: bigint): string {
         const { publicKey } = Seed.generateKeyPair(seed, index);
 
-        const digest = blake2b(publicKey, undefined, 32);
-
-        const buffer = Buffer.alloc(Seed.SEED_SIZE + 1);
-        buffer[0] = ED25519.VERSION;
-        Buffer.from(digest).copy(buffer, 1);
+        return Address.fromPublicKey(publicKey);
+    }
 
-        return Base58.encode(buffer);
+    /**
+     * Split the mnemonic into normalized words.
+     * @param mnemonic The mnemonic to split.
+     * @returns The words.
+     */
+    private static splitMnemonic(mnemonic: string): string[] {
+        return mnemonic
+            .normalize("NFKD")
+            .toLowerCase()
+            .split(/\s+/)
+            .filter(w => w.length > 0);
     }
 
     /**
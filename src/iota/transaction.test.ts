@@ -0,0 +1,120 @@
+import { Colors } from "./colors";
+import { Base58 } from "./crypto/base58";
+import { ED25519 } from "./crypto/ed25519";
+import { ITransaction } from "./models/ITransaction";
+import { Seed } from "./seed";
+import { Transaction } from "./transaction";
+
+describe("Transaction", () => {
+    const seed = Buffer.alloc(Seed.SEED_SIZE, 7);
+    const keyPairs = [Seed.generateKeyPair(seed, BigInt(0)), Seed.generateKeyPair(seed, BigInt(1))];
+    const addresses = [0, 1, 2, 3].map(i => Seed.generateAddress(seed, BigInt(i)));
+    const color = Base58.encode(Buffer.alloc(Colors.SIZE, 9));
+
+    /**
+     * Build a signed transaction spending from the first two addresses.
+     * @returns The transaction.
+     */
+    function build(): ITransaction {
+        const tx: ITransaction = {
+            inputs: [0, 1].map(i => Base58.encode(Buffer.concat([
+                Base58.decode(addresses[i]),
+                Buffer.alloc(Transaction.ID_SIZE, i + 1)
+            ]))),
+            outputs: {
+                [addresses[2]]: [
+                    { color: Colors.IOTA_NAME, value: BigInt(1000) },
+                    { color, value: BigInt(5) }
+                ],
+                [addresses[3]]: [
+                    { color: Colors.IOTA_NAME, value: BigInt("18446744073709551615") }
+                ]
+            },
+            dataPayload: Buffer.from("pollen"),
+            signatures: {}
+        };
+
+        const essence = Transaction.essence(tx);
+        for (let i = 0; i < keyPairs.length; i++) {
+            tx.signatures[addresses[i]] = {
+                publicKey: keyPairs[i].publicKey,
+                signature: Transaction.sign(keyPairs[i], essence)
+            };
+        }
+
+        return tx;
+    }
+
+    test("idFromOutputId returns the transaction part of an output id", () => {
+        const transactionId = Base58.encode(Buffer.alloc(Transaction.ID_SIZE, 5));
+        const outputId = Base58.encode(Buffer.concat([Base58.decode(addresses[0]), Base58.decode(transactionId)]));
+
+        expect(Transaction.idFromOutputId(outputId)).toBe(transactionId);
+        expect(Transaction.idFromOutputId(transactionId)).toBe(transactionId);
+    });
+
+    test("decode returns the transaction which was encoded", () => {
+        const tx = build();
+
+        const decoded = Transaction.decode(Transaction.bytes(tx));
+
+        expect(decoded.essence.equals(Transaction.essence(tx))).toBe(true);
+        expect(decoded.inputs).toEqual(tx.inputs);
+        expect(decoded.outputs).toEqual(tx.outputs);
+        expect(decoded.dataPayload?.toString()).toBe("pollen");
+        expect(decoded.signatures.map(s => s.address)).toEqual([addresses[0], addresses[1]]);
+        for (const signature of decoded.signatures) {
+            expect(signature.version).toBe(ED25519.VERSION);
+            expect(signature.publicKey.equals(tx.signatures[signature.address].publicKey)).toBe(true);
+            expect(signature.signature.equals(tx.signatures[signature.address].signature)).toBe(true);
+            expect(signature.isValid).toBe(true);
+        }
+    });
+
+    test("decode round trips a transaction without a data payload or signatures", () => {
+        const tx = build();
+        delete tx.dataPayload;
+        tx.signatures = {};
+
+        const bytes = Transaction.bytes(tx);
+        const decoded = Transaction.decode(bytes);
+
+        expect(decoded.dataPayload).toBeUndefined();
+        expect(decoded.signatures).toEqual([]);
+        expect(Transaction.bytes({ ...decoded, signatures: {} }).equals(bytes)).toBe(true);
+    });
+
+    test("decode marks a signature over different data as invalid", () => {
+        const tx = build();
+        tx.signatures[addresses[1]].signature = Transaction.sign(keyPairs[1], Buffer.from("other"));
+
+        const decoded = Transaction.decode(Transaction.bytes(tx));
+
+        expect(decoded.signatures.map(s => s.isValid)).toEqual([true, false]);
+    });
+
+    test("decode fails on truncated bytes", () => {
+        const bytes = Transaction.bytes(build());
+
+        expect(() => Transaction.decode(bytes.slice(0, bytes.length - 1)))
+            .toThrow("The transaction bytes end unexpectedly");
+        expect(() => Transaction.decode(bytes.slice(0, 10)))
+            .toThrow("The transaction bytes end unexpectedly at offset 4");
+    });
+
+    test("decode fails on an unknown signature version", () => {
+        const tx = build();
+        const essence = Transaction.essence(tx);
+        const bytes = Transaction.bytes(tx, essence);
+        bytes[essence.length] = 2;
+
+        expect(() => Transaction.decode(bytes))
+            .toThrow(`Unsupported signature version 2 at offset ${essence.length}`);
+    });
+
+    test("decode fails on bytes after the signatures", () => {
+        const bytes = Buffer.concat([Transaction.bytes(build()), Buffer.from([0, 0, 0])]);
+
+        expect(() => Transaction.decode(bytes)).toThrow("There are 3 unexpected bytes after the signatures");
+    });
+});
@@ -1,6 +1,8 @@
+import { Address } from "./address";
 import { Colors } from "./colors";
 import { Base58 } from "./crypto/base58";
 import { ED25519 } from "./crypto/ed25519";
+import { IDecodedTransaction } from "./models/IDecodedTransaction";
 import { IKeyPair } from "./models/IKeyPair";
 import { ITransaction } from "./models/ITransaction";
 
@@ -8,6 +10,42 @@ import { ITransaction } from "./models/ITransaction";
  * Class to help with transactions.
  */
 export class Transaction {
+    /**
+     * The size of a transaction id in bytes.
+     */
+    public static ID_SIZE: number = 32;
+
+    /**
+     * The size of an output id in bytes, the address followed by the id of the transaction which created it.
+     */
+    public static OUTPUT_ID_SIZE: number = Address.SIZE + Transaction.ID_SIZE;
+
+    /**
+     * The maximum number of inputs in a transaction.
+     */
+    public static MAX_INPUTS: number = 127;
+
+    /**
+     * The maximum number of outputs in a transaction.
+     */
+    public static MAX_OUTPUTS: number = 127;
+
+    /**
+     * The maximum size of the data payload in bytes.
+     */
+    public static MAX_DATA_PAYLOAD_SIZE: number = 1024;
+
+    /**
+     * Get the id of the transaction which created an output.
+     * @param outputId The base58 id of the output.
+     * @returns The base58 transaction id, an id which is not an output id is returned unchanged.
+     */
+    public static idFromOutputId(outputId: string): string {
+        const bytes = Base58.decode(outputId);
+        return bytes.length === Transaction.OUTPUT_ID_SIZE
+            ? Base58.encode(bytes.slice(Address.SIZE)) : outputId;
+    }
+
     /**
      * Sign a transaction.
      * @param keyPair The key pair to sign with.
@@ -59,9 +97,14 @@ export class Transaction {
 
         // dataPayload size
         const dataPayloadSize = Buffer.alloc(4);
-        dataPayloadSize.writeUInt32LE(0);
+        dataPayloadSize.writeUInt32LE(tx.dataPayload ? tx.dataPayload.length : 0);
         buffers.push(dataPayloadSize);
 
+        // dataPayload
+        if (tx.dataPayload) {
+            buffers.push(tx.dataPayload);
+        }
+
         return Buffer.concat(buffers);
     }
 
@@ -80,7 +123,7 @@ export class Transaction {
             const sigBuffer = Buffer.alloc(1);
             sigBuffer.writeUInt8(ED25519.VERSION);
             buffers.push(sigBuffer);
-            buffers.push(tx.signatures[address].keyPair.publicKey);
+            buffers.push(tx.signatures[address].publicKey);
             buffers.push(tx.signatures[address].signature);
         }
 
@@ -89,4 +132,85 @@ export class Transaction {
 
         return Buffer.concat(buffers);
     }
+
+    /**
+     * Decode the bytes of a transaction, the inverse of bytes.
+     * @param bytes The bytes of the transaction.
+     * @returns The decoded transaction with each signature verified against the essence.
+     */
+    public static decode(bytes: Buffer): IDecodedTransaction {
+        let offset = 0;
+        const read = (length: number): Buffer => {
+            if (offset + length > bytes.length) {
+                throw new Error(`The transaction bytes end unexpectedly at offset ${offset}`);
+            }
+            const slice = bytes.slice(offset, offset + length);
+            offset += length;
+            return slice;
+        };
+
+        // Inputs
+        const inputsSize = read(4).readUInt32LE();
+        const inputs: string[] = [];
+        for (let i = 0; i < inputsSize; i++) {
+            inputs.push(Base58.encode(read(Transaction.OUTPUT_ID_SIZE)));
+        }
+
+        // Outputs
+        const outputsSize = read(4).readUInt32LE();
+        const outputs: IDecodedTransaction["outputs"] = {};
+        for (let i = 0; i < outputsSize; i++) {
+            const address = Base58.encode(read(Address.SIZE));
+            const balancesSize = read(4).readUInt32LE();
+
+            outputs[address] = [];
+            for (let j = 0; j < balancesSize; j++) {
+                const value = read(8).readBigUInt64LE();
+                const color = read(Colors.SIZE);
+                outputs[address].push({
+                    color: color.equals(Colors.IOTA_BUFFER) ? Colors.IOTA_NAME : Base58.encode(color),
+                    value
+                });
+            }
+        }
+
+        // dataPayload
+        const dataPayloadSize = read(4).readUInt32LE();
+        const dataPayload = dataPayloadSize > 0 ? read(dataPayloadSize) : undefined;
+
+        const essence = bytes.slice(0, offset);
+
+        // Signatures, terminated by a 0 version
+        const signatures: IDecodedTransaction["signatures"] = [];
+        let version = read(1).readUInt8();
+        while (version !== 0) {
+            if (version !== ED25519.VERSION) {
+                throw new Error(`Unsupported signature version ${version} at offset ${offset - 1}`);
+            }
+            const publicKey = read(ED25519.PUBLIC_KEY_SIZE);
+            const signature = read(ED25519.SIGNATURE_SIZE);
+
+            signatures.push({
+                version,
+                publicKey,
+                signature,
+                address: Address.fromPublicKey(publicKey),
+                isValid: ED25519.verify(publicKey, essence, signature)
+            });
+
+            version = read(1).readUInt8();
+        }
+
+        if (offset !== bytes.length) {
+            throw new Error(`There are ${bytes.length - offset} unexpected bytes after the signatures`);
+        }
+
+        return {
+            essence,
+            inputs,
+            outputs,
+            dataPayload,
+            signatures
+        };
+    }
 }
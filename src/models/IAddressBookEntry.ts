@@ -0,0 +1,26 @@
+export interface IAddressBookEntry {
+    /**
+     * The id of the entry.
+     */
+    id: string;
+
+    /**
+     * The name of the recipient.
+     */
+    name: string;
+
+    /**
+     * The address of the recipient.
+     */
+    address: string;
+
+    /**
+     * A note about the recipient.
+     */
+    note?: string;
+
+    /**
+     * The color of the asset usually sent to the recipient.
+     */
+    defaultColor?: string;
+}
@@ -0,0 +1,21 @@
+export interface IAddressDiscoveryOptions {
+    /**
+     * The number of consecutive unused addresses after the last used one before the scan stops.
+     */
+    gapLimit: number;
+
+    /**
+     * The number of addresses requested from the node at a time.
+     */
+    batchSize: number;
+
+    /**
+     * The highest index which will be scanned.
+     */
+    maxIndex: number;
+
+    /**
+     * Every index up to this one is scanned whatever the gap, used for addresses the wallet already knows.
+     */
+    scanToIndex: number;
+}
@@ -0,0 +1,23 @@
+import { IWalletAddressOutput } from "./IWalletAddressOutput";
+
+export interface IAddressDiscoveryResult {
+    /**
+     * The outputs of the addresses which have any.
+     */
+    outputs: IWalletAddressOutput[];
+
+    /**
+     * The highest index with outputs, -1 if there are none.
+     */
+    lastUsedIndex: number;
+
+    /**
+     * The number of addresses scanned.
+     */
+    scannedCount: number;
+
+    /**
+     * Did the scan stop at the maximum index rather than the gap limit.
+     */
+    isMaxIndexReached: boolean;
+}
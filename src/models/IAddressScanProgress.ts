@@ -0,0 +1,11 @@
+export interface IAddressScanProgress {
+    /**
+     * The number of addresses scanned so far.
+     */
+    scannedCount: number;
+
+    /**
+     * The number of scanned addresses which have outputs.
+     */
+    usedCount: number;
+}
@@ -0,0 +1,28 @@
+import { IWalletOutput } from "./IWalletOutput";
+
+export interface ICoinSelectionCandidate {
+    /**
+     * The address holding the outputs.
+     */
+    address: string;
+
+    /**
+     * The outputs which are consumed together if the candidate is selected.
+     */
+    outputs: IWalletOutput[];
+
+    /**
+     * The total balances of the outputs by color.
+     */
+    balances: { [color: string]: bigint };
+
+    /**
+     * The position of the candidate in the ledger order.
+     */
+    order: number;
+
+    /**
+     * The time the oldest output was received in ms, if it is known.
+     */
+    created?: number;
+}
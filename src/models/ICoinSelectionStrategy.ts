@@ -0,0 +1,23 @@
+import { ICoinSelectionCandidate } from "./ICoinSelectionCandidate";
+
+export interface ICoinSelectionStrategy {
+    /**
+     * The id of the strategy.
+     */
+    id: string;
+
+    /**
+     * The name to display for the strategy.
+     */
+    name: string;
+
+    /**
+     * Select the candidates to consume for the required funds.
+     * @param candidates The candidates in ledger order.
+     * @param requiredFunds The funds required by color.
+     * @returns The selected candidates, which may not cover the funds if there are not enough.
+     */
+    select(
+        candidates: ICoinSelectionCandidate[],
+        requiredFunds: { [color: string]: bigint }): ICoinSelectionCandidate[];
+}
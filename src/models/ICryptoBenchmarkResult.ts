@@ -0,0 +1,26 @@
+export interface ICryptoBenchmarkResult {
+    /**
+     * The name of the crypto service which was measured.
+     */
+    name: string;
+
+    /**
+     * The time taken to derive the addresses in milliseconds.
+     */
+    deriveTime: number;
+
+    /**
+     * The time taken to sign with the addresses in milliseconds.
+     */
+    signTime: number;
+
+    /**
+     * The time taken to hash the essences in milliseconds.
+     */
+    hashTime: number;
+
+    /**
+     * The longest time the render thread was blocked in milliseconds.
+     */
+    maxBlockedTime: number;
+}
@@ -0,0 +1,36 @@
+export interface ICryptoRequest {
+    /**
+     * The id used to match the response to the request.
+     */
+    id: number;
+
+    /**
+     * The operation to perform.
+     */
+    operation: "derive-addresses" | "sign-batch" | "hash-essence";
+
+    /**
+     * The seed to derive from, for derive-addresses and sign-batch.
+     */
+    seed?: Uint8Array;
+
+    /**
+     * The first index to derive, for derive-addresses.
+     */
+    startIndex?: number;
+
+    /**
+     * The number of addresses to derive, for derive-addresses.
+     */
+    count?: number;
+
+    /**
+     * The indexes of the addresses to sign with, for sign-batch.
+     */
+    indexes?: number[];
+
+    /**
+     * The data to sign or hash, for sign-batch and hash-essence.
+     */
+    data?: Uint8Array;
+}
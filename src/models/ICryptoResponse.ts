@@ -0,0 +1,18 @@
+import { ICryptoSignature } from "./ICryptoSignature";
+
+export interface ICryptoResponse {
+    /**
+     * The id of the request this responds to.
+     */
+    id: number;
+
+    /**
+     * The result of the operation if it succeeded.
+     */
+    result?: string[] | ICryptoSignature[] | string;
+
+    /**
+     * The error message if the operation failed.
+     */
+    error?: string;
+}
@@ -0,0 +1,21 @@
+export interface ICryptoSignature {
+    /**
+     * The index of the address which signed.
+     */
+    index: number;
+
+    /**
+     * The address which signed.
+     */
+    address: string;
+
+    /**
+     * The public key of the address.
+     */
+    publicKey: Buffer;
+
+    /**
+     * The signature of the data.
+     */
+    signature: Buffer;
+}
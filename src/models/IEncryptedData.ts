@@ -0,0 +1,46 @@
+export interface IEncryptedData {
+    /**
+     * The key derivation function used to derive the key from the password.
+     */
+    kdf: "scrypt";
+
+    /**
+     * The salt for the key derivation in base64.
+     */
+    salt: string;
+
+    /**
+     * The CPU/memory cost parameter for the key derivation.
+     */
+    cost: number;
+
+    /**
+     * The block size parameter for the key derivation.
+     */
+    blockSize: number;
+
+    /**
+     * The parallelization parameter for the key derivation.
+     */
+    parallelization: number;
+
+    /**
+     * The cipher used to encrypt the data.
+     */
+    cipher: "aes-256-gcm";
+
+    /**
+     * The initialization vector in base64.
+     */
+    iv: string;
+
+    /**
+     * The authentication tag in base64.
+     */
+    authTag: string;
+
+    /**
+     * The encrypted data in base64.
+     */
+    cipherText: string;
+}
@@ -0,0 +1,21 @@
+export interface IMaxSendAmount {
+    /**
+     * The spendable confirmed amount of the color.
+     */
+    amount: bigint;
+
+    /**
+     * The ids of the outputs spent to send the amount.
+     */
+    inputs: string[];
+
+    /**
+     * The amounts of other colors in the spent outputs, which move to the remainder address.
+     */
+    remainder: { [color: string]: bigint };
+
+    /**
+     * The confirmed amount held back on addresses which are waiting for unconfirmed outputs.
+     */
+    pending: bigint;
+}
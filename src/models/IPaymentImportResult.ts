@@ -0,0 +1,28 @@
+import { ISendFundsOptions } from "./ISendFundsOptions";
+
+export interface IPaymentImportResult {
+    /**
+     * The payments with duplicate address and color rows aggregated.
+     */
+    options: ISendFundsOptions;
+
+    /**
+     * The number of payment rows read.
+     */
+    rowCount: number;
+
+    /**
+     * The errors found in the rows.
+     */
+    errors: {
+        /**
+         * The line number of the row in the file.
+         */
+        row: number;
+
+        /**
+         * The error message.
+         */
+        message: string;
+    }[];
+}
@@ -10,4 +10,24 @@ export interface ISendFundsOptions {
      * Remainder address.
      */
     remainderAddress?: string;
+
+    /**
+     * The id of the coin selection strategy, the settings are used if not provided.
+     */
+    coinSelection?: string;
+
+    /**
+     * The ids of the outputs to spend, when provided exactly these outputs are used and coin selection is skipped.
+     */
+    inputs?: string[];
+
+    /**
+     * Send the whole spendable confirmed balance, there must be a single destination with a single color.
+     */
+    sendMax?: boolean;
+
+    /**
+     * A memo to carry in the data payload of the transaction.
+     */
+    memo?: string;
 }
@@ -3,4 +3,29 @@ export interface ISettings {
      * API Endpoint.
      */
     apiEndpoint: string;
+
+    /**
+     * Idle minutes before the wallet is locked, 0 disables the auto lock.
+     */
+    autoLockMinutes?: number;
+
+    /**
+     * The id of the coin selection strategy used when sending.
+     */
+    coinSelection?: string;
+
+    /**
+     * The number of consecutive unused addresses before the address scan stops.
+     */
+    addressGapLimit?: number;
+
+    /**
+     * The number of addresses requested from the node at a time.
+     */
+    addressBatchSize?: number;
+
+    /**
+     * Use the experimental event stream, Pollen nodes do not serve one so it is off unless enabled.
+     */
+    isEventStreamEnabled?: boolean;
 }
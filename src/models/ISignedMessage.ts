@@ -0,0 +1,21 @@
+export interface ISignedMessage {
+    /**
+     * The address which signed the message.
+     */
+    address: string;
+
+    /**
+     * The message which was signed.
+     */
+    message: string;
+
+    /**
+     * The public key of the address in base64.
+     */
+    publicKey: string;
+
+    /**
+     * The signature of the message behind its domain tag in base64.
+     */
+    signature: string;
+}
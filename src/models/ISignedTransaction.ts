@@ -0,0 +1,23 @@
+import { IUnsignedTransaction } from "./IUnsignedTransaction";
+
+export interface ISignedTransaction extends IUnsignedTransaction {
+    /**
+     * The signatures for each input address.
+     */
+    signatures: {
+        /**
+         * The address the signature is for.
+         */
+        address: string;
+
+        /**
+         * The public key of the address in base64.
+         */
+        publicKey: string;
+
+        /**
+         * The signature of the essence in base64.
+         */
+        signature: string;
+    }[];
+}
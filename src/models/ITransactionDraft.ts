@@ -0,0 +1,28 @@
+import { IUnsignedTransaction } from "./IUnsignedTransaction";
+
+export interface ITransactionDraft extends IUnsignedTransaction {
+    /**
+     * The id of the draft, the hash of its essence.
+     */
+    id: string;
+
+    /**
+     * The wallet addresses which will become spent when the transaction is sent.
+     */
+    spentAddresses: string[];
+
+    /**
+     * The new tokens which will be minted by the transaction.
+     */
+    minted: {
+        /**
+         * The address receiving the new tokens.
+         */
+        address: string;
+
+        /**
+         * The number of tokens minted.
+         */
+        value: string;
+    }[];
+}
@@ -0,0 +1,78 @@
+import { IWalletTransactionAmount } from "./IWalletTransactionAmount";
+
+export interface IUnsignedTransaction {
+    /**
+     * The essence of the transaction in base64, this is the data which is signed.
+     */
+    essence: string;
+
+    /**
+     * The outputs consumed by the transaction, in essence order.
+     */
+    inputs: {
+        /**
+         * The id of the output.
+         */
+        transactionId: string;
+
+        /**
+         * The address holding the output.
+         */
+        address: string;
+
+        /**
+         * The index of the address in the wallet.
+         */
+        addressIndex: number;
+
+        /**
+         * The balances of the output.
+         */
+        balances: IWalletTransactionAmount[];
+    }[];
+
+    /**
+     * The destinations requested by the sender.
+     */
+    destinations: {
+        /**
+         * The destination address.
+         */
+        address: string;
+
+        /**
+         * The balances sent to the address.
+         */
+        balances: IWalletTransactionAmount[];
+    }[];
+
+    /**
+     * The outputs created by the transaction, including the remainder, in essence order.
+     */
+    outputs: {
+        /**
+         * The output address.
+         */
+        address: string;
+
+        /**
+         * The balances of the output.
+         */
+        balances: IWalletTransactionAmount[];
+    }[];
+
+    /**
+     * The address which receives the remainder.
+     */
+    remainderAddress?: string;
+
+    /**
+     * The memo carried in the data payload.
+     */
+    memo?: string;
+
+    /**
+     * The time the transaction was built in ms.
+     */
+    created: number;
+}
@@ -1,10 +1,22 @@
+import { IEncryptedData } from "./IEncryptedData";
 import { IWalletAsset } from "./IWalletAsset";
+import { IWatchAddress } from "./IWatchAddress";
 
 export interface IWallet {
     /**
-     * The wallet seed.
+     * The unencrypted wallet seed, only present in wallets created before password protection.
      */
-    seed: string;
+    seed?: string;
+
+    /**
+     * The wallet seed encrypted with the wallet password.
+     */
+    encryptedSeed?: IEncryptedData;
+
+    /**
+     * The addresses tracked by a watch-only wallet, which has no seed.
+     */
+    watchAddresses?: IWatchAddress[];
 
     /**
      * The last address index used.
@@ -16,6 +28,11 @@ export interface IWallet {
      */
     spentAddresses: string[];
 
+    /**
+     * Labels for the wallet addresses.
+     */
+    addressLabels?: { [address: string]: string };
+
     /**
      * List of assets.
      */
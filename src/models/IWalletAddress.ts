@@ -13,4 +13,9 @@ export interface IWalletAddress {
      * Is the address spent.
      */
     isSpent: boolean;
+
+    /**
+     * The label given to the address.
+     */
+    label?: string;
 }
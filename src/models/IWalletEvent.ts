@@ -0,0 +1,41 @@
+export interface IWalletEvent {
+    /**
+     * The type of the event.
+     */
+    type: "transaction-status" | "progress" | "draft-expired";
+
+    /**
+     * The id of the transaction the event relates to.
+     */
+    transactionId?: string;
+
+    /**
+     * The id of the draft which has expired.
+     */
+    draftId?: string;
+
+    /**
+     * The status of the transaction before the event.
+     */
+    previousStatus?: string;
+
+    /**
+     * The status of the transaction after the event.
+     */
+    status?: string;
+
+    /**
+     * The operation a progress event is reporting on.
+     */
+    operation?: "consolidate" | "sweep";
+
+    /**
+     * The number of transactions the operation has sent.
+     */
+    completed?: number;
+
+    /**
+     * The number of transactions the operation will send.
+     */
+    total?: number;
+}
@@ -0,0 +1,16 @@
+export interface IWalletProfile {
+    /**
+     * The id of the profile.
+     */
+    id: string;
+
+    /**
+     * The name of the profile.
+     */
+    name: string;
+
+    /**
+     * API endpoint to use instead of the one in the settings.
+     */
+    apiEndpoint?: string;
+}
@@ -0,0 +1,13 @@
+import { IWalletProfile } from "./IWalletProfile";
+
+export interface IWalletProfiles {
+    /**
+     * The id of the active profile.
+     */
+    activeId: string;
+
+    /**
+     * The profiles.
+     */
+    profiles: IWalletProfile[];
+}
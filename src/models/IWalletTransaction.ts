@@ -0,0 +1,69 @@
+import { IWalletOutputInclusionState } from "./IWalletOutputInclusionState";
+import { IWalletTransactionAmount } from "./IWalletTransactionAmount";
+
+export interface IWalletTransaction {
+    /**
+     * The transaction id.
+     */
+    id: string;
+
+    /**
+     * The type of the transaction.
+     */
+    type: "send" | "receive" | "asset" | "faucet";
+
+    /**
+     * The direction of the transaction.
+     */
+    direction: "incoming" | "outgoing";
+
+    /**
+     * The wallet addresses involved in the transaction.
+     */
+    addresses: string[];
+
+    /**
+     * The addresses of the other parties, the senders are not known for incoming transactions.
+     */
+    counterparties: string[];
+
+    /**
+     * The amounts transferred, excluding any remainder.
+     */
+    amounts: IWalletTransactionAmount[];
+
+    /**
+     * The time the transaction was first recorded in ms.
+     */
+    created: number;
+
+    /**
+     * The time the transaction was last updated in ms.
+     */
+    updated: number;
+
+    /**
+     * The last known inclusion state of the transaction outputs.
+     */
+    inclusionState: IWalletOutputInclusionState;
+
+    /**
+     * The status of the transaction derived from the inclusion states it has been through.
+     */
+    status: string;
+
+    /**
+     * The outputs consumed by an outgoing transaction.
+     */
+    inputs?: string[];
+
+    /**
+     * The addresses marked as spent by an outgoing transaction.
+     */
+    spentAddresses?: string[];
+
+    /**
+     * The memo sent with an outgoing transaction.
+     */
+    memo?: string;
+}
@@ -0,0 +1,11 @@
+export interface IWalletTransactionAmount {
+    /**
+     * The color.
+     */
+    color: string;
+
+    /**
+     * The value, stored as a string as bigint can not be serialized to JSON.
+     */
+    value: string;
+}
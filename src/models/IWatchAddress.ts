@@ -0,0 +1,11 @@
+export interface IWatchAddress {
+    /**
+     * The address to watch.
+     */
+    address: string;
+
+    /**
+     * The index of the address in the seed wallet, needed to sign transactions offline.
+     */
+    index?: number;
+}
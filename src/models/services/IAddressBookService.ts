@@ -0,0 +1,42 @@
+import { IAddressBookEntry } from "../IAddressBookEntry";
+
+export interface IAddressBookService {
+    /**
+     * Get all the entries, sorted by name.
+     * @returns The entries.
+     */
+    getAll(): Promise<IAddressBookEntry[]>;
+
+    /**
+     * Find the entry for an address.
+     * @param address The address to find.
+     * @returns The entry if there is one.
+     */
+    findByAddress(address: string): Promise<IAddressBookEntry | undefined>;
+
+    /**
+     * Create a new entry.
+     * @param entry The entry to create, the id is assigned.
+     * @returns The new entry.
+     */
+    create(entry: IAddressBookEntry): Promise<IAddressBookEntry>;
+
+    /**
+     * Update an entry.
+     * @param entry The entry to update.
+     */
+    update(entry: IAddressBookEntry): Promise<void>;
+
+    /**
+     * Remove an entry.
+     * @param id The id of the entry to remove.
+     */
+    remove(id: string): Promise<void>;
+
+    /**
+     * Import entries, existing entries with the same address are updated.
+     * @param entries The entries to import.
+     * @returns The number of entries imported.
+     */
+    import(entries: IAddressBookEntry[]): Promise<number>;
+}
@@ -0,0 +1,28 @@
+import { ICryptoSignature } from "../ICryptoSignature";
+
+export interface ICryptoService {
+    /**
+     * Derive a batch of consecutive addresses from a seed.
+     * @param seed The seed to derive from.
+     * @param startIndex The index of the first address.
+     * @param count The number of addresses to derive.
+     * @returns The addresses in index order.
+     */
+    deriveAddresses(seed: Buffer, startIndex: number, count: number): Promise<string[]>;
+
+    /**
+     * Sign data with the key pairs of a batch of addresses.
+     * @param seed The seed to derive the key pairs from.
+     * @param indexes The indexes of the addresses to sign with.
+     * @param data The data to sign.
+     * @returns A signature for each index in the same order.
+     */
+    signBatch(seed: Buffer, indexes: number[], data: Buffer): Promise<ICryptoSignature[]>;
+
+    /**
+     * Hash the essence of a transaction.
+     * @param essence The essence to hash.
+     * @returns The hex encoded hash.
+     */
+    hashEssence(essence: Buffer): Promise<string>;
+}
@@ -0,0 +1,41 @@
+import { IWalletProfile } from "../IWalletProfile";
+
+export interface IProfileService {
+    /**
+     * Get all the profiles.
+     * @returns The profiles.
+     */
+    getAll(): Promise<IWalletProfile[]>;
+
+    /**
+     * Get the active profile.
+     * @returns The active profile.
+     */
+    getActive(): Promise<IWalletProfile>;
+
+    /**
+     * Set the active profile.
+     * @param id The id of the profile to make active.
+     */
+    setActive(id: string): Promise<void>;
+
+    /**
+     * Create a new profile.
+     * @param name The name of the profile.
+     * @param apiEndpoint Optional API endpoint to use instead of the one in the settings.
+     * @returns The new profile.
+     */
+    create(name: string, apiEndpoint?: string): Promise<IWalletProfile>;
+
+    /**
+     * Update the name and endpoint of a profile.
+     * @param profile The profile to update.
+     */
+    update(profile: IWalletProfile): Promise<void>;
+
+    /**
+     * Remove a profile, the active profile can not be removed.
+     * @param id The id of the profile to remove.
+     */
+    remove(id: string): Promise<void>;
+}
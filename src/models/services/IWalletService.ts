@@ -1,14 +1,26 @@
+import { IAddressScanProgress } from "../IAddressScanProgress";
+import { IMaxSendAmount } from "../IMaxSendAmount";
+import { ISendFundsOptions } from "../ISendFundsOptions";
+import { ISignedMessage } from "../ISignedMessage";
+import { ISignedTransaction } from "../ISignedTransaction";
+import { ITransactionDraft } from "../ITransactionDraft";
+import { IUnsignedTransaction } from "../IUnsignedTransaction";
 import { IWallet } from "../IWallet";
 import { IWalletAddress } from "../IWalletAddress";
+import { IWalletAddressOutput } from "../IWalletAddressOutput";
 import { IWalletBalance } from "../IWalletBalance";
+import { IWalletEvent } from "../IWalletEvent";
+import { IWalletOutput } from "../IWalletOutput";
+import { IWalletTransaction } from "../IWalletTransaction";
+import { IWatchAddress } from "../IWatchAddress";
 
 export interface IWalletService {
     /**
      * Subscribe to the wallet updates.
-     * @param callback The callback to trigger when there are updates.
+     * @param callback The callback to trigger when there are updates, with the event if there is one.
      * @returns The subscription id.
      */
-    subscribe(callback: () => void): string;
+    subscribe(callback: (event?: IWalletEvent) => void): string;
 
     /**
      * Unsubscribe from the wallet updates.
@@ -17,23 +29,89 @@ export interface IWalletService {
     unsubscribe(id: string): void;
 
     /**
-     * Create a new wallet current wallet.
-     * @param seed Optional seed to import.
+     * Create a new wallet current wallet, the wallet is unlocked after creation.
+     * @param password The password to encrypt the seed with.
+     * @param seed Optional seed to import, the ledger is scanned for the addresses it has used.
+     * @param onProgress Callback to report progress of the address scan.
      * @returns The new wallet.
      */
-    create(seed?: string): Promise<IWallet>;
+    create(
+        password: string,
+        seed?: string,
+        onProgress?: (progress: IAddressScanProgress) => void): Promise<IWallet>;
 
     /**
-     * Get the current wallet.
+     * Create a watch-only wallet which tracks addresses without a seed.
+     * @param addresses The addresses to watch.
+     * @returns The new wallet.
+     */
+    createWatchOnly(addresses: IWatchAddress[]): Promise<IWallet>;
+
+    /**
+     * Get the current wallet, if the wallet is locked only the stored details are available.
      * @returns The wallet if there is one.
      */
     get(): Promise<IWallet | undefined>;
 
     /**
-     * Delete the current wallet.
+     * Delete the current wallet, the wallet must be unlocked.
      */
     delete(): Promise<void>;
 
+    /**
+     * Switch to the wallet of another profile, the current wallet is locked.
+     * @param id The id of the profile to switch to.
+     * @returns The wallet of the profile if it has one.
+     */
+    switchProfile(id: string): Promise<IWallet | undefined>;
+
+    /**
+     * Delete a profile and its wallet, the active profile can not be deleted.
+     * @param id The id of the profile to delete.
+     * @param password The password of the profile wallet, not needed for a watch-only wallet.
+     */
+    deleteProfile(id: string, password?: string): Promise<void>;
+
+    /**
+     * Is the current wallet locked.
+     * @returns True if there is a wallet and it is locked.
+     */
+    isLocked(): boolean;
+
+    /**
+     * Is the current wallet watch-only.
+     * @returns True if the wallet tracks addresses without a seed.
+     */
+    isWatchOnly(): boolean;
+
+    /**
+     * Unlock the wallet, an unencrypted wallet will be encrypted with the password.
+     * @param password The password to decrypt the seed with.
+     */
+    unlock(password: string): Promise<void>;
+
+    /**
+     * Lock the wallet, removing the seed and keys from memory.
+     */
+    lock(): void;
+
+    /**
+     * Record user activity to postpone the auto lock.
+     */
+    recordActivity(): void;
+
+    /**
+     * Get the seed for the unlocked wallet.
+     * @returns The seed if the wallet is unlocked.
+     */
+    getSeed(): string | undefined;
+
+    /**
+     * Export the wallet addresses with their indexes so they can be watched elsewhere.
+     * @returns The addresses to watch.
+     */
+    exportWatchAddresses(): IWatchAddress[];
+
     /**
      * Request funds.
      * @returns The transactions id if successful.
@@ -46,6 +124,40 @@ export interface IWalletService {
      */
     getWalletBalances(): IWalletBalance[] | undefined;
 
+    /**
+     * Get the transaction history for the wallet.
+     * @returns The transactions, most recent first.
+     */
+    getTransactionHistory(): IWalletTransaction[] | undefined;
+
+    /**
+     * Get the unspent outputs which are not being spent by a pending transaction.
+     * @returns The outputs grouped by address.
+     */
+    getAvailableOutputs(): IWalletAddressOutput[] | undefined;
+
+    /**
+     * Get the unspent outputs of an address, including those being spent by a pending transaction.
+     * @param address The address to get the outputs for.
+     * @returns The outputs.
+     */
+    getAddressOutputs(address: string): IWalletOutput[];
+
+    /**
+     * Set the label for one of the wallet addresses.
+     * @param address The address to label.
+     * @param label The label, an empty label removes it.
+     */
+    setAddressLabel(address: string, label: string): Promise<void>;
+
+    /**
+     * Calculate the most of a color that can be sent, and what else moves with it.
+     * @param color The color to send.
+     * @returns The amount, the outputs to spend, the other colors which move to the remainder
+     * and the amount waiting for unconfirmed outputs on the same addresses.
+     */
+    getMaxSendAmount(color: string): IMaxSendAmount;
+
     /**
      * Get the current wallet addresses.
      * @returns The addresses.
@@ -84,7 +196,94 @@ export interface IWalletService {
      * Send funds to an address.
      * @param address The address to send the funds to.
      * @param color The color of the tokens to send.
-     * @param amount The amount of tokens to send.
+     * @param amount The amount of tokens to send, ignored when sending the maximum.
+     * @param sendMax Send the whole spendable confirmed balance of the color.
+     */
+    sendFunds(address: string, color: string, amount: bigint, sendMax?: boolean): Promise<void>;
+
+    /**
+     * Send funds to multiple destinations in a single transaction.
+     * @param sendFundsOptions The options for sending.
+     * @returns The new tx id.
+     */
+    sendFundsWithOptions(sendFundsOptions: ISendFundsOptions): Promise<string | undefined>;
+
+    /**
+     * Build a transaction for review, it is not signed until the draft is confirmed.
+     * @param sendFundsOptions The options for sending.
+     * @returns The draft describing the transaction.
+     */
+    createDraft(sendFundsOptions: ISendFundsOptions): Promise<ITransactionDraft>;
+
+    /**
+     * Sign and send a draft transaction.
+     * @param id The id of the draft to confirm.
+     * @returns The new tx id.
+     */
+    confirmDraft(id: string): Promise<string | undefined>;
+
+    /**
+     * Discard a draft transaction without sending it.
+     * @param id The id of the draft to discard.
+     */
+    discardDraft(id: string): void;
+
+    /**
+     * Build a transaction without signing it, so it can be signed elsewhere.
+     * @param sendFundsOptions The options for sending.
+     * @returns The unsigned transaction.
+     */
+    buildUnsignedTransaction(sendFundsOptions: ISendFundsOptions): Promise<IUnsignedTransaction>;
+
+    /**
+     * Does the address belong to the current wallet, derived from its seed or watched.
+     * @param address The address to check.
+     * @returns True if the address belongs to the wallet.
+     */
+    isOwnAddress(address: string): Promise<boolean>;
+
+    /**
+     * Sign a transaction which was built by this or another instance of the wallet.
+     * @param unsigned The unsigned transaction.
+     * @returns The signed transaction.
+     */
+    signUnsignedTransaction(unsigned: IUnsignedTransaction): Promise<ISignedTransaction>;
+
+    /**
+     * Broadcast a signed transaction and record it in the wallet.
+     * @param signed The signed transaction.
+     * @returns The new tx id.
+     */
+    broadcastSignedTransaction(signed: ISignedTransaction): Promise<string | undefined>;
+
+    /**
+     * Move the confirmed outputs from every address in to a fresh address, addresses which
+     * are still receiving unconfirmed outputs are left for later.
+     * @param color Only consolidate outputs containing this color, all outputs if not provided.
+     * @returns The ids of the transactions sent.
+     */
+    consolidate(color?: string): Promise<string[]>;
+
+    /**
+     * Move everything held by a foreign seed or subseed in to this wallet.
+     * @param seed The foreign seed or subseed in Base58.
+     * @param isSubseed The seed is the subseed of a single address.
+     * @returns The ids of the transactions sent.
+     */
+    sweep(seed: string, isSubseed: boolean): Promise<string[]>;
+
+    /**
+     * Sign a message with the key pair of one of the wallet addresses.
+     * @param address The address to sign with.
+     * @param message The message to sign.
+     * @returns The signed message which proves ownership of the address.
+     */
+    signMessage(address: string, message: string): Promise<ISignedMessage>;
+
+    /**
+     * Split the payments in to multiple sets which each fit within the transaction limits.
+     * @param sendFundsOptions The options for sending.
+     * @returns The options for each transaction, in the order they should be sent.
      */
-    sendFunds(address: string, color: string, amount: bigint): Promise<void>;
+    splitSendFundsOptions(sendFundsOptions: ISendFundsOptions): Promise<ISendFundsOptions[]>;
 }
@@ -1,9 +1,13 @@
 import { ServiceFactory } from "./factories/serviceFactory";
 import { ElectronHelper } from "./helpers/electronHelper";
 import { IConfiguration } from "./models/config/IConfiguration";
+import { AddressBookService } from "./services/addressBookService";
+import { CryptoService } from "./services/cryptoService";
 import { JsonStorageService } from "./services/jsonStorageService";
+import { ProfileService } from "./services/profileService";
 import { SettingsService } from "./services/settingsService";
 import { WalletService } from "./services/walletService";
+import { WorkerCryptoService } from "./services/workerCryptoService";
 
 /**
  * Register all the services.
@@ -15,12 +19,16 @@ export function registerServices(config: IConfiguration, appName: string): void
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { ElectronStorageService } = require("./services/electronStorageService");
         ServiceFactory.register("storage", () => new ElectronStorageService(appName));
+        ServiceFactory.register("crypto", () => new WorkerCryptoService());
     } else {
         // eslint-disable-next-line @typescript-eslint/no-var-requires
         const { LocalStorageService } = require("./services/localStorageService");
         ServiceFactory.register("storage", () => new LocalStorageService());
+        ServiceFactory.register("crypto", () => new CryptoService());
     }
     ServiceFactory.register("json-storage", () => new JsonStorageService());
+    ServiceFactory.register("profile", () => new ProfileService());
+    ServiceFactory.register("address-book", () => new AddressBookService());
     ServiceFactory.register("wallet", () => new WalletService());
     ServiceFactory.register("settings", () => new SettingsService());
 }
\ No newline at end of file
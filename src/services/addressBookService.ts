@@ -0,0 +1,183 @@
+import { ServiceFactory } from "../factories/serviceFactory";
+import { Address } from "../iota/address";
+import { Base58 } from "../iota/crypto/base58";
+import { Seed } from "../iota/seed";
+import { IAddressBookEntry } from "../models/IAddressBookEntry";
+import { IAddressBookService } from "../models/services/IAddressBookService";
+import { IJsonStorageService } from "../models/services/IJsonStorageService";
+
+/**
+ * Service to manage the address book.
+ */
+export class AddressBookService implements IAddressBookService {
+    /**
+     * The json storage service to use.
+     */
+    private readonly _jsonStorageService: IJsonStorageService;
+
+    /**
+     * The current entries.
+     */
+    private _entries?: IAddressBookEntry[];
+
+    /**
+     * Create a new instance of AddressBookService.
+     */
+    constructor() {
+        this._jsonStorageService = ServiceFactory.get<IJsonStorageService>("json-storage");
+    }
+
+    /**
+     * Get all the entries, sorted by name.
+     * @returns The entries.
+     */
+    public async getAll(): Promise<IAddressBookEntry[]> {
+        const entries = await this.load();
+        return entries.slice().sort((a, b) => a.name.localeCompare(b.name));
+    }
+
+    /**
+     * Find the entry for an address.
+     * @param address The address to find.
+     * @returns The entry if there is one.
+     */
+    public async findByAddress(address: string): Promise<IAddressBookEntry | undefined> {
+        const entries = await this.load();
+        return entries.find(e => e.address === address.trim());
+    }
+
+    /**
+     * Create a new entry.
+     * @param entry The entry to create, the id is assigned.
+     * @returns The new entry.
+     */
+    public async create(entry: IAddressBookEntry): Promise<IAddressBookEntry> {
+        const entries = await this.load();
+
+        const created = this.validate(entries, {
+            ...entry,
+            id: Base58.encode(Seed.generate()).slice(0, 16)
+        });
+
+        entries.push(created);
+        await this.save();
+
+        return created;
+    }
+
+    /**
+     * Update an entry.
+     * @param entry The entry to update.
+     */
+    public async update(entry: IAddressBookEntry): Promise<void> {
+        const entries = await this.load();
+        const idx = entries.findIndex(e => e.id === entry.id);
+        if (idx < 0) {
+            throw new Error("The address book entry does not exist");
+        }
+
+        entries[idx] = this.validate(entries, entry);
+        await this.save();
+    }
+
+    /**
+     * Remove an entry.
+     * @param id The id of the entry to remove.
+     */
+    public async remove(id: string): Promise<void> {
+        const entries = await this.load();
+        this._entries = entries.filter(e => e.id !== id);
+        await this.save();
+    }
+
+    /**
+     * Import entries, existing entries with the same address are updated.
+     * @param entries The entries to import.
+     * @returns The number of entries imported.
+     */
+    public async import(entries: IAddressBookEntry[]): Promise<number> {
+        const existing = await this.load();
+
+        // validate everything first so a bad entry does not leave a partial import
+        const validated: IAddressBookEntry[] = [];
+        for (let i = 0; i < entries.length; i++) {
+            const match = existing.find(e => e.address === entries[i].address?.trim());
+            const others = existing.filter(e => e !== match).concat(validated);
+            try {
+                validated.push(this.validate(others, {
+                    ...entries[i],
+                    id: match ? match.id : Base58.encode(Seed.generate()).slice(0, 16)
+                }));
+            } catch (err) {
+                throw new Error(`Entry ${i + 1}: ${err.message}`);
+            }
+        }
+
+        for (const entry of validated) {
+            const idx = existing.findIndex(e => e.id === entry.id);
+            if (idx >= 0) {
+                existing[idx] = entry;
+            } else {
+                existing.push(entry);
+            }
+        }
+        await this.save();
+
+        return validated.length;
+    }
+
+    /**
+     * Check the entry has a name and a valid address which is not already in the address book.
+     * @param entries The current entries.
+     * @param entry The entry to check.
+     * @returns The entry with its values trimmed.
+     */
+    private validate(entries: IAddressBookEntry[], entry: IAddressBookEntry): IAddressBookEntry {
+        const name = typeof entry.name === "string" ? entry.name.trim() : "";
+        if (name.length === 0) {
+            throw new Error("The name can not be empty");
+        }
+
+        const address = typeof entry.address === "string" ? entry.address.trim() : "";
+        if (!Address.isValid(address)) {
+            throw new Error(`The address for "${name}" is not valid`);
+        }
+
+        const duplicate = entries.find(e => e.id !== entry.id && e.address === address);
+        if (duplicate) {
+            throw new Error(`The address is already in the address book as "${duplicate.name}"`);
+        }
+
+        const note = typeof entry.note === "string" ? entry.note.trim() : "";
+        const defaultColor = typeof entry.defaultColor === "string" ? entry.defaultColor.trim() : "";
+
+        return {
+            id: entry.id,
+            name,
+            address,
+            note: note.length > 0 ? note : undefined,
+            defaultColor: defaultColor.length > 0 ? defaultColor : undefined
+        };
+    }
+
+    /**
+     * Load the entries.
+     * @returns The entries.
+     */
+    private async load(): Promise<IAddressBookEntry[]> {
+        if (!this._entries) {
+            this._entries = await this._jsonStorageService.get<IAddressBookEntry[]>("address-book.json") ?? [];
+        }
+
+        return this._entries;
+    }
+
+    /**
+     * Save the entries.
+     */
+    private async save(): Promise<void> {
+        if (this._entries) {
+            await this._jsonStorageService.set("address-book.json", this._entries);
+        }
+    }
+}
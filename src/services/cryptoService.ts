@@ -0,0 +1,39 @@
+import { CryptoRequestHelper } from "../helpers/cryptoRequestHelper";
+import { ICryptoSignature } from "../models/ICryptoSignature";
+import { ICryptoService } from "../models/services/ICryptoService";
+
+/**
+ * Service to perform crypto operations on the calling thread, used when workers are not available.
+ */
+export class CryptoService implements ICryptoService {
+    /**
+     * Derive a batch of consecutive addresses from a seed.
+     * @param seed The seed to derive from.
+     * @param startIndex The index of the first address.
+     * @param count The number of addresses to derive.
+     * @returns The addresses in index order.
+     */
+    public async deriveAddresses(seed: Buffer, startIndex: number, count: number): Promise<string[]> {
+        return CryptoRequestHelper.deriveAddresses(seed, startIndex, count);
+    }
+
+    /**
+     * Sign data with the key pairs of a batch of addresses.
+     * @param seed The seed to derive the key pairs from.
+     * @param indexes The indexes of the addresses to sign with.
+     * @param data The data to sign.
+     * @returns A signature for each index in the same order.
+     */
+    public async signBatch(seed: Buffer, indexes: number[], data: Buffer): Promise<ICryptoSignature[]> {
+        return CryptoRequestHelper.signBatch(seed, indexes, data);
+    }
+
+    /**
+     * Hash the essence of a transaction.
+     * @param essence The essence to hash.
+     * @returns The hex encoded hash.
+     */
+    public async hashEssence(essence: Buffer): Promise<string> {
+        return CryptoRequestHelper.hashEssence(essence);
+    }
+}
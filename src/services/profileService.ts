@@ -0,0 +1,178 @@
+import { ServiceFactory } from "../factories/serviceFactory";
+import { Base58 } from "../iota/crypto/base58";
+import { Seed } from "../iota/seed";
+import { IWalletProfile } from "../models/IWalletProfile";
+import { IWalletProfiles } from "../models/IWalletProfiles";
+import { IJsonStorageService } from "../models/services/IJsonStorageService";
+import { IProfileService } from "../models/services/IProfileService";
+
+/**
+ * Service to manage wallet profiles.
+ */
+export class ProfileService implements IProfileService {
+    /**
+     * The id of the profile which uses the storage from before profiles existed.
+     */
+    public static readonly DEFAULT_ID: string = "default";
+
+    /**
+     * The json storage service to use.
+     */
+    private readonly _jsonStorageService: IJsonStorageService;
+
+    /**
+     * The current profiles.
+     */
+    private _profiles?: IWalletProfiles;
+
+    /**
+     * Create a new instance of ProfileService.
+     */
+    constructor() {
+        this._jsonStorageService = ServiceFactory.get<IJsonStorageService>("json-storage");
+    }
+
+    /**
+     * Get the name of the storage item for a profile.
+     * @param id The id of the profile.
+     * @param item The item to get the name for.
+     * @returns The storage name.
+     */
+    public static storageName(id: string, item: "wallet" | "history"): string {
+        return id === ProfileService.DEFAULT_ID ? `${item}.json` : `${item}-${id}.json`;
+    }
+
+    /**
+     * Get all the profiles.
+     * @returns The profiles.
+     */
+    public async getAll(): Promise<IWalletProfile[]> {
+        const profiles = await this.load();
+        return profiles.profiles;
+    }
+
+    /**
+     * Get the active profile.
+     * @returns The active profile.
+     */
+    public async getActive(): Promise<IWalletProfile> {
+        const profiles = await this.load();
+        return profiles.profiles.find(p => p.id === profiles.activeId) ?? profiles.profiles[0];
+    }
+
+    /**
+     * Set the active profile.
+     * @param id The id of the profile to make active.
+     */
+    public async setActive(id: string): Promise<void> {
+        const profiles = await this.load();
+        if (!profiles.profiles.some(p => p.id === id)) {
+            throw new Error("The profile does not exist");
+        }
+
+        profiles.activeId = id;
+        await this.save();
+    }
+
+    /**
+     * Create a new profile.
+     * @param name The name of the profile.
+     * @param apiEndpoint Optional API endpoint to use instead of the one in the settings.
+     * @returns The new profile.
+     */
+    public async create(name: string, apiEndpoint?: string): Promise<IWalletProfile> {
+        const profiles = await this.load();
+
+        const profile: IWalletProfile = {
+            id: Base58.encode(Seed.generate()).slice(0, 16),
+            name: this.validateName(profiles, name),
+            apiEndpoint
+        };
+
+        profiles.profiles.push(profile);
+        await this.save();
+
+        return profile;
+    }
+
+    /**
+     * Update the name and endpoint of a profile.
+     * @param profile The profile to update.
+     */
+    public async update(profile: IWalletProfile): Promise<void> {
+        const profiles = await this.load();
+        const existing = profiles.profiles.find(p => p.id === profile.id);
+        if (!existing) {
+            throw new Error("The profile does not exist");
+        }
+
+        existing.name = this.validateName(profiles, profile.name, profile.id);
+        existing.apiEndpoint = profile.apiEndpoint;
+        await this.save();
+    }
+
+    /**
+     * Remove a profile, the active profile can not be removed.
+     * @param id The id of the profile to remove.
+     */
+    public async remove(id: string): Promise<void> {
+        const profiles = await this.load();
+        if (profiles.activeId === id) {
+            throw new Error("The active profile can not be removed, switch to another profile first");
+        }
+
+        profiles.profiles = profiles.profiles.filter(p => p.id !== id);
+        await this.save();
+    }
+
+    /**
+     * Check the name is not empty and is not used by another profile.
+     * @param profiles The current profiles.
+     * @param name The name to check.
+     * @param id The id of the profile being renamed.
+     * @returns The trimmed name.
+     */
+    private validateName(profiles: IWalletProfiles, name: string, id?: string): string {
+        const trimmed = name.trim();
+        if (trimmed.length === 0) {
+            throw new Error("The profile name can not be empty");
+        }
+        if (profiles.profiles.some(p => p.id !== id && p.name.toLowerCase() === trimmed.toLowerCase())) {
+            throw new Error(`There is already a profile named "${trimmed}"`);
+        }
+        return trimmed;
+    }
+
+    /**
+     * Load the profiles, creating the default profile if there are none.
+     * @returns The profiles.
+     */
+    private async load(): Promise<IWalletProfiles> {
+        if (!this._profiles) {
+            this._profiles = await this._jsonStorageService.get<IWalletProfiles>("profiles.json");
+        }
+
+        if (!this._profiles || this._profiles.profiles.length === 0) {
+            this._profiles = {
+                activeId: ProfileService.DEFAULT_ID,
+                profiles: [
+                    {
+                        id: ProfileService.DEFAULT_ID,
+                        name: "Default"
+                    }
+                ]
+            };
+        }
+
+        return this._profiles;
+    }
+
+    /**
+     * Save the profiles.
+     */
+    private async save(): Promise<void> {
+        if (this._profiles) {
+            await this._jsonStorageService.set("profiles.json", this._profiles);
+        }
+    }
+}
@@ -7,6 +7,11 @@ import { ISettingsService } from "../models/services/ISettingsService";
  * Service to manage settings.
  */
 export class SettingsService implements ISettingsService {
+    /**
+     * The default idle minutes before the wallet is locked.
+     */
+    public static readonly DEFAULT_AUTO_LOCK_MINUTES: number = 10;
+
     /**
      * The json storage service to use.
      */
@@ -35,7 +40,8 @@ export class SettingsService implements ISettingsService {
 
         if (!this._settings) {
             this._settings = {
-                apiEndpoint: "http://127.0.0.1:8080"
+                apiEndpoint: "http://127.0.0.1:8080",
+                autoLockMinutes: SettingsService.DEFAULT_AUTO_LOCK_MINUTES
             };
         }
 
@@ -0,0 +1,774 @@
+import { AddressInfo } from "net";
+import WS from "ws";
+import { ServiceFactory } from "../factories/serviceFactory";
+import { SignedMessageHelper } from "../helpers/signedMessageHelper";
+import { UpdateIntervalHelper } from "../helpers/updateIntervalHelper";
+import { ApiClient } from "../iota/api/apiClient";
+import { IFaucetRequest } from "../iota/api/models/IFaucetRequest";
+import { IFaucetResponse } from "../iota/api/models/IFaucetResponse";
+import { ISendTransactionRequest } from "../iota/api/models/ISendTransactionRequest";
+import { ISendTransactionResponse } from "../iota/api/models/ISendTransactionResponse";
+import { IUnspentOutputsRequest } from "../iota/api/models/IUnspentOutputsRequest";
+import { IUnspentOutputsResponse } from "../iota/api/models/IUnspentOutputsResponse";
+import { Colors } from "../iota/colors";
+import { Base58 } from "../iota/crypto/base58";
+import { ITransaction } from "../iota/models/ITransaction";
+import { Seed } from "../iota/seed";
+import { Transaction } from "../iota/transaction";
+import { IAddressScanProgress } from "../models/IAddressScanProgress";
+import { IWallet } from "../models/IWallet";
+import { IWalletTransaction } from "../models/IWalletTransaction";
+import { CryptoService } from "./cryptoService";
+import { JsonStorageService } from "./jsonStorageService";
+import { LocalStorageService } from "./localStorageService";
+import { ProfileService } from "./profileService";
+import { SettingsService } from "./settingsService";
+import { WalletService } from "./walletService";
+
+jest.mock("../iota/api/apiClient");
+
+/**
+ * An output as the node reports it.
+ */
+type NodeOutput = IUnspentOutputsResponse["unspent_outputs"][0]["output_ids"][0];
+
+const realSetTimeout = setTimeout;
+
+/**
+ * Wait until a condition is met, using real time while the timers are faked.
+ * @param condition The condition to wait for.
+ * @returns Resolves when the condition is met.
+ */
+async function waitFor(condition: () => boolean): Promise<void> {
+    const start = Date.now();
+    while (!condition()) {
+        if (Date.now() - start > 5000) {
+            throw new Error("Timed out waiting for the condition");
+        }
+        await new Promise(resolve => realSetTimeout(resolve, 10));
+    }
+}
+
+/**
+ * Let the pending promise callbacks and socket events run.
+ */
+async function flush(): Promise<void> {
+    await new Promise(resolve => realSetTimeout(resolve, 20));
+}
+
+/**
+ * A fake node which keeps a ledger of unspent outputs in place of the API.
+ */
+class FakeNode {
+    /**
+     * The addresses of each unspent outputs request.
+     */
+    public readonly requests: string[][] = [];
+
+    /**
+     * Accept transactions without applying them, as if the node dropped them.
+     */
+    public isDropping: boolean = false;
+
+    /**
+     * The unspent outputs by address.
+     */
+    private readonly _outputs: { [address: string]: NodeOutput[] } = {};
+
+    /**
+     * Create a new random id for a transaction or message.
+     * @returns The id.
+     */
+    public static newId(): string {
+        return Base58.encode(Seed.generate());
+    }
+
+    /**
+     * Add an output to an address.
+     * @param address The address to add the output to.
+     * @param value The amount of IOTA in the output.
+     * @param inclusionState The inclusion state of the output.
+     * @param transactionId The id of the transaction which created the output.
+     * @returns The id of the output.
+     */
+    public addOutput(
+        address: string,
+        value: number,
+        inclusionState: NodeOutput["inclusion_state"] = { solid: true, confirmed: true },
+        transactionId: string = FakeNode.newId()): string {
+        return this.pushOutput(address, [{ value, color: Colors.IOTA_NAME }], inclusionState, transactionId);
+    }
+
+    /**
+     * Get the unspent outputs of addresses.
+     * @param request The addresses to get the outputs for.
+     * @returns The outputs of each address.
+     */
+    public async unspentOutputs(request: IUnspentOutputsRequest): Promise<IUnspentOutputsResponse> {
+        this.requests.push(request.addresses);
+
+        return {
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            unspent_outputs: request.addresses.map(address => ({
+                address,
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                output_ids: (this._outputs[address] ?? []).map(o => ({
+                    ...o,
+                    // eslint-disable-next-line @typescript-eslint/camelcase
+                    inclusion_state: { ...o.inclusion_state }
+                }))
+            }))
+        };
+    }
+
+    /**
+     * Apply a transaction to the ledger, its outputs are solid but not yet confirmed.
+     * @param request The transaction bytes.
+     * @returns The id of the transaction.
+     */
+    public async sendTransaction(request: ISendTransactionRequest): Promise<ISendTransactionResponse> {
+        const tx = Transaction.decode(Buffer.from(request.txn_bytes, "base64"));
+        const transactionId = FakeNode.newId();
+        if (this.isDropping) {
+            return {
+                // eslint-disable-next-line @typescript-eslint/camelcase
+                transaction_id: transactionId
+            };
+        }
+
+        for (const address in this._outputs) {
+            this._outputs[address] = this._outputs[address].filter(o => !tx.inputs.includes(o.id));
+        }
+        for (const address in tx.outputs) {
+            this.pushOutput(
+                address,
+                tx.outputs[address].map(b => ({ value: Number(b.value), color: b.color })),
+                { solid: true },
+                transactionId);
+        }
+
+        return {
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            transaction_id: transactionId
+        };
+    }
+
+    /**
+     * Confirm the outputs of a transaction.
+     * @param transactionId The id of the transaction.
+     */
+    public confirm(transactionId: string): void {
+        for (const address in this._outputs) {
+            this._outputs[address] = this._outputs[address].map(o =>
+                (Transaction.idFromOutputId(o.id) === transactionId
+                    // eslint-disable-next-line @typescript-eslint/camelcase
+                    ? { ...o, inclusion_state: { solid: true, confirmed: true } } : o));
+        }
+    }
+
+    /**
+     * Spend the outputs of an address outside of the wallet.
+     * @param address The address to spend from.
+     */
+    public spend(address: string): void {
+        delete this._outputs[address];
+    }
+
+    /**
+     * Send funds from the faucet.
+     * @param request The address to send the funds to.
+     * @returns The id of the faucet message, which is not the id of the transaction.
+     */
+    public async faucet(request: IFaucetRequest): Promise<IFaucetResponse> {
+        this.addOutput(request.address, 1000, { solid: true });
+
+        return {
+            id: FakeNode.newId()
+        };
+    }
+
+    /**
+     * Add an output with its id made from the address and transaction id.
+     * @param address The address to add the output to.
+     * @param balances The balances of the output.
+     * @param inclusionState The inclusion state of the output.
+     * @param transactionId The id of the transaction which created the output.
+     * @returns The id of the output.
+     */
+    private pushOutput(
+        address: string,
+        balances: NodeOutput["balances"],
+        inclusionState: NodeOutput["inclusion_state"],
+        transactionId: string): string {
+        const id = Base58.encode(Buffer.concat([Base58.decode(address), Base58.decode(transactionId)]));
+
+        this._outputs[address] = (this._outputs[address] ?? []).concat([{
+            id,
+            balances,
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            inclusion_state: inclusionState
+        }]);
+
+        return id;
+    }
+}
+
+describe("WalletService", () => {
+    const seed = Base58.encode(Buffer.alloc(Seed.SEED_SIZE, 3));
+    const addresses = Array.from({ length: 30 }, (_, i) => Seed.generateAddress(Base58.decode(seed), BigInt(i)));
+    const recipient = Seed.generateAddress(Buffer.alloc(Seed.SEED_SIZE, 4), BigInt(0));
+    let node: FakeNode;
+    let service: WalletService;
+
+    /**
+     * Get the last address index of the stored wallet.
+     * @returns The index.
+     */
+    async function storedLastAddressIndex(): Promise<number | undefined> {
+        const wallet = await ServiceFactory.get<JsonStorageService>("json-storage").get<IWallet>("wallet.json");
+        return wallet?.lastAddressIndex;
+    }
+
+    beforeAll(() => {
+        ServiceFactory.register("storage", () => new LocalStorageService());
+        ServiceFactory.register("json-storage", () => new JsonStorageService());
+        ServiceFactory.register("profile", () => new ProfileService());
+        ServiceFactory.register("settings", () => new SettingsService());
+        ServiceFactory.register("crypto", () => new CryptoService());
+    });
+
+    beforeEach(async () => {
+        localStorage.clear();
+        await ServiceFactory.get<SettingsService>("settings").set({
+            apiEndpoint: "http://127.0.0.1:1",
+            addressGapLimit: 5,
+            addressBatchSize: 10
+        });
+
+        node = new FakeNode();
+        (ApiClient as jest.MockedClass<typeof ApiClient>).mockImplementation(() => node as unknown as ApiClient);
+
+        service = new WalletService();
+    });
+
+    afterEach(() => {
+        service.lock();
+        jest.useRealTimers();
+    });
+
+    describe("restore and poll", () => {
+        /**
+         * Run the next poll and wait for it to finish.
+         * @returns The addresses requested by the poll.
+         */
+        async function poll(): Promise<string[][]> {
+            const polls = node.requests.length;
+            jest.advanceTimersByTime(UpdateIntervalHelper.MAX_INTERVAL);
+            await waitFor(() => node.requests.length > polls);
+            await flush();
+            return node.requests.slice(polls);
+        }
+
+        test("restores the addresses used before a gap shorter than the limit", async () => {
+            node.addOutput(addresses[0], 100);
+            node.addOutput(addresses[3], 200);
+            node.addOutput(addresses[7], 300);
+            const progress: IAddressScanProgress[] = [];
+
+            const wallet = await service.create("password", seed, p => progress.push(p));
+
+            expect(wallet.lastAddressIndex).toBe(7);
+            expect(node.requests.slice(0, 2)).toEqual([addresses.slice(0, 10), addresses.slice(10, 20)]);
+            expect(progress).toEqual([{ scannedCount: 10, usedCount: 3 }, { scannedCount: 20, usedCount: 3 }]);
+            expect(service.getWalletAddresses()?.map(a => a.address)).toEqual(addresses.slice(0, 8));
+            expect(service.getWalletBalances()?.[0].confirmed).toBe(BigInt(600));
+            expect(await storedLastAddressIndex()).toBe(7);
+        });
+
+        test("does not restore funds beyond the gap limit", async () => {
+            node.addOutput(addresses[0], 100);
+            node.addOutput(addresses[12], 200);
+
+            const wallet = await service.create("password", seed);
+
+            expect(wallet.lastAddressIndex).toBe(0);
+            expect(service.getWalletBalances()?.[0].confirmed).toBe(BigInt(100));
+        });
+
+        test("rescans from the first address on every poll and extends the wallet with funds found", async () => {
+            node.addOutput(addresses[0], 100);
+            jest.useFakeTimers();
+            await service.create("password", seed);
+
+            expect(await poll()).toEqual([addresses.slice(0, 10)]);
+
+            node.addOutput(addresses[3], 200);
+            expect(await poll()).toEqual([addresses.slice(0, 10)]);
+            expect(service.getWalletAddresses()).toHaveLength(4);
+            expect(await storedLastAddressIndex()).toBe(3);
+
+            // funds within the gap of the new last address lead on to those beyond it
+            node.addOutput(addresses[8], 300);
+            node.addOutput(addresses[12], 400);
+            expect(await poll()).toEqual([addresses.slice(0, 10), addresses.slice(10, 20)]);
+            expect(service.getWalletAddresses()).toHaveLength(13);
+            expect(service.getWalletBalances()?.[0].confirmed).toBe(BigInt(1000));
+            expect(await storedLastAddressIndex()).toBe(12);
+
+            expect(await poll()).toEqual([addresses.slice(0, 10), addresses.slice(10, 20)]);
+        });
+    });
+
+    describe("history", () => {
+        test("records a received transaction by its transaction id", async () => {
+            const transactionId = FakeNode.newId();
+            node.addOutput(addresses[0], 1000, undefined, transactionId);
+
+            await service.create("password", seed);
+
+            expect(service.getTransactionHistory()).toMatchObject([{
+                id: transactionId,
+                type: "receive",
+                addresses: [addresses[0]],
+                amounts: [{ color: Colors.IOTA_NAME, value: "1000" }]
+            }]);
+        });
+
+        test("records the outputs of a transaction on several addresses as one entry", async () => {
+            const transactionId = FakeNode.newId();
+            node.addOutput(addresses[0], 1000, undefined, transactionId);
+            node.addOutput(addresses[1], 500, undefined, transactionId);
+
+            await service.create("password", seed);
+
+            expect(service.getTransactionHistory()).toMatchObject([{
+                id: transactionId,
+                addresses: [addresses[0], addresses[1]],
+                amounts: [{ value: "1000" }, { value: "500" }]
+            }]);
+        });
+
+        test("does not record the remainder of a send as a receive", async () => {
+            node.addOutput(addresses[0], 1000);
+            await service.create("password", seed);
+
+            await service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(400));
+
+            const remainder = service.getAddressOutputs(addresses[1]);
+            expect(remainder).toHaveLength(1);
+            const history = service.getTransactionHistory() ?? [];
+            expect(history.map(h => h.type).sort()).toEqual(["receive", "send"]);
+            expect(history.find(h => h.type === "send")).toMatchObject({
+                id: Transaction.idFromOutputId(remainder[0].transactionId),
+                direction: "outgoing",
+                counterparties: [recipient],
+                amounts: [{ color: Colors.IOTA_NAME, value: "400" }]
+            });
+        });
+
+        test("keys a stored history by transaction id", async () => {
+            const sent = FakeNode.newId();
+            const received = FakeNode.newId();
+            /**
+             * Make an entry keyed by the id of one of its outputs.
+             * @param address The address of the output.
+             * @param transactionId The id of the transaction.
+             * @param direction The direction of the transaction.
+             * @returns The history entry.
+             */
+            const entry = (
+                address: string,
+                transactionId: string,
+                direction: IWalletTransaction["direction"]): IWalletTransaction => ({
+                id: Base58.encode(Buffer.concat([Base58.decode(address), Base58.decode(transactionId)])),
+                type: direction === "outgoing" ? "send" : "receive",
+                direction,
+                addresses: [address],
+                counterparties: [],
+                amounts: [{ color: Colors.IOTA_NAME, value: "100" }],
+                created: 1,
+                updated: 1,
+                inclusionState: { confirmed: true },
+                status: "confirmed"
+            });
+            await ServiceFactory.get<JsonStorageService>("json-storage").set("history.json", [
+                { ...entry(addresses[0], sent, "outgoing"), id: sent },
+                entry(addresses[1], sent, "incoming"),
+                entry(addresses[2], received, "incoming"),
+                entry(addresses[3], received, "incoming")
+            ]);
+
+            await service.create("password", seed);
+
+            expect(service.getTransactionHistory()).toMatchObject([
+                { id: sent, direction: "outgoing" },
+                { id: received, addresses: [addresses[2], addresses[3]], amounts: [{ value: "100" }, { value: "100" }] }
+            ]);
+        });
+
+        test("fills in a faucet request when its output arrives", async () => {
+            await service.create("password", seed);
+
+            const messageId = await service.requestFunds();
+
+            const outputs = service.getAddressOutputs(addresses[0]);
+            expect(outputs).toHaveLength(1);
+            const transactionId = Transaction.idFromOutputId(outputs[0].transactionId);
+            expect(transactionId).not.toBe(messageId);
+            expect(service.getTransactionHistory()).toMatchObject([{
+                id: transactionId,
+                type: "faucet",
+                addresses: [addresses[0]],
+                amounts: [{ color: Colors.IOTA_NAME, value: "1000" }],
+                inclusionState: { solid: true }
+            }]);
+        });
+    });
+
+    describe("coin control", () => {
+        test("refuses to spend only some outputs of an address", async () => {
+            const first = node.addOutput(addresses[0], 600);
+            node.addOutput(addresses[0], 400);
+            await service.create("password", seed);
+
+            await expect(service.sendFundsWithOptions({
+                destinations: { [recipient]: { [Colors.IOTA_NAME]: BigInt(500) } },
+                inputs: [first]
+            })).rejects.toThrow(`Only some outputs of ${addresses[0]} are selected`);
+            expect(service.getWalletAddresses()?.find(a => a.address === addresses[0])?.isSpent).toBe(false);
+        });
+
+        test("spends every output of the selected addresses", async () => {
+            const outputs = [node.addOutput(addresses[0], 600), node.addOutput(addresses[0], 400)];
+            node.addOutput(addresses[1], 300);
+            await service.create("password", seed);
+
+            await service.sendFundsWithOptions({
+                destinations: { [recipient]: { [Colors.IOTA_NAME]: BigInt(500) } },
+                inputs: outputs
+            });
+
+            expect(service.getAvailableOutputs()?.map(a => a.address)).toEqual([addresses[1]]);
+        });
+
+        test("consolidate leaves addresses with unconfirmed outputs until they confirm", async () => {
+            node.addOutput(addresses[0], 1000);
+            node.addOutput(addresses[1], 200);
+            node.addOutput(addresses[1], 100, { solid: true });
+            await service.create("password", seed);
+
+            await service.consolidate();
+
+            expect(service.getAddressOutputs(addresses[0])).toEqual([]);
+            expect(service.getAddressOutputs(addresses[1])).toHaveLength(2);
+            expect(service.getAddressOutputs(addresses[2])).toMatchObject([{
+                balances: [{ color: Colors.IOTA_NAME, value: BigInt(1000) }]
+            }]);
+        });
+    });
+
+    describe("send max", () => {
+        test("holds back addresses which are waiting for unconfirmed outputs", async () => {
+            const spendable = node.addOutput(addresses[0], 1000);
+            node.addOutput(addresses[1], 500);
+            node.addOutput(addresses[1], 100, { solid: true });
+            await service.create("password", seed);
+
+            expect(service.getMaxSendAmount(Colors.IOTA_NAME)).toEqual({
+                amount: BigInt(1000),
+                inputs: [spendable],
+                remainder: {},
+                pending: BigInt(500)
+            });
+
+            await service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(0), true);
+
+            expect(service.getAddressOutputs(addresses[0])).toEqual([]);
+            expect(service.getAddressOutputs(addresses[1])).toHaveLength(2);
+            expect(service.getTransactionHistory()?.find(h => h.direction === "outgoing")?.amounts)
+                .toEqual([{ color: Colors.IOTA_NAME, value: "1000" }]);
+        });
+
+        test("refuses to send when every confirmed output is held back", async () => {
+            node.addOutput(addresses[0], 500);
+            node.addOutput(addresses[0], 100, { solid: true });
+            await service.create("password", seed);
+
+            await expect(service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(0), true))
+                .rejects.toThrow("send them once those confirm");
+        });
+    });
+
+    describe("drafts", () => {
+        const destinations = { [recipient]: { [Colors.IOTA_NAME]: BigInt(400) } };
+
+        beforeEach(async () => {
+            node.addOutput(addresses[0], 1000);
+            await service.create("password", seed);
+        });
+
+        test("does not use up the remainder address of a discarded draft", async () => {
+            const draft = await service.createDraft({ destinations });
+            expect(draft.remainderAddress).toBe(addresses[1]);
+
+            service.discardDraft(draft.id);
+            const again = await service.createDraft({ destinations });
+
+            expect(again.remainderAddress).toBe(addresses[1]);
+            expect(service.getWalletAddresses()?.map(a => a.address)).toEqual([addresses[0]]);
+            expect(await storedLastAddressIndex()).toBe(0);
+        });
+
+        test("claims the remainder address when the draft is confirmed", async () => {
+            const draft = await service.createDraft({ destinations });
+
+            await service.confirmDraft(draft.id);
+
+            expect(service.getWalletAddresses()?.map(a => a.address)).toEqual([addresses[0], addresses[1]]);
+            expect(service.getAddressOutputs(addresses[1])).toMatchObject([{
+                balances: [{ color: Colors.IOTA_NAME, value: BigInt(600) }]
+            }]);
+            expect(await storedLastAddressIndex()).toBe(1);
+        });
+    });
+
+    describe("signed messages", () => {
+        test("signs a message which verifies", async () => {
+            await service.create("password", seed);
+
+            const signed = await service.signMessage(addresses[0], "I own this address");
+
+            expect(() => SignedMessageHelper.verify(signed)).not.toThrow();
+        });
+
+        test("signs a message which does not verify as the signature of an essence", async () => {
+            await service.create("password", seed);
+            // an essence whose bytes are all ASCII can be passed off as a message
+            const tx: ITransaction = {
+                inputs: [Base58.encode(Buffer.alloc(Transaction.OUTPUT_ID_SIZE, 65))],
+                outputs: {},
+                signatures: {}
+            };
+            const essence = Transaction.essence(tx);
+            expect(Buffer.from(essence.toString("utf8"), "utf8").equals(essence)).toBe(true);
+
+            const signed = await service.signMessage(addresses[0], essence.toString("utf8"));
+            tx.signatures[addresses[0]] = {
+                publicKey: Buffer.from(signed.publicKey, "base64"),
+                signature: Buffer.from(signed.signature, "base64")
+            };
+
+            expect(Transaction.decode(Transaction.bytes(tx, essence)).signatures[0].isValid).toBe(false);
+        });
+    });
+
+    describe("transaction status", () => {
+        const later = Date.now() + 3600000;
+
+        beforeEach(async () => {
+            // the wallet would lock itself when the clock moves on
+            const settingsService = ServiceFactory.get<SettingsService>("settings");
+            await settingsService.set({ ...await settingsService.get(), autoLockMinutes: 0 });
+            node.addOutput(addresses[0], 1000);
+            jest.useFakeTimers();
+            await service.create("password", seed);
+        });
+
+        /**
+         * Find the sent transaction in the history.
+         * @returns The transaction.
+         */
+        function sent(): IWalletTransaction | undefined {
+            return service.getTransactionHistory()?.find(h => h.direction === "outgoing");
+        }
+
+        /**
+         * Run the next poll an hour after the transaction was sent.
+         */
+        async function pollLater(): Promise<void> {
+            const polls = node.requests.length;
+            const now = jest.spyOn(Date, "now").mockReturnValue(later);
+            jest.advanceTimersByTime(UpdateIntervalHelper.DEFAULT_INTERVAL);
+            await waitFor(() => node.requests.length > polls);
+            await flush();
+            now.mockRestore();
+        }
+
+        test("tracks a sent transaction by the outputs of the recipient", async () => {
+            await service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(1000));
+            const transactionId = sent()?.id ?? "";
+            expect(sent()?.status).toBe("solid");
+
+            node.confirm(transactionId);
+            jest.advanceTimersByTime(UpdateIntervalHelper.DEFAULT_INTERVAL);
+
+            await waitFor(() => sent()?.status === "confirmed");
+            expect(node.requests.some(r => r.includes(recipient))).toBe(true);
+        });
+
+        test("does not confirm a stale transaction whose outputs were never seen", async () => {
+            await service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(1000));
+            // the recipient spends the output before the wallet sees it
+            node.spend(recipient);
+
+            await pollLater();
+
+            expect(sent()?.status).toBe("unknown");
+        });
+
+        test("rejects a stale transaction whose inputs are still unspent", async () => {
+            node.isDropping = true;
+            await service.sendFunds(recipient, Colors.IOTA_NAME, BigInt(1000));
+            expect(service.getAvailableOutputs()).toEqual([]);
+
+            await pollLater();
+
+            expect(sent()?.status).toBe("rejected");
+            expect(service.getAvailableOutputs()?.map(a => a.address)).toEqual([addresses[0]]);
+        });
+    });
+
+    describe("updates", () => {
+        let server: WS.Server;
+        let sockets: WS[];
+        let received: unknown[];
+
+        beforeEach(async () => {
+            sockets = [];
+            received = [];
+            await new Promise(resolve => {
+                server = new WS.Server({ host: "127.0.0.1", port: 0 }, resolve);
+            });
+            server.on("connection", socket => {
+                sockets.push(socket);
+                socket.on("message", data => received.push(JSON.parse(String(data))));
+            });
+
+            const settingsService = ServiceFactory.get<SettingsService>("settings");
+            await settingsService.set({
+                ...await settingsService.get(),
+                apiEndpoint: `http://127.0.0.1:${(server.address() as AddressInfo).port}`,
+                isEventStreamEnabled: true
+            });
+
+            jest.useFakeTimers();
+            await service.create("password", seed);
+        });
+
+        afterEach(async () => {
+            service.lock();
+            await new Promise(resolve => server.close(resolve));
+        });
+
+        /**
+         * Close the stream from the node side and wait for the wallet to see it.
+         */
+        async function closeStream(): Promise<void> {
+            await new Promise(resolve => server.close(resolve));
+            await waitFor(() => sockets.every(s => s.readyState === WS.CLOSED));
+            await flush();
+        }
+
+        test("subscribes to the wallet addresses when the stream opens", async () => {
+            await waitFor(() => received.length === 1);
+
+            expect(received).toEqual([{ type: "subscribe", addresses: [addresses[0]] }]);
+        });
+
+        test("does not open the stream unless it is enabled", async () => {
+            await waitFor(() => sockets.length === 1);
+            const settingsService = ServiceFactory.get<SettingsService>("settings");
+            await settingsService.set({ ...await settingsService.get(), isEventStreamEnabled: false });
+
+            service.lock();
+            await service.unlock("password");
+            await flush();
+            const polls = node.requests.length;
+
+            expect(sockets.length).toBe(1);
+            jest.advanceTimersByTime(UpdateIntervalHelper.DEFAULT_INTERVAL);
+            await waitFor(() => node.requests.length === polls + 1);
+        });
+
+        test("updates once after a burst of events for the wallet addresses", async () => {
+            await waitFor(() => received.length === 1);
+            await flush();
+            const polls = node.requests.length;
+
+            sockets[0].send(JSON.stringify({ type: "output", address: addresses[0], transactionId: "tx1" }));
+            sockets[0].send(JSON.stringify({ type: "inclusion-state", address: addresses[0], transactionId: "tx1" }));
+            sockets[0].send(JSON.stringify({ type: "output", address: "other", transactionId: "tx2" }));
+            sockets[0].send(JSON.stringify({ type: "inclusion-state", address: addresses[0], transactionId: "tx1" }));
+            await flush();
+
+            jest.advanceTimersByTime(499);
+            await flush();
+            expect(node.requests.length).toBe(polls);
+
+            jest.advanceTimersByTime(1);
+            await waitFor(() => node.requests.length === polls + 1);
+
+            // the open stream leaves the polls to reconcile rarely
+            jest.advanceTimersByTime(UpdateIntervalHelper.MAX_INTERVAL - 501);
+            await flush();
+            expect(node.requests.length).toBe(polls + 1);
+        });
+
+        test("ignores events for other addresses", async () => {
+            await waitFor(() => received.length === 1);
+            await flush();
+            const polls = node.requests.length;
+
+            sockets[0].send(JSON.stringify({ type: "output", address: "other", transactionId: "tx1" }));
+            await flush();
+
+            jest.advanceTimersByTime(1000);
+            await flush();
+            expect(node.requests.length).toBe(polls);
+        });
+
+        test("falls back to polling with back off when the stream closes", async () => {
+            await waitFor(() => received.length === 1);
+            // the node goes away so the stream can not be reconnected
+            await closeStream();
+            const polls = node.requests.length;
+
+            const pollTimes: number[] = [];
+            let elapsed = 0;
+            while (pollTimes.length < 5) {
+                jest.advanceTimersByTime(1000);
+                elapsed += 1000;
+                await flush();
+                if (node.requests.length - polls > pollTimes.length) {
+                    pollTimes.push(elapsed);
+                }
+            }
+
+            const intervals = pollTimes.map((t, i) => t - (i > 0 ? pollTimes[i - 1] : 0));
+            expect(intervals).toEqual([
+                UpdateIntervalHelper.MIN_INTERVAL,
+                10000,
+                20000,
+                40000,
+                UpdateIntervalHelper.MAX_INTERVAL
+            ]);
+        });
+
+        test("polls at the minimum interval when a poll finds changes", async () => {
+            await waitFor(() => received.length === 1);
+            await closeStream();
+            const polls = node.requests.length;
+
+            node.addOutput(addresses[0], 100);
+            jest.advanceTimersByTime(UpdateIntervalHelper.MIN_INTERVAL);
+            await waitFor(() => node.requests.length === polls + 1);
+
+            node.addOutput(addresses[0], 200);
+            jest.advanceTimersByTime(UpdateIntervalHelper.MIN_INTERVAL);
+            await waitFor(() => node.requests.length === polls + 2);
+            await flush();
+
+            expect(service.getWalletBalances()?.[0].confirmed).toBe(BigInt(300));
+        });
+    });
+});
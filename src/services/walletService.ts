@@ -1,35 +1,106 @@
+import { CoinSelectionStrategies } from "../coinSelection/coinSelectionStrategies";
 import { ServiceFactory } from "../factories/serviceFactory";
+import { AddressDiscoveryHelper } from "../helpers/addressDiscoveryHelper";
+import { CoinSelectionHelper } from "../helpers/coinSelectionHelper";
+import { EncryptionHelper } from "../helpers/encryptionHelper";
+import { InclusionStateHelper } from "../helpers/inclusionStateHelper";
+import { SignedMessageHelper } from "../helpers/signedMessageHelper";
+import { UpdateIntervalHelper } from "../helpers/updateIntervalHelper";
 import { ApiClient } from "../iota/api/apiClient";
+import { EventStreamClient } from "../iota/api/eventStreamClient";
+import { IEventStreamEvent } from "../iota/api/models/IEventStreamEvent";
+import { Address } from "../iota/address";
+import { AddressCache } from "../iota/addressCache";
 import { Colors } from "../iota/colors";
 import { Base58 } from "../iota/crypto/base58";
+import { ED25519 } from "../iota/crypto/ed25519";
+import { IKeyPair } from "../iota/models/IKeyPair";
 import { ITransaction } from "../iota/models/ITransaction";
 import { Seed } from "../iota/seed";
 import { Transaction } from "../iota/transaction";
+import { IAddressDiscoveryOptions } from "../models/IAddressDiscoveryOptions";
+import { IAddressDiscoveryResult } from "../models/IAddressDiscoveryResult";
+import { IAddressScanProgress } from "../models/IAddressScanProgress";
+import { ICoinSelectionCandidate } from "../models/ICoinSelectionCandidate";
+import { ICryptoSignature } from "../models/ICryptoSignature";
+import { IMaxSendAmount } from "../models/IMaxSendAmount";
 import { ISendFundsOptions } from "../models/ISendFundsOptions";
+import { ISignedMessage } from "../models/ISignedMessage";
+import { ISignedTransaction } from "../models/ISignedTransaction";
+import { ITransactionDraft } from "../models/ITransactionDraft";
+import { IUnsignedTransaction } from "../models/IUnsignedTransaction";
 import { IWallet } from "../models/IWallet";
 import { IWalletAddress } from "../models/IWalletAddress";
 import { IWalletAddressOutput } from "../models/IWalletAddressOutput";
 import { IWalletAsset } from "../models/IWalletAsset";
 import { IWalletBalance } from "../models/IWalletBalance";
+import { IWalletEvent } from "../models/IWalletEvent";
 import { IWalletOutput } from "../models/IWalletOutput";
+import { IWalletOutputInclusionState } from "../models/IWalletOutputInclusionState";
+import { IWalletTransaction } from "../models/IWalletTransaction";
+import { IWalletTransactionAmount } from "../models/IWalletTransactionAmount";
+import { IWatchAddress } from "../models/IWatchAddress";
+import { ICryptoService } from "../models/services/ICryptoService";
 import { IJsonStorageService } from "../models/services/IJsonStorageService";
+import { IProfileService } from "../models/services/IProfileService";
 import { IWalletService } from "../models/services/IWalletService";
+import { ProfileService } from "./profileService";
 import { SettingsService } from "./settingsService";
 
 /**
  * Service to manage a wallet.
  */
 export class WalletService implements IWalletService {
+    /**
+     * How long to wait for more stream events before updating the wallet.
+     */
+    private static readonly STREAM_UPDATE_DELAY: number = 500;
+
+    /**
+     * How long to wait for more updates before notifying the subscribers.
+     */
+    private static readonly NOTIFY_DELAY: number = 200;
+
+    /**
+     * How long an outgoing transaction can be in flight before it is resolved from the state of its inputs.
+     */
+    private static readonly STALE_TRANSACTION_TIMEOUT: number = 600000;
+
     /**
      * The json storage service to use.
      */
     private readonly _jsonStorageService: IJsonStorageService;
 
+    /**
+     * The profile service to use.
+     */
+    private readonly _profileService: IProfileService;
+
+    /**
+     * The id of the profile the current wallet belongs to.
+     */
+    private _profileId?: string;
+
     /**
      * The current wallet.
      */
     private _wallet?: IWallet;
 
+    /**
+     * The decrypted seed for the unlocked wallet.
+     */
+    private _seed?: Buffer;
+
+    /**
+     * The service which derives keys and signs off the render thread.
+     */
+    private readonly _cryptoService: ICryptoService;
+
+    /**
+     * The addresses derived from the seed.
+     */
+    private readonly _addressCache: AddressCache;
+
     /**
      * The unspent outputs for the wallet.
      */
@@ -51,14 +122,69 @@ export class WalletService implements IWalletService {
     private _spentOutputTransactions?: string[];
 
     /**
-     * Timer to check update wallet.
+     * The transaction history for the wallet.
+     */
+    private _history?: IWalletTransaction[];
+
+    /**
+     * Timer for the next poll for wallet updates.
      */
     private _timerId?: NodeJS.Timer;
 
+    /**
+     * The interval before the next poll for wallet updates.
+     */
+    private _updateInterval: number;
+
+    /**
+     * Incremented when updates stop so callbacks from earlier updates are ignored.
+     */
+    private _updatesGeneration: number;
+
+    /**
+     * The stream of address events pushed by the node.
+     */
+    private _eventStream?: EventStreamClient;
+
+    /**
+     * Timer to reconnect the event stream.
+     */
+    private _streamRetryTimerId?: NodeJS.Timer;
+
+    /**
+     * The delay before the event stream is reconnected.
+     */
+    private _streamRetryDelay: number;
+
+    /**
+     * Timer to update once a burst of stream events has passed.
+     */
+    private _streamUpdateTimerId?: NodeJS.Timer;
+
+    /**
+     * Timer to notify the subscribers once a burst of updates has passed.
+     */
+    private _notifyTimerId?: NodeJS.Timer;
+
+    /**
+     * Timer to check if the wallet has been idle.
+     */
+    private _idleTimerId?: NodeJS.Timer;
+
+    /**
+     * The time of the last user activity.
+     */
+    private _lastActivity: number;
+
+    /**
+     * Drafts waiting to be confirmed.
+     */
+    private _drafts: { [id: string]: ITransactionDraft };
+
     /**
      * Subsribers to wallet updates.
      */
-    private readonly _subscribers: { [id: string]: () => void };
+    private readonly _subscribers: { [id: string]: (event?: IWalletEvent) => void };
 
     /**
      * Do we allow reusable addresses.
@@ -70,16 +196,24 @@ export class WalletService implements IWalletService {
      */
     constructor() {
         this._jsonStorageService = ServiceFactory.get<IJsonStorageService>("json-storage");
+        this._profileService = ServiceFactory.get<IProfileService>("profile");
         this._subscribers = {};
         this._reusableAddresses = false;
+        this._cryptoService = ServiceFactory.get<ICryptoService>("crypto");
+        this._addressCache = new AddressCache(this._cryptoService);
+        this._drafts = {};
+        this._lastActivity = Date.now();
+        this._updateInterval = UpdateIntervalHelper.DEFAULT_INTERVAL;
+        this._updatesGeneration = 0;
+        this._streamRetryDelay = UpdateIntervalHelper.MIN_INTERVAL;
     }
 
     /**
      * Subscribe to the wallet updates.
-     * @param callback The callback to trigger when there are updates.
+     * @param callback The callback to trigger when there are updates, with the event if there is one.
      * @returns The subscription id.
      */
-    public subscribe(callback: () => void): string {
+    public subscribe(callback: (event?: IWalletEvent) => void): string {
         const id = Base58.encode(Seed.generate());
 
         this._subscribers[id] = callback;
@@ -96,13 +230,82 @@ export class WalletService implements IWalletService {
     }
 
     /**
-     * Create a new wallet current wallet.
-     * @param seed Optional seed to import.
+     * Create a new wallet current wallet, the wallet is unlocked after creation.
+     * @param password The password to encrypt the seed with.
+     * @param seed Optional seed to import, the ledger is scanned for the addresses it has used.
+     * @param onProgress Callback to report progress of the address scan.
+     * @returns The new wallet.
+     */
+    public async create(
+        password: string,
+        seed?: string,
+        onProgress?: (progress: IAddressScanProgress) => void): Promise<IWallet> {
+        if (seed !== undefined && !Seed.isValid(seed)) {
+            throw new Error("The seed is not valid");
+        }
+
+        this.clearSession();
+
+        const seedBuffer = seed ? Base58.decode(seed) : Seed.generate();
+
+        const wallet: IWallet = {
+            encryptedSeed: await EncryptionHelper.encrypt(password, seedBuffer),
+            lastAddressIndex: 0,
+            spentAddresses: [],
+            assets: []
+        };
+
+        // the wallet only becomes current once the scan has succeeded, so a failure leaves nothing behind
+        try {
+            if (seed) {
+                wallet.lastAddressIndex = await this.findLastUsedAddressIndex(seedBuffer, onProgress);
+            }
+        } catch (err) {
+            seedBuffer.fill(0);
+            throw err;
+        }
+
+        this._wallet = wallet;
+        this._seed = seedBuffer;
+
+        try {
+            await this.initialiseWallet();
+            await this.save();
+        } catch (err) {
+            this.clearSession();
+            this._wallet = undefined;
+            throw err;
+        }
+        await this.startUpdates();
+        this.startIdleCheck();
+
+        return wallet;
+    }
+
+    /**
+     * Create a watch-only wallet which tracks addresses without a seed.
+     * @param addresses The addresses to watch.
      * @returns The new wallet.
      */
-    public async create(): Promise<IWallet> {
+    public async createWatchOnly(addresses: IWatchAddress[]): Promise<IWallet> {
+        if (addresses.length === 0) {
+            throw new Error("There are no addresses to watch");
+        }
+
+        const watchAddresses: IWatchAddress[] = [];
+        for (const watchAddress of addresses) {
+            if (!Address.isValid(watchAddress.address)) {
+                throw new Error(`The address ${watchAddress.address} is not valid`);
+            }
+            if (!watchAddresses.some(w => w.address === watchAddress.address)) {
+                watchAddresses.push(watchAddress);
+            }
+        }
+
+        this.clearSession();
+
         this._wallet = {
-            seed: Base58.encode(Seed.generate()),
+            watchAddresses,
             lastAddressIndex: 0,
             spentAddresses: [],
             assets: []
@@ -116,7 +319,7 @@ export class WalletService implements IWalletService {
     }
 
     /**
-     * Get the current wallet.
+     * Get the current wallet, if the wallet is locked only the stored details are available.
      * @returns The wallet if there is one.
      */
     public async get(): Promise<IWallet | undefined> {
@@ -124,22 +327,151 @@ export class WalletService implements IWalletService {
             this._wallet = await this.load();
         }
 
-        await this.initialiseWallet();
-        await this.startUpdates();
+        if (this._seed || this.isWatchOnly()) {
+            await this.initialiseWallet();
+            await this.startUpdates();
+        }
 
         return this._wallet;
     }
 
     /**
-     * Delete the current wallet.
+     * Delete the current wallet, the wallet must be unlocked.
      */
     public async delete(): Promise<void> {
-        this.stopUpdates();
+        if (this.isLocked()) {
+            throw new Error("The wallet must be unlocked before it can be deleted");
+        }
+        this.clearSession();
         this._wallet = undefined;
-        this._balances = undefined;
-        this._unspentOutputs = undefined;
-        this._spentOutputTransactions = undefined;
-        await this._jsonStorageService.remove("wallet.json");
+        const profileId = await this.getProfileId();
+        await this._jsonStorageService.remove(ProfileService.storageName(profileId, "wallet"));
+        await this._jsonStorageService.remove(ProfileService.storageName(profileId, "history"));
+    }
+
+    /**
+     * Switch to the wallet of another profile, the current wallet is locked.
+     * @param id The id of the profile to switch to.
+     * @returns The wallet of the profile if it has one.
+     */
+    public async switchProfile(id: string): Promise<IWallet | undefined> {
+        this.clearSession();
+        this._wallet = undefined;
+
+        await this._profileService.setActive(id);
+        this._profileId = id;
+
+        const wallet = await this.get();
+        this.notifySubscribers();
+
+        return wallet;
+    }
+
+    /**
+     * Delete a profile and its wallet, the active profile can not be deleted.
+     * @param id The id of the profile to delete.
+     * @param password The password of the profile wallet, not needed for a watch-only wallet.
+     */
+    public async deleteProfile(id: string, password?: string): Promise<void> {
+        if (id === await this.getProfileId()) {
+            throw new Error("The active profile can not be deleted, switch to another profile first");
+        }
+
+        const wallet = await this._jsonStorageService.get<IWallet>(ProfileService.storageName(id, "wallet"));
+        if (wallet?.encryptedSeed) {
+            if (!password) {
+                throw new Error("The password of the profile is required to delete its wallet");
+            }
+            const seed = await EncryptionHelper.decrypt(password, wallet.encryptedSeed);
+            seed.fill(0);
+        }
+
+        await this._profileService.remove(id);
+        await this._jsonStorageService.remove(ProfileService.storageName(id, "wallet"));
+        await this._jsonStorageService.remove(ProfileService.storageName(id, "history"));
+    }
+
+    /**
+     * Is the current wallet locked.
+     * @returns True if there is a wallet and it is locked.
+     */
+    public isLocked(): boolean {
+        return this._wallet !== undefined && !this.isWatchOnly() && this._seed === undefined;
+    }
+
+    /**
+     * Is the current wallet watch-only.
+     * @returns True if the wallet tracks addresses without a seed.
+     */
+    public isWatchOnly(): boolean {
+        return this._wallet?.watchAddresses !== undefined;
+    }
+
+    /**
+     * Export the wallet addresses with their indexes so they can be watched elsewhere.
+     * @returns The addresses to watch.
+     */
+    public exportWatchAddresses(): IWatchAddress[] {
+        if (!this._seed || !this._addresses) {
+            throw new Error("The wallet must be unlocked to export its addresses");
+        }
+
+        return this._addresses.map(a => ({
+            address: a.address,
+            index: Number(a.index)
+        }));
+    }
+
+    /**
+     * Unlock the wallet, an unencrypted wallet will be encrypted with the password.
+     * @param password The password to decrypt the seed with.
+     */
+    public async unlock(password: string): Promise<void> {
+        if (!this._wallet) {
+            throw new Error("There is no wallet to unlock");
+        }
+
+        if (this._wallet.encryptedSeed) {
+            this._seed = await EncryptionHelper.decrypt(password, this._wallet.encryptedSeed);
+        } else if (this._wallet.seed) {
+            // Migrate the unencrypted seed, the first unlock sets the password
+            const seed = Base58.decode(this._wallet.seed);
+            this._wallet.encryptedSeed = await EncryptionHelper.encrypt(password, seed);
+            delete this._wallet.seed;
+            await this.save();
+            this._seed = seed;
+        } else {
+            throw new Error("The wallet does not contain a seed");
+        }
+
+        await this.initialiseWallet();
+        await this.startUpdates();
+        this.startIdleCheck();
+    }
+
+    /**
+     * Lock the wallet, removing the seed and keys from memory.
+     */
+    public lock(): void {
+        if (this._seed) {
+            this.clearSession();
+            this.notifySubscribers();
+        }
+    }
+
+    /**
+     * Record user activity to postpone the auto lock.
+     */
+    public recordActivity(): void {
+        this._lastActivity = Date.now();
+    }
+
+    /**
+     * Get the seed for the unlocked wallet.
+     * @returns The seed if the wallet is unlocked.
+     */
+    public getSeed(): string | undefined {
+        return this._seed ? Base58.encode(this._seed) : undefined;
     }
 
     /**
@@ -150,6 +482,112 @@ export class WalletService implements IWalletService {
         return this._balances;
     }
 
+    /**
+     * Get the transaction history for the wallet.
+     * @returns The transactions, most recent first.
+     */
+    public getTransactionHistory(): IWalletTransaction[] | undefined {
+        return this._history ? this._history.slice().sort((a, b) => b.created - a.created) : undefined;
+    }
+
+    /**
+     * Get the unspent outputs which are not being spent by a pending transaction.
+     * @returns The outputs grouped by address.
+     */
+    public getAvailableOutputs(): IWalletAddressOutput[] | undefined {
+        if (this._unspentOutputs) {
+            return this._unspentOutputs
+                .map(unspentOutput => ({
+                    address: unspentOutput.address,
+                    outputs: unspentOutput.outputs.filter(o =>
+                        !this._spentOutputTransactions ||
+                        !this._spentOutputTransactions.includes(o.transactionId))
+                }))
+                .filter(unspentOutput => unspentOutput.outputs.length > 0);
+        }
+    }
+
+    /**
+     * Get the unspent outputs of an address, including those being spent by a pending transaction.
+     * @param address The address to get the outputs for.
+     * @returns The outputs.
+     */
+    public getAddressOutputs(address: string): IWalletOutput[] {
+        const addressOutput = this._unspentOutputs?.find(u => u.address === address);
+        return addressOutput ? addressOutput.outputs : [];
+    }
+
+    /**
+     * Set the label for one of the wallet addresses.
+     * @param address The address to label.
+     * @param label The label, an empty label removes it.
+     */
+    public async setAddressLabel(address: string, label: string): Promise<void> {
+        if (!this._wallet || !this._addresses) {
+            throw new Error("The wallet is not available");
+        }
+        const walletAddress = this._addresses.find(a => a.address === address);
+        if (!walletAddress) {
+            throw new Error(`The address ${address} is not part of this wallet`);
+        }
+
+        const trimmed = label.trim();
+        this._wallet.addressLabels = this._wallet.addressLabels ?? {};
+        if (trimmed.length > 0) {
+            this._wallet.addressLabels[address] = trimmed;
+            walletAddress.label = trimmed;
+        } else {
+            delete this._wallet.addressLabels[address];
+            walletAddress.label = undefined;
+        }
+
+        await this.save();
+        this.notifySubscribers();
+    }
+
+    /**
+     * Calculate the most of a color that can be sent, and what else moves with it.
+     * @param color The color to send.
+     * @returns The amount, the outputs to spend, the other colors which move to the remainder
+     * and the amount waiting for unconfirmed outputs on the same addresses.
+     */
+    public getMaxSendAmount(color: string): IMaxSendAmount {
+        const max: IMaxSendAmount = {
+            amount: BigInt(0),
+            inputs: [],
+            remainder: {},
+            pending: BigInt(0)
+        };
+
+        for (const addressOutput of this.getAvailableOutputs() ?? []) {
+            const confirmed = addressOutput.outputs.filter(o => o.inclusionState.confirmed);
+            const withColor = confirmed.filter(o => o.balances.some(b => b.color === color));
+            if (withColor.length === 0) {
+                continue;
+            }
+
+            if (!this._reusableAddresses && confirmed.length < addressOutput.outputs.length) {
+                // the address is only spent once so it waits until all of its outputs are confirmed
+                max.pending += this.totalBalances(withColor)[color];
+                continue;
+            }
+
+            // an address is only spent once unless it is reusable, so its other outputs move as well
+            for (const output of this._reusableAddresses ? withColor : confirmed) {
+                max.inputs.push(output.transactionId);
+                for (const balance of output.balances) {
+                    if (balance.color === color) {
+                        max.amount += balance.value;
+                    } else {
+                        max.remainder[balance.color] = (max.remainder[balance.color] ?? BigInt(0)) + balance.value;
+                    }
+                }
+            }
+        }
+
+        return max;
+    }
+
     /**
      * Get the current wallet addresses.
      * @returns The addresses.
@@ -251,12 +689,14 @@ export class WalletService implements IWalletService {
      * Send funds to an address.
      * @param address The address to send the funds to.
      * @param color The color of the tokens to send.
-     * @param amount The amount of tokens to send.
+     * @param amount The amount of tokens to send, ignored when sending the maximum.
+     * @param sendMax Send the whole spendable confirmed balance of the color.
      */
-    public async sendFunds(address: string, color: string, amount: bigint): Promise<void> {
-        const txId = await this.sendFundsWithOptions(
-            this.createSendFundOptions(address, amount, color)
-        );
+    public async sendFunds(address: string, color: string, amount: bigint, sendMax: boolean = false): Promise<void> {
+        const sendFundsOptions = this.createSendFundOptions(address, amount, color);
+        sendFundsOptions.sendMax = sendMax;
+
+        const txId = await this.sendFundsWithOptions(sendFundsOptions);
 
         if (txId) {
             await this.save();
@@ -265,152 +705,1160 @@ export class WalletService implements IWalletService {
     }
 
     /**
-     * Send funds from source to destination.
+     * Send funds to multiple destinations in a single transaction.
      * @param sendFundsOptions The options for sending.
      * @returns The new tx id.
      */
     public async sendFundsWithOptions(sendFundsOptions: ISendFundsOptions): Promise<string | undefined> {
-        if (this._wallet && this._addresses) {
-            await this.doUpdates();
-
-            // Calculate the spending requirements
-            const consumedOutputs = this.determineOutputsToConsume(sendFundsOptions);
-
-            const { inputs, consumedFunds } = this.buildInputs(consumedOutputs);
-            const outputs = this.buildOutputs(sendFundsOptions, consumedFunds);
-
-            const seed = Base58.decode(this._wallet.seed);
+        if (this.isWatchOnly()) {
+            throw new Error("A watch-only wallet can not sign, build an unsigned transaction instead");
+        }
+        if (this._wallet && this._seed && this._addresses) {
+            const draft = await this.createDraft(sendFundsOptions);
+            return this.submitDraft(draft.id);
+        }
+    }
 
-            const tx: ITransaction = {
-                inputs,
-                outputs,
-                signatures: {}
-            };
+    /**
+     * Build a transaction for review, it is not signed until the draft is confirmed.
+     * @param sendFundsOptions The options for sending.
+     * @returns The draft describing the transaction.
+     */
+    public async createDraft(sendFundsOptions: ISendFundsOptions): Promise<ITransactionDraft> {
+        if (this.isWatchOnly()) {
+            throw new Error("A watch-only wallet can not sign, build an unsigned transaction instead");
+        }
+        if (!this._wallet || !this._seed) {
+            throw new Error("The wallet must be unlocked to send funds");
+        }
 
-            const txEssence = Transaction.essence(tx);
+        const unsigned = await this.buildUnsignedTransaction(sendFundsOptions);
 
-            for (const address in consumedOutputs) {
-                const addr = this._addresses.find(a => a.address === address);
-                if (addr) {
-                    const keyPair = Seed.generateKeyPair(seed, addr.index);
-                    tx.signatures[address] = {
-                        keyPair,
-                        signature: Transaction.sign(keyPair, txEssence)
-                    };
+        const spentAddresses: string[] = [];
+        if (!this._reusableAddresses) {
+            for (const input of unsigned.inputs) {
+                if (!spentAddresses.includes(input.address)) {
+                    spentAddresses.push(input.address);
                 }
             }
+        }
 
-            const apiClient = await this.buildApiClient();
-            const response = await apiClient.sendTransaction({
-                // eslint-disable-next-line @typescript-eslint/camelcase
-                txn_bytes: Transaction.bytes(tx, txEssence).toString("base64")
-            });
-
-            if (response.error) {
-                throw new Error(response.error);
-            }
-
-            // Mark outputs as spent
-            this._spentOutputTransactions = this._spentOutputTransactions ?? [];
-            for (const address in consumedOutputs) {
-                for (const transactionId in consumedOutputs[address]) {
-                    if (!this._spentOutputTransactions.includes(transactionId)) {
-                        this._spentOutputTransactions.push(transactionId);
-                    }
+        const minted: ITransactionDraft["minted"] = [];
+        for (const destination of unsigned.destinations) {
+            for (const balance of destination.balances) {
+                if (balance.color === Colors.NEW) {
+                    minted.push({ address: destination.address, value: balance.value });
                 }
             }
+        }
 
-            // mark addresses as spent
-            if (!this._reusableAddresses) {
-                for (const address in consumedOutputs) {
-                    if (!this._wallet.spentAddresses.includes(address)) {
-                        this._wallet.spentAddresses.push(address);
-                    }
-                }
-            }
+        const draft: ITransactionDraft = {
+            ...unsigned,
+            // the hash of the essence identifies exactly what will be signed
+            id: await this._cryptoService.hashEssence(Buffer.from(unsigned.essence, "base64")),
+            spentAddresses,
+            minted
+        };
 
-            return response.transaction_id;
-        }
+        this._drafts[draft.id] = draft;
+
+        return draft;
     }
 
     /**
-     * Request funds from the faucet.
-     * @returns Returns the transaction id.
+     * Sign and send a draft transaction.
+     * @param id The id of the draft to confirm.
+     * @returns The new tx id.
      */
-    public async requestFunds(): Promise<string | undefined> {
-        if (this._wallet && this._addresses) {
-            const receiveAddress = this.getReceiveAddress();
-
-            if (receiveAddress) {
-                const apiClient = await this.buildApiClient();
-                const response = await apiClient.faucet({
-                    address: receiveAddress
-                });
-                if (response.error) {
-                    throw new Error(response.error);
-                }
-                await this.doUpdates();
+    public async confirmDraft(id: string): Promise<string | undefined> {
+        const txId = await this.submitDraft(id);
 
-                return response.id;
-            }
+        if (txId) {
+            await this.doUpdates();
         }
+
+        return txId;
     }
 
     /**
-     * Get unspent outputs data.
-     * @returns The unspent output data.
+     * Discard a draft transaction without sending it.
+     * @param id The id of the draft to discard.
      */
-    public async getUnspentOutputs(): Promise<IWalletAddressOutput[]> {
-        if (!this._wallet) {
-            return [];
+    public discardDraft(id: string): void {
+        delete this._drafts[id];
+    }
+
+    /**
+     * Build a transaction without signing it, so it can be signed elsewhere.
+     * @param sendFundsOptions The options for sending.
+     * @returns The unsigned transaction.
+     */
+    public async buildUnsignedTransaction(sendFundsOptions: ISendFundsOptions): Promise<IUnsignedTransaction> {
+        if (!this._wallet || !this._addresses) {
+            throw new Error("The wallet is not available");
+        }
+
+        await this.doUpdates();
+
+        if (sendFundsOptions.sendMax) {
+            this.applySendMax(sendFundsOptions);
+        }
+
+        sendFundsOptions.coinSelection = sendFundsOptions.coinSelection ?? await this.getDefaultCoinSelection();
+
+        // Calculate the spending requirements
+        const consumedOutputs = await this.determineOutputsToConsume(sendFundsOptions);
+
+        const { inputs, consumedFunds } = this.buildInputs(consumedOutputs);
+        const outputs = this.buildOutputs(sendFundsOptions, consumedFunds);
+
+        const dataPayload = sendFundsOptions.memo ? Buffer.from(sendFundsOptions.memo, "utf8") : undefined;
+        if (dataPayload && dataPayload.length > Transaction.MAX_DATA_PAYLOAD_SIZE) {
+            throw new Error(
+                `The memo is ${dataPayload.length} bytes, the maximum is ${Transaction.MAX_DATA_PAYLOAD_SIZE}`);
+        }
+
+        if (inputs.length > Transaction.MAX_INPUTS) {
+            throw new Error(
+                `The transaction needs ${inputs.length} inputs, the maximum is ${Transaction.MAX_INPUTS}`);
+        }
+        const outputCount = Object.keys(outputs).length;
+        if (outputCount > Transaction.MAX_OUTPUTS) {
+            throw new Error(
+                `The transaction needs ${outputCount} outputs, the maximum is ${Transaction.MAX_OUTPUTS}`);
+        }
+
+        const unsignedInputs: IUnsignedTransaction["inputs"] = [];
+        for (const address in consumedOutputs) {
+            const addr = this._addresses.find(a => a.address === address);
+            if (!addr) {
+                throw new Error(`The address ${address} is not part of this wallet`);
+            }
+            const watchAddress = this._wallet.watchAddresses?.find(w => w.address === address);
+            if (watchAddress && watchAddress.index === undefined) {
+                throw new Error(`The address ${address} was watched without its index so it can not be signed`);
+            }
+            for (const transactionId in consumedOutputs[address]) {
+                unsignedInputs.push({
+                    transactionId,
+                    address,
+                    addressIndex: Number(addr.index),
+                    balances: consumedOutputs[address][transactionId].balances.map(b => ({
+                        color: b.color,
+                        value: b.value.toString()
+                    }))
+                });
+            }
+        }
+
+        const essence = Transaction.essence({
+            inputs,
+            outputs,
+            dataPayload,
+            signatures: {}
+        });
+
+        return {
+            essence: essence.toString("base64"),
+            inputs: unsignedInputs,
+            destinations: Object.keys(sendFundsOptions.destinations).map(address => ({
+                address,
+                balances: Object.keys(sendFundsOptions.destinations[address]).map(color => ({
+                    color,
+                    value: sendFundsOptions.destinations[address][color].toString()
+                }))
+            })),
+            outputs: Object.keys(outputs).map(address => ({
+                address,
+                balances: outputs[address].map(b => ({
+                    color: b.color,
+                    value: b.value.toString()
+                }))
+            })),
+            remainderAddress: sendFundsOptions.remainderAddress,
+            memo: sendFundsOptions.memo,
+            created: Date.now()
+        };
+    }
+
+    /**
+     * Does the address belong to the current wallet, derived from its seed or watched.
+     * @param address The address to check.
+     * @returns True if the address belongs to the wallet.
+     */
+    public async isOwnAddress(address: string): Promise<boolean> {
+        if (this._addresses?.some(a => a.address === address)) {
+            return true;
+        }
+        if (this._wallet?.watchAddresses) {
+            return this._wallet.watchAddresses.some(w => w.address === address);
+        }
+        return this._seed ? this.isSeedAddress(this._seed, address) : false;
+    }
+
+    /**
+     * Sign a transaction which was built by this or another instance of the wallet.
+     * @param unsigned The unsigned transaction.
+     * @returns The signed transaction.
+     */
+    public async signUnsignedTransaction(unsigned: IUnsignedTransaction): Promise<ISignedTransaction> {
+        const seed = this._seed;
+        if (!seed) {
+            throw new Error("The wallet must be unlocked to sign a transaction");
+        }
+
+        const essence = this.verifyEssence(unsigned).essence;
+
+        // the remainder is shown as our own change so a file must not be able to claim any address as it
+        if (unsigned.remainderAddress && !(await this.isSeedAddress(seed, unsigned.remainderAddress))) {
+            throw new Error(`The remainder address ${unsigned.remainderAddress} does not belong to this wallet`);
+        }
+
+        const indexes: { [address: string]: number } = {};
+        for (const input of unsigned.inputs) {
+            indexes[input.address] = input.addressIndex;
+        }
+
+        const addresses = Object.keys(indexes);
+        const signed = await this._cryptoService.signBatch(seed, addresses.map(a => indexes[a]), essence);
+
+        const signatures: ISignedTransaction["signatures"] = [];
+        for (let i = 0; i < addresses.length; i++) {
+            if (signed[i].address !== addresses[i]) {
+                throw new Error(`The address ${addresses[i]} does not belong to this wallet`);
+            }
+
+            signatures.push({
+                address: addresses[i],
+                publicKey: signed[i].publicKey.toString("base64"),
+                signature: signed[i].signature.toString("base64")
+            });
+        }
+
+        return {
+            ...unsigned,
+            signatures
+        };
+    }
+
+    /**
+     * Broadcast a signed transaction and record it in the wallet.
+     * @param signed The signed transaction.
+     * @returns The new tx id.
+     */
+    public async broadcastSignedTransaction(signed: ISignedTransaction): Promise<string | undefined> {
+        if (!this._wallet) {
+            throw new Error("The wallet is not available");
+        }
+
+        const { tx, essence } = this.verifyEssence(signed);
+
+        for (const signature of signed.signatures) {
+            tx.signatures[signature.address] = {
+                publicKey: Buffer.from(signature.publicKey, "base64"),
+                signature: Buffer.from(signature.signature, "base64")
+            };
+        }
+
+        const inputAddresses: string[] = [];
+        for (const input of signed.inputs) {
+            if (!tx.signatures[input.address]) {
+                throw new Error(`The transaction is missing the signature for ${input.address}`);
+            }
+            if (!inputAddresses.includes(input.address)) {
+                inputAddresses.push(input.address);
+            }
+        }
+
+        const apiClient = await this.buildApiClient();
+        const response = await apiClient.sendTransaction({
+            // eslint-disable-next-line @typescript-eslint/camelcase
+            txn_bytes: Transaction.bytes(tx, essence).toString("base64")
+        });
+
+        if (response.error) {
+            throw new Error(response.error);
+        }
+
+        // Mark outputs as spent
+        this._spentOutputTransactions = this._spentOutputTransactions ?? [];
+        for (const input of signed.inputs) {
+            if (!this._spentOutputTransactions.includes(input.transactionId)) {
+                this._spentOutputTransactions.push(input.transactionId);
+            }
+        }
+
+        // mark addresses as spent
+        const spentAddresses: string[] = [];
+        if (!this._reusableAddresses) {
+            for (const address of inputAddresses) {
+                if (!this._wallet.spentAddresses.includes(address)) {
+                    this._wallet.spentAddresses.push(address);
+                    spentAddresses.push(address);
+                }
+            }
+        }
+
+        if (response.transaction_id) {
+            const sendFundsOptions: ISendFundsOptions = {
+                destinations: {},
+                memo: signed.memo
+            };
+            for (const destination of signed.destinations) {
+                sendFundsOptions.destinations[destination.address] = {};
+                for (const balance of destination.balances) {
+                    sendFundsOptions.destinations[destination.address][balance.color] = BigInt(balance.value);
+                }
+            }
+
+            const transaction = this.createOutgoingHistory(
+                response.transaction_id, sendFundsOptions, inputAddresses);
+            transaction.inputs = tx.inputs;
+            transaction.spentAddresses = spentAddresses;
+            await this.addHistory(transaction);
+        }
+
+        if (signed.remainderAddress && signed.remainderAddress === await this.peekReceiveAddress()) {
+            await this.newReceiveAddress();
+        }
+        await this.save();
+
+        return response.transaction_id;
+    }
+
+    /**
+     * Sign a message with the key pair of one of the wallet addresses.
+     * @param address The address to sign with.
+     * @param message The message to sign.
+     * @returns The signed message which proves ownership of the address.
+     */
+    public async signMessage(address: string, message: string): Promise<ISignedMessage> {
+        if (this.isWatchOnly()) {
+            throw new Error("A watch-only wallet can not sign messages");
+        }
+        if (!this._seed) {
+            throw new Error("The wallet must be unlocked to sign a message");
+        }
+
+        const addr = this._addresses?.find(a => a.address === address);
+        if (!addr) {
+            throw new Error(`The address ${address} is not part of this wallet`);
+        }
+
+        const [signed] = await this._cryptoService.signBatch(
+            this._seed, [Number(addr.index)], SignedMessageHelper.signingBytes(message));
+
+        return {
+            address,
+            message,
+            publicKey: signed.publicKey.toString("base64"),
+            signature: signed.signature.toString("base64")
+        };
+    }
+
+    /**
+     * Split the payments in to multiple sets which each fit within the transaction limits.
+     * @param sendFundsOptions The options for sending.
+     * @returns The options for each transaction, in the order they should be sent.
+     */
+    public async splitSendFundsOptions(sendFundsOptions: ISendFundsOptions): Promise<ISendFundsOptions[]> {
+        const coinSelection = sendFundsOptions.coinSelection ?? await this.getDefaultCoinSelection();
+        const batches: ISendFundsOptions[] = [];
+        const usedOutputs: string[] = [];
+        // leave an output for the remainder
+        const maxDestinations = Transaction.MAX_OUTPUTS - 1;
+
+        let current: ISendFundsOptions | undefined;
+        let currentOutputs: string[] = [];
+
+        for (const address in sendFundsOptions.destinations) {
+            const candidate: ISendFundsOptions = {
+                destinations: { ...(current ? current.destinations : {}) },
+                remainderAddress: sendFundsOptions.remainderAddress,
+                coinSelection
+            };
+            candidate.destinations[address] = sendFundsOptions.destinations[address];
+
+            const candidateOutputs = await this.countConsumedOutputs(candidate, usedOutputs);
+
+            if (current && (Object.keys(candidate.destinations).length > maxDestinations ||
+                candidateOutputs.length > Transaction.MAX_INPUTS)) {
+                // close the current batch and start a new one with this destination
+                batches.push(current);
+                usedOutputs.push(...currentOutputs);
+
+                current = {
+                    destinations: {},
+                    remainderAddress: sendFundsOptions.remainderAddress,
+                    coinSelection
+                };
+                current.destinations[address] = sendFundsOptions.destinations[address];
+                currentOutputs = await this.countConsumedOutputs(current, usedOutputs);
+            } else {
+                current = candidate;
+                currentOutputs = candidateOutputs;
+            }
+
+            if (currentOutputs.length > Transaction.MAX_INPUTS) {
+                throw new Error(`Sending to ${address} needs more than ${Transaction.MAX_INPUTS} inputs`);
+            }
+        }
+
+        if (current) {
+            batches.push(current);
+        }
+
+        return batches;
+    }
+
+    /**
+     * Move the confirmed outputs from every address in to a fresh address, addresses which
+     * are still receiving unconfirmed outputs are left for later.
+     * @param color Only consolidate outputs containing this color, all outputs if not provided.
+     * @returns The ids of the transactions sent.
+     */
+    public async consolidate(color?: string): Promise<string[]> {
+        if (this.isWatchOnly()) {
+            throw new Error("A watch-only wallet can not sign, build an unsigned transaction instead");
+        }
+        if (!this._wallet || !this._seed) {
+            throw new Error("The wallet must be unlocked to consolidate funds");
+        }
+
+        await this.doUpdates();
+
+        const outputs: IWalletOutput[] = [];
+        for (const addressOutput of this.getAvailableOutputs() ?? []) {
+            const confirmed = addressOutput.outputs.filter(o => o.inclusionState.confirmed);
+            if (!this._reusableAddresses && confirmed.length < addressOutput.outputs.length) {
+                // the address is only spent once so it waits until all of its outputs are confirmed
+                continue;
+            }
+            if (!color) {
+                outputs.push(...confirmed);
+            } else if (this._reusableAddresses) {
+                outputs.push(...confirmed.filter(o => o.balances.some(b => b.color === color)));
+            } else if (confirmed.some(o => o.balances.some(b => b.color === color))) {
+                // the address is spent so take everything from it
+                outputs.push(...confirmed);
+            }
+        }
+
+        if (outputs.length === 0) {
+            throw new Error("There are no confirmed outputs to consolidate");
+        }
+
+        const target = await this.newReceiveAddress();
+        if (!target) {
+            throw new Error("Unable to generate an address to consolidate in to");
+        }
+        await this.save();
+
+        const chunks: IWalletOutput[][] = [];
+        for (let i = 0; i < outputs.length; i += Transaction.MAX_INPUTS) {
+            chunks.push(outputs.slice(i, i + Transaction.MAX_INPUTS));
+        }
+
+        const transactionIds: string[] = [];
+        this.notifyProgress("consolidate", 0, chunks.length);
+
+        for (const chunk of chunks) {
+            const transactionId = await this.sendFundsWithOptions({
+                destinations: {
+                    [target]: this.totalBalances(chunk)
+                },
+                remainderAddress: target,
+                inputs: chunk.map(o => o.transactionId)
+            });
+
+            if (transactionId) {
+                transactionIds.push(transactionId);
+            }
+            this.notifyProgress("consolidate", transactionIds.length, chunks.length, transactionId);
+        }
+
+        await this.doUpdates();
+
+        return transactionIds;
+    }
+
+    /**
+     * Move everything held by a foreign seed or subseed in to this wallet.
+     * @param seed The foreign seed or subseed in Base58.
+     * @param isSubseed The seed is the subseed of a single address.
+     * @returns The ids of the transactions sent.
+     */
+    public async sweep(seed: string, isSubseed: boolean): Promise<string[]> {
+        if (!Seed.isValid(seed)) {
+            throw new Error("The seed is not valid");
+        }
+
+        const receiveAddress = this.getReceiveAddress();
+        if (!this._wallet || !receiveAddress) {
+            throw new Error("The wallet does not have an address to sweep the funds in to");
+        }
+
+        const foreignSeed = Base58.decode(seed);
+        const indexes: { [address: string]: number } = {};
+        let subseedKeyPair: IKeyPair | undefined;
+
+        try {
+            const apiClient = await this.buildApiClient();
+            let found: IWalletAddressOutput[] = [];
+
+            if (isSubseed) {
+                subseedKeyPair = ED25519.keyPairFromSeed(foreignSeed);
+                const address = Address.fromPublicKey(subseedKeyPair.publicKey);
+                found = await this.fetchUnspentOutputs(apiClient, [address]);
+            } else {
+                const result = await this.discoverAddresses(
+                    async (startIndex, count) => {
+                        const addresses = await this._cryptoService.deriveAddresses(foreignSeed, startIndex, count);
+                        for (let i = 0; i < addresses.length; i++) {
+                            indexes[addresses[i]] = startIndex + i;
+                        }
+                        return addresses;
+                    },
+                    0);
+                found = result.outputs;
+            }
+
+            const inputs: { address: string; output: IWalletOutput }[] = [];
+            for (const addressOutput of found) {
+                for (const output of addressOutput.outputs) {
+                    inputs.push({ address: addressOutput.address, output });
+                }
+            }
+
+            if (inputs.length === 0) {
+                throw new Error("The seed does not hold any funds");
+            }
+
+            const chunkCount = Math.ceil(inputs.length / Transaction.MAX_INPUTS);
+            const transactionIds: string[] = [];
+            this.notifyProgress("sweep", 0, chunkCount);
+
+            for (let i = 0; i < inputs.length; i += Transaction.MAX_INPUTS) {
+                const chunk = inputs.slice(i, i + Transaction.MAX_INPUTS);
+                const totals = this.totalBalances(chunk.map(c => c.output));
+
+                const tx: ITransaction = {
+                    inputs: chunk.map(c => c.output.transactionId),
+                    outputs: {
+                        [receiveAddress]: Object.keys(totals).map(color => ({
+                            color,
+                            value: totals[color]
+                        }))
+                    },
+                    signatures: {}
+                };
+                const essence = Transaction.essence(tx);
+
+                const signers = chunk.map(c => c.address).filter((a, idx, all) => all.indexOf(a) === idx);
+                const signed: ICryptoSignature[] = subseedKeyPair
+                    ? [{
+                        index: 0,
+                        address: signers[0],
+                        publicKey: subseedKeyPair.publicKey,
+                        signature: Transaction.sign(subseedKeyPair, essence)
+                    }]
+                    : await this._cryptoService.signBatch(foreignSeed, signers.map(a => indexes[a]), essence);
+
+                for (const signature of signed) {
+                    tx.signatures[signature.address] = {
+                        publicKey: signature.publicKey,
+                        signature: signature.signature
+                    };
+                }
+
+                const response = await apiClient.sendTransaction({
+                    // eslint-disable-next-line @typescript-eslint/camelcase
+                    txn_bytes: Transaction.bytes(tx, essence).toString("base64")
+                });
+                if (response.error) {
+                    throw new Error(response.error);
+                }
+
+                if (response.transaction_id) {
+                    transactionIds.push(response.transaction_id);
+                }
+                this.notifyProgress("sweep", transactionIds.length, chunkCount, response.transaction_id);
+            }
+
+            await this.doUpdates();
+
+            return transactionIds;
+        } finally {
+            foreignSeed.fill(0);
+            subseedKeyPair?.secretKey.fill(0);
+        }
+    }
+
+    /**
+     * Request funds from the faucet.
+     * @returns Returns the transaction id.
+     */
+    public async requestFunds(): Promise<string | undefined> {
+        if (this._wallet && this._addresses) {
+            const receiveAddress = this.getReceiveAddress();
+
+            if (receiveAddress) {
+                const apiClient = await this.buildApiClient();
+                const response = await apiClient.faucet({
+                    address: receiveAddress
+                });
+                if (response.error) {
+                    throw new Error(response.error);
+                }
+                if (response.id) {
+                    // The amounts are filled in when the output appears on the address
+                    await this.addHistory({
+                        id: response.id,
+                        type: "faucet",
+                        direction: "incoming",
+                        addresses: [receiveAddress],
+                        counterparties: [],
+                        amounts: [],
+                        created: Date.now(),
+                        updated: Date.now(),
+                        inclusionState: {},
+                        status: "pending"
+                    });
+                }
+                await this.doUpdates();
+
+                return response.id;
+            }
+        }
+    }
+
+    /**
+     * Get unspent outputs data.
+     * @returns The unspent output data.
+     */
+    public async getUnspentOutputs(): Promise<IWalletAddressOutput[]> {
+        try {
+            return await this.fetchWalletOutputs();
+        } catch (err) {
+            console.error(err);
+            return [];
+        }
+    }
+
+    /**
+     * Fetch the unspent outputs of the wallet addresses, failing if the node can not be reached.
+     * @returns The unspent output data.
+     */
+    private async fetchWalletOutputs(): Promise<IWalletAddressOutput[]> {
+        const wallet = this._wallet;
+        const seed = this._seed;
+        if (wallet?.watchAddresses) {
+            // watched addresses are a fixed list so there is no gap to look for
+            const apiClient = await this.buildApiClient();
+            const { batchSize } = await this.getDiscoveryOptions(0);
+            let unspentOutputs: IWalletAddressOutput[] = [];
+            for (let i = 0; i < wallet.watchAddresses.length; i += batchSize) {
+                unspentOutputs = unspentOutputs.concat(await this.fetchUnspentOutputs(
+                    apiClient, wallet.watchAddresses.slice(i, i + batchSize).map(w => w.address)));
+            }
+            return unspentOutputs;
+        }
+        if (!seed) {
+            return [];
+        }
+
+        const result = await this.discoverAddresses(
+            async (startIndex, count) => this.getAddressRange(seed, startIndex, count),
+            wallet ? wallet.lastAddressIndex : 0);
+
+        // funds found beyond the known addresses extend the wallet
+        if (wallet && this._wallet === wallet && this._seed === seed &&
+            result.lastUsedIndex > wallet.lastAddressIndex) {
+            wallet.lastAddressIndex = result.lastUsedIndex;
+            await this.save();
+        }
+
+        return result.outputs;
+    }
+
+    /**
+     * Fetch the unspent outputs for a set of addresses.
+     * @param apiClient The client to make the request with.
+     * @param addresses The addresses to fetch the outputs for.
+     * @returns The outputs of the addresses which have any.
+     */
+    private async fetchUnspentOutputs(apiClient: ApiClient, addresses: string[]): Promise<IWalletAddressOutput[]> {
+        const response = await apiClient.unspentOutputs({
+            addresses
+        });
+        if (response.error) {
+            throw new Error(response.error);
+        }
+
+        return response.unspent_outputs
+            .filter(u => u.output_ids.length > 0)
+            .map(uo => ({
+                address: uo.address,
+                outputs: uo.output_ids.map(uid => ({
+                    transactionId: uid.id,
+                    balances: uid.balances.map(b => ({
+                        color: b.color,
+                        value: BigInt(b.value)
+                    })),
+                    inclusionState: uid.inclusion_state
+                }))
+            }));
+    }
+
+    /**
+     * Scan the ledger for addresses with outputs to find the last used index.
+     * @param seed The seed to generate the addresses from.
+     * @param onProgress Callback to report progress of the scan.
+     * @returns The highest index with outputs, or 0 if there are none.
+     */
+    private async findLastUsedAddressIndex(
+        seed: Buffer,
+        onProgress?: (progress: IAddressScanProgress) => void): Promise<number> {
+        const result = await this.discoverAddresses(
+            async (startIndex, count) => this.getAddressRange(seed, startIndex, count), 0, onProgress);
+
+        return Math.max(result.lastUsedIndex, 0);
+    }
+
+    /**
+     * Scan derived addresses for outputs until the gap limit is reached.
+     * @param deriveAddresses Derive the addresses for a batch of consecutive indexes.
+     * @param scanToIndex Every index up to this one is scanned whatever the gap.
+     * @param onProgress Callback to report progress of the scan.
+     * @returns The outputs found and the last used index.
+     */
+    private async discoverAddresses(
+        deriveAddresses: (startIndex: number, count: number) => Promise<string[]>,
+        scanToIndex: number,
+        onProgress?: (progress: IAddressScanProgress) => void): Promise<IAddressDiscoveryResult> {
+        const apiClient = await this.buildApiClient();
+
+        const result = await AddressDiscoveryHelper.discover(
+            await this.getDiscoveryOptions(scanToIndex),
+            deriveAddresses,
+            async addresses => this.fetchUnspentOutputs(apiClient, addresses),
+            onProgress);
+
+        if (result.isMaxIndexReached) {
+            console.warn(`The address scan stopped at the maximum index ${AddressDiscoveryHelper.MAX_INDEX}`);
+        }
+
+        return result;
+    }
+
+    /**
+     * Get the options for address discovery from the settings.
+     * @param scanToIndex Every index up to this one is scanned whatever the gap.
+     * @returns The options.
+     */
+    private async getDiscoveryOptions(scanToIndex: number): Promise<IAddressDiscoveryOptions> {
+        const settingsService = ServiceFactory.get<SettingsService>("settings");
+        const settings = await settingsService.get();
+
+        return {
+            gapLimit: settings.addressGapLimit ?? AddressDiscoveryHelper.DEFAULT_GAP_LIMIT,
+            batchSize: settings.addressBatchSize ?? AddressDiscoveryHelper.DEFAULT_BATCH_SIZE,
+            maxIndex: AddressDiscoveryHelper.MAX_INDEX,
+            scanToIndex
+        };
+    }
+
+    /**
+     * Clear the decrypted seed, keys and wallet state.
+     */
+    private clearSession(): void {
+        this.stopUpdates();
+        this.stopIdleCheck();
+        if (this._seed) {
+            this._seed.fill(0);
+            this._seed = undefined;
+        }
+        this._addressCache.clear();
+        this._drafts = {};
+        this._balances = undefined;
+        this._addresses = undefined;
+        this._unspentOutputs = undefined;
+        this._spentOutputTransactions = undefined;
+        this._history = undefined;
+    }
+
+    /**
+     * Save the wallet.
+     */
+    private async save(): Promise<void> {
+        if (this._wallet) {
+            await this._jsonStorageService.set(
+                ProfileService.storageName(await this.getProfileId(), "wallet"), this._wallet);
+        }
+    }
+
+    /**
+     * Save the transaction history.
+     */
+    private async saveHistory(): Promise<void> {
+        if (this._history) {
+            await this._jsonStorageService.set(
+                ProfileService.storageName(await this.getProfileId(), "history"), this._history);
+        }
+    }
+
+    /**
+     * Load the transaction history.
+     * @returns The transaction history.
+     */
+    private async loadHistory(): Promise<IWalletTransaction[]> {
+        const history = await this._jsonStorageService.get<IWalletTransaction[]>(
+            ProfileService.storageName(await this.getProfileId(), "history"));
+        return this.normaliseHistory(history ?? []);
+    }
+
+    /**
+     * Key the history by transaction id, incoming entries used to be keyed by output id
+     * which recorded the remainder of a send as a separate receive.
+     * @param history The stored history.
+     * @returns The history with an entry for each transaction.
+     */
+    private normaliseHistory(history: IWalletTransaction[]): IWalletTransaction[] {
+        const outgoingIds = history.filter(h => h.direction === "outgoing").map(h => h.id);
+        const normalised: IWalletTransaction[] = [];
+
+        for (const transaction of history) {
+            const id = Transaction.idFromOutputId(transaction.id);
+            if (transaction.direction === "incoming" && outgoingIds.includes(id)) {
+                continue;
+            }
+
+            const existing = normalised.find(h => h.id === id);
+            if (existing) {
+                // the outputs of one transaction on several of our addresses
+                existing.addresses = existing.addresses.concat(
+                    transaction.addresses.filter(a => !existing.addresses.includes(a)));
+                existing.amounts = existing.amounts.concat(transaction.amounts);
+            } else {
+                normalised.push({ ...transaction, id });
+            }
+        }
+
+        return normalised;
+    }
+
+    /**
+     * Add a transaction to the history.
+     * @param transaction The transaction to add.
+     */
+    private async addHistory(transaction: IWalletTransaction): Promise<void> {
+        this._history = this._history ?? [];
+        if (!this._history.some(h => h.id === transaction.id)) {
+            this._history.push(transaction);
+            await this.saveHistory();
+        }
+    }
+
+    /**
+     * Create a history entry for a transaction sent by the wallet.
+     * @param transactionId The id of the transaction.
+     * @param sendFundsOptions The options the transaction was sent with.
+     * @param addresses The wallet addresses which were spent.
+     * @returns The history entry.
+     */
+    private createOutgoingHistory(
+        transactionId: string, sendFundsOptions: ISendFundsOptions, addresses: string[]): IWalletTransaction {
+        const amounts: { [color: string]: bigint } = {};
+        let isAsset = false;
+
+        for (const dest in sendFundsOptions.destinations) {
+            for (const color in sendFundsOptions.destinations[dest]) {
+                // newly colored tokens take the transaction id as their color
+                const col = color === Colors.NEW ? transactionId : color;
+                isAsset = isAsset || color === Colors.NEW;
+                amounts[col] = (amounts[col] ?? BigInt(0)) + sendFundsOptions.destinations[dest][color];
+            }
+        }
+
+        return {
+            id: transactionId,
+            type: isAsset ? "asset" : "send",
+            direction: "outgoing",
+            addresses,
+            counterparties: Object.keys(sendFundsOptions.destinations),
+            amounts: Object.keys(amounts).map(color => ({
+                color,
+                value: amounts[color].toString()
+            })),
+            created: Date.now(),
+            updated: Date.now(),
+            inclusionState: {},
+            status: "pending",
+            memo: sendFundsOptions.memo
+        };
+    }
+
+    /**
+     * Update the history from the unspent outputs, recording any new incoming transactions.
+     */
+    private async updateHistory(): Promise<void> {
+        if (!this._history || !this._unspentOutputs) {
+            return;
+        }
+
+        let isChanged = false;
+
+        for (const addressOutput of this._unspentOutputs) {
+            for (const output of addressOutput.outputs) {
+                const amounts: IWalletTransactionAmount[] = output.balances.map(b => ({
+                    color: b.color,
+                    value: b.value.toString()
+                }));
+
+                // outputs are keyed by transaction id so the remainder of a send joins its outgoing entry
+                const transactionId = Transaction.idFromOutputId(output.transactionId);
+                let existing = this._history.find(h => h.id === transactionId);
+
+                if (!existing) {
+                    // the faucet only returns the id of its message, so its entry is found by the address
+                    existing = this._history.find(h =>
+                        h.type === "faucet" && h.amounts.length === 0 && h.addresses.includes(addressOutput.address));
+                    if (existing) {
+                        existing.id = transactionId;
+                    }
+                }
+
+                if (!existing) {
+                    this._history.push({
+                        id: transactionId,
+                        type: "receive",
+                        direction: "incoming",
+                        addresses: [addressOutput.address],
+                        counterparties: [],
+                        amounts,
+                        created: Date.now(),
+                        updated: Date.now(),
+                        inclusionState: output.inclusionState,
+                        status: InclusionStateHelper.transition("pending", output.inclusionState)
+                    });
+                    isChanged = true;
+                } else {
+                    if (existing.direction === "incoming" && !existing.addresses.includes(addressOutput.address)) {
+                        // the same transaction has outputs on more than one of our addresses
+                        existing.addresses.push(addressOutput.address);
+                        existing.amounts = existing.amounts.concat(amounts);
+                        existing.updated = Date.now();
+                        isChanged = true;
+                    } else if (existing.direction === "incoming" && existing.amounts.length === 0) {
+                        existing.amounts = amounts;
+                        existing.updated = Date.now();
+                        isChanged = true;
+                    }
+                    if (this.updateTransactionStatus(existing, output.inclusionState)) {
+                        isChanged = true;
+                    }
+                }
+            }
+        }
+
+        if (isChanged) {
+            await this.saveHistory();
+            await this.save();
+        }
+    }
+
+    /**
+     * Poll the outputs of outgoing transactions which are not yet final to track their status.
+     */
+    private async trackPendingTransactions(): Promise<void> {
+        if (!this._history) {
+            return;
+        }
+
+        const pending = this._history.filter(h =>
+            h.direction === "outgoing" && !InclusionStateHelper.isFinal(h.status));
+
+        // our own addresses are already covered by the unspent outputs
+        const ownAddresses = this._unspentOutputs ? this._unspentOutputs.map(u => u.address) : [];
+        const addresses: string[] = [];
+        for (const transaction of pending) {
+            for (const address of transaction.counterparties) {
+                if (!ownAddresses.includes(address) && !addresses.includes(address)) {
+                    addresses.push(address);
+                }
+            }
+        }
+
+        if (addresses.length === 0) {
+            return;
+        }
+
+        try {
+            const apiClient = await this.buildApiClient();
+            const response = await apiClient.unspentOutputs({ addresses });
+            if (response.error) {
+                throw new Error(response.error);
+            }
+
+            let isChanged = false;
+            for (const transaction of pending) {
+                for (const unspentOutput of response.unspent_outputs) {
+                    if (transaction.counterparties.includes(unspentOutput.address)) {
+                        const output = unspentOutput.output_ids.find(o =>
+                            Transaction.idFromOutputId(o.id) === transaction.id);
+                        if (output && this.updateTransactionStatus(transaction, output.inclusion_state)) {
+                            isChanged = true;
+                        }
+                    }
+                }
+            }
+
+            if (isChanged) {
+                await this.saveHistory();
+                await this.save();
+            }
+        } catch (err) {
+            console.error(err);
+        }
+    }
+
+    /**
+     * Resolve outgoing transactions which have been in flight for too long from the state of their inputs,
+     * as their outputs may never be seen if the node dropped them or the recipient has already spent them.
+     * Only call this with unspent outputs which were just fetched from the node.
+     */
+    private async resolveStaleTransactions(): Promise<void> {
+        if (!this._history || !this._unspentOutputs) {
+            return;
+        }
+
+        const unspentIds: string[] = [];
+        for (const addressOutput of this._unspentOutputs) {
+            for (const output of addressOutput.outputs) {
+                unspentIds.push(output.transactionId);
+            }
+        }
+
+        let isChanged = false;
+        for (const transaction of this._history) {
+            const inputs = transaction.inputs ?? [];
+            if (transaction.direction !== "outgoing" ||
+                !InclusionStateHelper.isInFlight(transaction.status) ||
+                inputs.length === 0 ||
+                Date.now() - transaction.created < WalletService.STALE_TRANSACTION_TIMEOUT) {
+                continue;
+            }
+
+            // a transaction consumes all of its inputs or none of them, so any input which is
+            // still unspent means it was dropped or lost to a conflicting transaction
+            const isConsumed = inputs.every(i => !unspentIds.includes(i));
+            if (isConsumed) {
+                // spent inputs do not show which transaction spent them, so it is left to its outputs
+                const previousStatus = transaction.status;
+                transaction.status = InclusionStateHelper.UNKNOWN;
+                transaction.updated = Date.now();
+                this.notifySubscribers({
+                    type: "transaction-status",
+                    transactionId: transaction.id,
+                    previousStatus,
+                    status: transaction.status
+                });
+                isChanged = true;
+            } else if (this.updateTransactionStatus(transaction, { rejected: true })) {
+                isChanged = true;
+            }
+        }
+
+        if (isChanged) {
+            await this.saveHistory();
+            await this.save();
+        }
+    }
+
+    /**
+     * Update the inclusion state of a transaction and move it to its next status.
+     * Failed outgoing transactions release their inputs and spent addresses so the funds
+     * can be spent again, and take them back if the transaction is later resolved.
+     * @param transaction The transaction to update.
+     * @param inclusionState The latest inclusion state.
+     * @returns True if the transaction was changed.
+     */
+    private updateTransactionStatus(
+        transaction: IWalletTransaction, inclusionState: IWalletOutputInclusionState): boolean {
+        if (JSON.stringify(transaction.inclusionState) === JSON.stringify(inclusionState)) {
+            return false;
+        }
+
+        transaction.inclusionState = inclusionState;
+        transaction.updated = Date.now();
+
+        const previousStatus = transaction.status;
+        const status = InclusionStateHelper.transition(previousStatus, inclusionState);
+
+        if (status !== previousStatus) {
+            transaction.status = status;
+
+            if (transaction.direction === "outgoing") {
+                const wasFailed = InclusionStateHelper.isFailed(previousStatus);
+                const isFailed = InclusionStateHelper.isFailed(status);
+                if (!wasFailed && isFailed) {
+                    this.releaseTransactionInputs(transaction);
+                } else if (wasFailed && !isFailed) {
+                    this.reserveTransactionInputs(transaction);
+                }
+            }
+
+            this.notifySubscribers({
+                type: "transaction-status",
+                transactionId: transaction.id,
+                previousStatus,
+                status
+            });
         }
-        try {
-            const apiClient = await this.buildApiClient();
 
-            const bufferSeed = Base58.decode(this._wallet.seed);
-            const BLOCK_COUNT = 20;
-            let blockIdx = 0;
-            let addressOutputCount;
-            let unspentOutputs: IWalletAddressOutput[] = [];
+        return true;
+    }
 
-            do {
-                const addresses = [];
-                for (let i = 0; i < BLOCK_COUNT; i++) {
-                    addresses.push(Seed.generateAddress(bufferSeed, BigInt(i + blockIdx * BLOCK_COUNT)));
-                }
-                const response = await apiClient.unspentOutputs({
-                    addresses
-                });
-                const usedAddresses = response.unspent_outputs.filter(u => u.output_ids.length > 0);
-                addressOutputCount = usedAddresses.length;
-                blockIdx += BLOCK_COUNT;
-
-                unspentOutputs = unspentOutputs.concat(usedAddresses.map(uo => ({
-                    address: uo.address,
-                    outputs: uo.output_ids.map(uid => ({
-                        transactionId: uid.id,
-                        balances: uid.balances.map(b => ({
-                            color: b.color,
-                            value: BigInt(b.value)
-                        })),
-                        inclusionState: uid.inclusion_state
-                    }))
-                })));
-            } while (addressOutputCount > BLOCK_COUNT - 2);
+    /**
+     * Release the inputs and addresses of a failed transaction so they can be spent again.
+     * @param transaction The failed transaction.
+     */
+    private releaseTransactionInputs(transaction: IWalletTransaction): void {
+        const inputs = transaction.inputs ?? [];
+        const spentAddresses = transaction.spentAddresses ?? [];
 
-            return unspentOutputs;
-        } catch (err) {
-            console.error(err);
-            return [];
+        if (this._spentOutputTransactions) {
+            this._spentOutputTransactions = this._spentOutputTransactions.filter(t => !inputs.includes(t));
+        }
+        if (this._wallet) {
+            this._wallet.spentAddresses = this._wallet.spentAddresses.filter(a => !spentAddresses.includes(a));
+        }
+        if (this._addresses) {
+            for (const address of this._addresses) {
+                if (spentAddresses.includes(address.address)) {
+                    address.isSpent = false;
+                }
+            }
         }
     }
 
     /**
-     * Save the wallet.
+     * Reserve the inputs and addresses of a transaction again after a conflict was resolved.
+     * @param transaction The resolved transaction.
      */
-    private async save(): Promise<void> {
+    private reserveTransactionInputs(transaction: IWalletTransaction): void {
+        this._spentOutputTransactions = this._spentOutputTransactions ?? [];
+        for (const input of transaction.inputs ?? []) {
+            if (!this._spentOutputTransactions.includes(input)) {
+                this._spentOutputTransactions.push(input);
+            }
+        }
         if (this._wallet) {
-            await this._jsonStorageService.set("wallet.json", this._wallet);
+            for (const address of transaction.spentAddresses ?? []) {
+                if (!this._wallet.spentAddresses.includes(address)) {
+                    this._wallet.spentAddresses.push(address);
+                }
+            }
         }
     }
 
@@ -419,21 +1867,34 @@ export class WalletService implements IWalletService {
      * @returns The wallet if there is one.
      */
     private async load(): Promise<IWallet | undefined> {
-        this._wallet = await this._jsonStorageService.get("wallet.json");
+        this._wallet = await this._jsonStorageService.get(
+            ProfileService.storageName(await this.getProfileId(), "wallet"));
         return this._wallet;
     }
 
+    /**
+     * Get the id of the profile the wallet belongs to.
+     * @returns The profile id.
+     */
+    private async getProfileId(): Promise<string> {
+        if (!this._profileId) {
+            const profile = await this._profileService.getActive();
+            this._profileId = profile.id;
+        }
+        return this._profileId;
+    }
+
     /**
      * From all the inputs determine which ones we need to consume.
      * @param sendFundOptions The request funds.
+     * @param excludedOutputs Outputs which must not be consumed.
      * @returns The output that we need to consume.
      */
-    private determineOutputsToConsume(sendFundOptions: ISendFundsOptions): {
-        [address: string]: { [transactionId: string]: IWalletOutput };
-    } {
+    private async determineOutputsToConsume(sendFundOptions: ISendFundsOptions, excludedOutputs: string[] = []):
+        Promise<{ [address: string]: { [transactionId: string]: IWalletOutput } }> {
         const outputsToConsume: { [address: string]: { [transactionId: string]: IWalletOutput } } = {};
 
-        const requiredFunds: { [color: string]: bigint } = {};
+        let requiredFunds: { [color: string]: bigint } = {};
 
         for (const dest in sendFundOptions.destinations) {
             for (const color in sendFundOptions.destinations[dest]) {
@@ -447,48 +1908,40 @@ export class WalletService implements IWalletService {
             }
         }
 
-        // look for the required funds in the available unspent outputs
-        if (this._unspentOutputs) {
-            for (const unspentOutput of this._unspentOutputs) {
-                let outputsFromAddressSpent = false;
-
-                // scan the outputs on this address for required funds
-                for (const output of unspentOutput.outputs.filter(o =>
-                    !this._spentOutputTransactions ||
-                    !this._spentOutputTransactions.includes(o.transactionId))) {
-                    // keeps track if the output contains any usable funds
-                    let requiredColorFoundInOutput = false;
-
-                    // subtract the found matching balances from the required funds
-                    for (const balance of output.balances) {
-                        if (requiredFunds[balance.color]) {
-                            if (requiredFunds[balance.color] > balance.value) {
-                                requiredFunds[balance.color] -= balance.value;
-                            } else {
-                                delete requiredFunds[balance.color];
-                            }
-                            requiredColorFoundInOutput = true;
-                        }
-                    }
-
-                    // if we found required tokens in this output
-                    if (requiredColorFoundInOutput) {
-                        // store the output in the outputs to use for the transfer
-                        outputsToConsume[unspentOutput.address] = {};
-                        outputsToConsume[unspentOutput.address][output.transactionId] = output;
+        if (sendFundOptions.inputs) {
+            // the outputs have been chosen manually so use exactly those
+            const candidates = this.buildCoinSelectionCandidates(excludedOutputs, true);
 
-                        // mark address as spent
-                        outputsFromAddressSpent = true;
-                    }
+            for (const transactionId of sendFundOptions.inputs) {
+                const candidate = candidates.find(c => c.outputs[0].transactionId === transactionId);
+                if (!candidate) {
+                    throw new Error(`The output ${transactionId} is not available to spend`);
                 }
+                outputsToConsume[candidate.address] = outputsToConsume[candidate.address] ?? {};
+                outputsToConsume[candidate.address][transactionId] = candidate.outputs[0];
+                requiredFunds = CoinSelectionHelper.subtract(requiredFunds, candidate);
+            }
 
-                // if outputs from this address were spent add the remaining outputs as well
-                // (we want to spend only once from every address if we are not using a reusable address)
-                if (outputsFromAddressSpent && !this._reusableAddresses) {
-                    for (const output of unspentOutput.outputs) {
-                        outputsToConsume[unspentOutput.address][output.transactionId] = output;
-                    }
+            // an address is only spent once, unless a single transaction can not hold all of its outputs
+            if (!this._reusableAddresses && sendFundOptions.inputs.length < Transaction.MAX_INPUTS) {
+                const [partial] = CoinSelectionHelper.partialAddresses(
+                    this.getAvailableOutputs() ?? [], sendFundOptions.inputs);
+                if (partial) {
+                    throw new Error(
+                        `Only some outputs of ${partial} are selected, its outputs must all be spent together`);
+                }
+            }
+        } else if (this._unspentOutputs) {
+            // let the strategy choose which of the available outputs to use
+            const strategy = CoinSelectionStrategies.get(sendFundOptions.coinSelection);
+            const candidates = this.buildCoinSelectionCandidates(excludedOutputs);
+
+            for (const candidate of strategy.select(candidates, requiredFunds)) {
+                outputsToConsume[candidate.address] = outputsToConsume[candidate.address] ?? {};
+                for (const output of candidate.outputs) {
+                    outputsToConsume[candidate.address][output.transactionId] = output;
                 }
+                requiredFunds = CoinSelectionHelper.subtract(requiredFunds, candidate);
             }
         }
 
@@ -504,7 +1957,8 @@ export class WalletService implements IWalletService {
 
         if ((!sendFundOptions.remainderAddress || outputsToConsume[sendFundOptions.remainderAddress])
             && !this._reusableAddresses) {
-            sendFundOptions.remainderAddress = this.newReceiveAddress();
+            // the address is only claimed when the transaction is sent, so a discarded draft does not use it up
+            sendFundOptions.remainderAddress = await this.peekReceiveAddress();
         }
 
         if (Object.keys(requiredFunds).length > 0) {
@@ -514,6 +1968,168 @@ export class WalletService implements IWalletService {
         return outputsToConsume;
     }
 
+    /**
+     * Sign and broadcast a draft, the draft is removed whether or not it succeeds.
+     * @param id The id of the draft to submit.
+     * @returns The new tx id.
+     */
+    private async submitDraft(id: string): Promise<string | undefined> {
+        const draft = this._drafts[id];
+        if (!draft) {
+            throw new Error("The draft has expired, review the transaction again");
+        }
+        delete this._drafts[id];
+
+        if (this.isDraftSpent(draft)) {
+            throw new Error("Some of the inputs of the draft have been spent, review the transaction again");
+        }
+
+        const signed = await this.signUnsignedTransaction(draft);
+        return this.broadcastSignedTransaction(signed);
+    }
+
+    /**
+     * Remove any drafts whose inputs are no longer available to spend.
+     */
+    private expireDrafts(): void {
+        for (const id in this._drafts) {
+            if (this.isDraftSpent(this._drafts[id])) {
+                delete this._drafts[id];
+                this.notifySubscribers({
+                    type: "draft-expired",
+                    draftId: id
+                });
+            }
+        }
+    }
+
+    /**
+     * Has any input of the draft been spent since it was created.
+     * @param draft The draft to check.
+     * @returns True if any of the inputs are no longer available.
+     */
+    private isDraftSpent(draft: ITransactionDraft): boolean {
+        const available: string[] = [];
+        for (const addressOutput of this.getAvailableOutputs() ?? []) {
+            for (const output of addressOutput.outputs) {
+                available.push(output.transactionId);
+            }
+        }
+
+        return draft.inputs.some(input => !available.includes(input.transactionId));
+    }
+
+    /**
+     * Replace the destination amount with the maximum that can be sent and spend exactly those outputs.
+     * @param sendFundsOptions The options for sending.
+     */
+    private applySendMax(sendFundsOptions: ISendFundsOptions): void {
+        const addresses = Object.keys(sendFundsOptions.destinations);
+        const colors = addresses.length === 1 ? Object.keys(sendFundsOptions.destinations[addresses[0]]) : [];
+        if (colors.length !== 1) {
+            throw new Error("Sending the maximum needs a single destination with a single color");
+        }
+
+        const max = this.getMaxSendAmount(colors[0]);
+        if (max.amount <= BigInt(0)) {
+            throw new Error(max.pending > BigInt(0)
+                ? "The confirmed funds are on addresses with unconfirmed outputs, send them once those confirm"
+                : "There are no confirmed funds to send");
+        }
+
+        sendFundsOptions.destinations[addresses[0]][colors[0]] = max.amount;
+        sendFundsOptions.inputs = max.inputs;
+    }
+
+    /**
+     * Build the candidates for coin selection from the available unspent outputs.
+     * @param excludedOutputs Outputs which must not be consumed.
+     * @param individualOutputs Make a candidate for each output even if addresses are not reusable.
+     * @returns The candidates in ledger order.
+     */
+    private buildCoinSelectionCandidates(
+        excludedOutputs: string[],
+        individualOutputs: boolean = false): ICoinSelectionCandidate[] {
+        const candidates: ICoinSelectionCandidate[] = [];
+
+        for (const unspentOutput of this._unspentOutputs ?? []) {
+            const available = unspentOutput.outputs.filter(o =>
+                (!this._spentOutputTransactions ||
+                    !this._spentOutputTransactions.includes(o.transactionId)) &&
+                !excludedOutputs.includes(o.transactionId));
+
+            // we want to spend only once from every address if we are not using a reusable address,
+            // so all of its outputs are consumed together
+            let groups: IWalletOutput[][] = [];
+            if (this._reusableAddresses || individualOutputs) {
+                groups = available.map(o => [o]);
+            } else if (available.length > 0) {
+                groups = [available];
+            }
+
+            for (const outputs of groups) {
+                const balances: { [color: string]: bigint } = {};
+                let created: number | undefined;
+
+                for (const output of outputs) {
+                    for (const balance of output.balances) {
+                        balances[balance.color] = (balances[balance.color] ?? BigInt(0)) + balance.value;
+                    }
+
+                    const transactionId = Transaction.idFromOutputId(output.transactionId);
+                    const received = this._history?.find(h => h.id === transactionId);
+                    if (received && (created === undefined || received.created < created)) {
+                        created = received.created;
+                    }
+                }
+
+                candidates.push({
+                    address: unspentOutput.address,
+                    outputs,
+                    balances,
+                    order: candidates.length,
+                    created
+                });
+            }
+        }
+
+        return candidates;
+    }
+
+    /**
+     * Get the coin selection strategy chosen in the settings.
+     * @returns The id of the strategy.
+     */
+    private async getDefaultCoinSelection(): Promise<string> {
+        const settingsService = ServiceFactory.get<SettingsService>("settings");
+        const settings = await settingsService.get();
+        return settings.coinSelection ?? CoinSelectionStrategies.DEFAULT_ID;
+    }
+
+    /**
+     * Find the outputs that would be consumed by sending, without changing the wallet.
+     * @param sendFundsOptions The options for sending.
+     * @param excludedOutputs Outputs which must not be consumed.
+     * @returns The ids of the outputs that would be consumed.
+     */
+    private async countConsumedOutputs(sendFundsOptions: ISendFundsOptions, excludedOutputs: string[]):
+        Promise<string[]> {
+        const consumedOutputs = await this.determineOutputsToConsume(
+            {
+                destinations: sendFundsOptions.destinations,
+                // a placeholder stops a new remainder address being generated
+                remainderAddress: sendFundsOptions.remainderAddress ?? "-",
+                coinSelection: sendFundsOptions.coinSelection
+            },
+            excludedOutputs);
+
+        const outputIds: string[] = [];
+        for (const address in consumedOutputs) {
+            outputIds.push(...Object.keys(consumedOutputs[address]));
+        }
+        return outputIds;
+    }
+
     /**
      * Build input for the transfer.
      * @param outputsToUseAsInputs The output to use in the transfer.
@@ -634,6 +2250,43 @@ export class WalletService implements IWalletService {
         return outputsBySlice;
     }
 
+    /**
+     * Rebuild the transaction from its inputs and outputs and check it matches the essence.
+     * @param unsigned The transaction to verify.
+     * @returns The rebuilt transaction and its essence.
+     */
+    private verifyEssence(unsigned: IUnsignedTransaction): {
+        /**
+         * The rebuilt transaction.
+         */
+        tx: ITransaction;
+        /**
+         * The essence of the transaction.
+         */
+        essence: Buffer;
+    } {
+        const tx: ITransaction = {
+            inputs: unsigned.inputs.map(i => i.transactionId),
+            outputs: {},
+            dataPayload: unsigned.memo ? Buffer.from(unsigned.memo, "utf8") : undefined,
+            signatures: {}
+        };
+
+        for (const output of unsigned.outputs) {
+            tx.outputs[output.address] = output.balances.map(b => ({
+                color: b.color,
+                value: BigInt(b.value)
+            }));
+        }
+
+        const essence = Transaction.essence(tx);
+        if (essence.toString("base64") !== unsigned.essence) {
+            throw new Error("The transaction essence does not match its inputs and outputs");
+        }
+
+        return { tx, essence };
+    }
+
     /**
      * Create send fund options from the parameters.
      * @param address The source address.
@@ -653,35 +2306,329 @@ export class WalletService implements IWalletService {
     }
 
     /**
-     * Start wallet updates.
+     * Start wallet updates, pushed by the event stream when it is enabled and polled otherwise.
      */
     private async startUpdates(): Promise<void> {
         this.stopUpdates();
-        this._timerId = setInterval(
-            async () => this.doUpdates(),
-            10000);
+        const generation = this._updatesGeneration;
+        this._updateInterval = UpdateIntervalHelper.DEFAULT_INTERVAL;
+        this._streamRetryDelay = UpdateIntervalHelper.MIN_INTERVAL;
+        this.schedulePoll(generation);
+
+        // connecting can take a while so it is not waited for
+        this.connectEventStream(generation);
     }
 
     /**
      * Stop wallet updates.
      */
     private stopUpdates(): void {
+        this._updatesGeneration++;
         if (this._timerId) {
-            clearInterval(this._timerId);
+            clearTimeout(this._timerId);
             this._timerId = undefined;
         }
+        if (this._streamRetryTimerId) {
+            clearTimeout(this._streamRetryTimerId);
+            this._streamRetryTimerId = undefined;
+        }
+        if (this._streamUpdateTimerId) {
+            clearTimeout(this._streamUpdateTimerId);
+            this._streamUpdateTimerId = undefined;
+        }
+        if (this._eventStream) {
+            this._eventStream.close();
+            this._eventStream = undefined;
+        }
     }
 
     /**
-     * Perform wallet updates.
+     * Schedule the next poll, polls only reconcile with the node while the event stream is open.
+     * @param generation The generation of the updates.
      */
-    private async doUpdates(): Promise<void> {
-        this._unspentOutputs = await this.getUnspentOutputs();
+    private schedulePoll(generation: number): void {
+        const interval = this._eventStream?.isConnected()
+            ? UpdateIntervalHelper.MAX_INTERVAL : this._updateInterval;
+
+        this._timerId = setTimeout(
+            async () => {
+                this._timerId = undefined;
+                const outcome = await this.doUpdates();
+                if (generation === this._updatesGeneration) {
+                    this._updateInterval = UpdateIntervalHelper.next(
+                        this._updateInterval, outcome, this.hasPendingUpdates());
+                    this.schedulePoll(generation);
+                }
+            },
+            interval);
+    }
+
+    /**
+     * Replace a waiting poll with one at the current interval, a poll in progress schedules its own.
+     * @param generation The generation of the updates.
+     */
+    private reschedulePoll(generation: number): void {
+        if (this._timerId) {
+            clearTimeout(this._timerId);
+            this._timerId = undefined;
+            this.schedulePoll(generation);
+        }
+    }
+
+    /**
+     * Connect to the event stream of the node, retrying with a growing delay if it is unavailable.
+     * @param generation The generation of the updates.
+     */
+    private async connectEventStream(generation: number): Promise<void> {
+        const settingsService = ServiceFactory.get<SettingsService>("settings");
+        const settings = await settingsService.get();
+        if (!settings.isEventStreamEnabled || !EventStreamClient.isSupported()) {
+            return;
+        }
+
+        const eventStream = new EventStreamClient(await this.getApiEndpoint());
+        if (generation !== this._updatesGeneration) {
+            return;
+        }
+        this._eventStream = eventStream;
+        // the addresses are sent as soon as the stream opens
+        eventStream.subscribe(this.getStreamAddresses());
+
+        try {
+            await eventStream.connect(
+                event => this.handleStreamEvent(event),
+                () => this.handleStreamClosed(generation));
+        } catch {
+            if (this._eventStream === eventStream) {
+                this._eventStream = undefined;
+                this.scheduleStreamRetry(generation);
+            }
+            return;
+        }
+
+        if (this._eventStream === eventStream) {
+            this._streamRetryDelay = UpdateIntervalHelper.MIN_INTERVAL;
+            eventStream.subscribe(this.getStreamAddresses());
+            this.reschedulePoll(generation);
+        }
+    }
+
+    /**
+     * Try connecting to the event stream again after a delay.
+     * @param generation The generation of the updates.
+     */
+    private scheduleStreamRetry(generation: number): void {
+        const delay = this._streamRetryDelay;
+        this._streamRetryDelay = UpdateIntervalHelper.backOff(delay);
+
+        this._streamRetryTimerId = setTimeout(
+            async () => {
+                this._streamRetryTimerId = undefined;
+                await this.connectEventStream(generation);
+            },
+            delay);
+    }
+
+    /**
+     * The event stream was closed so poll until it can be reconnected.
+     * @param generation The generation of the updates.
+     */
+    private handleStreamClosed(generation: number): void {
+        if (generation !== this._updatesGeneration) {
+            return;
+        }
+
+        this._eventStream = undefined;
+        this._updateInterval = UpdateIntervalHelper.MIN_INTERVAL;
+        this.reschedulePoll(generation);
+        this.scheduleStreamRetry(generation);
+    }
+
+    /**
+     * Update the wallet once a burst of events for its addresses has passed.
+     * @param event The event from the stream.
+     */
+    private handleStreamEvent(event: IEventStreamEvent): void {
+        if (!this._addresses?.some(a => a.address === event.address)) {
+            return;
+        }
+
+        if (this._streamUpdateTimerId) {
+            clearTimeout(this._streamUpdateTimerId);
+        }
+        this._streamUpdateTimerId = setTimeout(
+            async () => {
+                this._streamUpdateTimerId = undefined;
+                await this.doUpdates();
+            },
+            WalletService.STREAM_UPDATE_DELAY);
+    }
+
+    /**
+     * Get the addresses to receive stream events for.
+     * @returns The addresses.
+     */
+    private getStreamAddresses(): string[] {
+        return this._addresses ? this._addresses.map(a => a.address) : [];
+    }
+
+    /**
+     * Is the wallet waiting for outputs or transactions to confirm.
+     * @returns True if there is something pending.
+     */
+    private hasPendingUpdates(): boolean {
+        const hasUnconfirmed = this._unspentOutputs?.some(a => a.outputs.some(o => !o.inclusionState.confirmed));
+        // transactions in flight for longer are resolved by their inputs so need no quick polling
+        const hasPendingTransaction = this._history?.some(h =>
+            h.direction === "outgoing" && InclusionStateHelper.isInFlight(h.status) &&
+            Date.now() - h.created < WalletService.STALE_TRANSACTION_TIMEOUT);
+
+        return hasUnconfirmed === true || hasPendingTransaction === true;
+    }
+
+    /**
+     * Get a key which changes whenever the outputs or their inclusion states change.
+     * @param unspentOutputs The outputs.
+     * @returns The key.
+     */
+    private outputsKey(unspentOutputs: IWalletAddressOutput[]): string {
+        return JSON.stringify(unspentOutputs.map(a => [
+            a.address,
+            a.outputs.map(o => [o.transactionId, o.inclusionState])
+        ]));
+    }
+
+    /**
+     * Start checking for the wallet being idle.
+     */
+    private startIdleCheck(): void {
+        this.stopIdleCheck();
+        this._lastActivity = Date.now();
+        this._idleTimerId = setInterval(
+            async () => this.checkIdle(),
+            5000);
+    }
+
+    /**
+     * Stop checking for the wallet being idle.
+     */
+    private stopIdleCheck(): void {
+        if (this._idleTimerId) {
+            clearInterval(this._idleTimerId);
+            this._idleTimerId = undefined;
+        }
+    }
+
+    /**
+     * Lock the wallet if it has been idle for longer than the configured period.
+     */
+    private async checkIdle(): Promise<void> {
+        const settingsService = ServiceFactory.get<SettingsService>("settings");
+        const settings = await settingsService.get();
+        const autoLockMinutes = settings.autoLockMinutes ?? SettingsService.DEFAULT_AUTO_LOCK_MINUTES;
+
+        if (autoLockMinutes > 0 && Date.now() - this._lastActivity > autoLockMinutes * 60000) {
+            this.lock();
+        }
+    }
+
+    /**
+     * Perform wallet updates, the current state is kept if the node can not be reached.
+     * @returns Whether the outputs changed, stayed the same or could not be fetched.
+     */
+    private async doUpdates(): Promise<"changed" | "unchanged" | "failed"> {
+        if (!this._seed && !this.isWatchOnly()) {
+            return "unchanged";
+        }
+        const profileId = this._profileId;
+        let unspentOutputs: IWalletAddressOutput[];
+        try {
+            unspentOutputs = await this.fetchWalletOutputs();
+        } catch (err) {
+            console.error(err);
+            return "failed";
+        }
+
+        // the profile was switched while the outputs were requested
+        if (profileId !== this._profileId || (!this._seed && !this.isWatchOnly())) {
+            return "unchanged";
+        }
+        const isChanged = this.outputsKey(unspentOutputs) !== this.outputsKey(this._unspentOutputs ?? []);
+        this._unspentOutputs = unspentOutputs;
         await this.calculateAddressesAndBalances();
+        await this.updateHistory();
+        await this.trackPendingTransactions();
+        await this.resolveStaleTransactions();
+        this.expireDrafts();
+
+        if (this._eventStream) {
+            this._eventStream.subscribe(this.getStreamAddresses());
+        }
+
+        this.notifySubscribers();
+
+        return isChanged ? "changed" : "unchanged";
+    }
+
+    /**
+     * Notify the subscribers of an update, plain updates often come in bursts so they are coalesced.
+     * @param event The event to notify, if there is one.
+     */
+    private notifySubscribers(event?: IWalletEvent): void {
+        if (event) {
+            for (const id in this._subscribers) {
+                this._subscribers[id](event);
+            }
+            return;
+        }
+
+        if (this._notifyTimerId) {
+            clearTimeout(this._notifyTimerId);
+        }
+        this._notifyTimerId = setTimeout(
+            () => {
+                this._notifyTimerId = undefined;
+                for (const id in this._subscribers) {
+                    this._subscribers[id]();
+                }
+            },
+            WalletService.NOTIFY_DELAY);
+    }
+
+    /**
+     * Notify the subscribers of the progress of an operation.
+     * @param operation The operation in progress.
+     * @param completed The number of transactions sent.
+     * @param total The number of transactions to send.
+     * @param transactionId The id of the last transaction sent.
+     */
+    private notifyProgress(
+        operation: "consolidate" | "sweep",
+        completed: number,
+        total: number,
+        transactionId?: string): void {
+        this.notifySubscribers({
+            type: "progress",
+            operation,
+            completed,
+            total,
+            transactionId
+        });
+    }
 
-        for (const id in this._subscribers) {
-            this._subscribers[id]();
+    /**
+     * Total the balances of outputs by color.
+     * @param outputs The outputs to total.
+     * @returns The totals by color.
+     */
+    private totalBalances(outputs: IWalletOutput[]): { [color: string]: bigint } {
+        const totals: { [color: string]: bigint } = {};
+        for (const output of outputs) {
+            for (const balance of output.balances) {
+                totals[balance.color] = (totals[balance.color] ?? BigInt(0)) + balance.value;
+            }
         }
+        return totals;
     }
 
     /**
@@ -690,8 +2637,17 @@ export class WalletService implements IWalletService {
      */
     private async initialiseWallet(): Promise<void> {
         this._unspentOutputs = await this.getUnspentOutputs();
+        this._history = this._history ?? await this.loadHistory();
+
+        // outputs consumed by transactions still in flight remain unavailable
         this._spentOutputTransactions = [];
+        for (const transaction of this._history) {
+            if (transaction.direction === "outgoing" && InclusionStateHelper.isInFlight(transaction.status)) {
+                this._spentOutputTransactions.push(...(transaction.inputs ?? []));
+            }
+        }
         await this.calculateAddressesAndBalances();
+        await this.updateHistory();
     }
 
     /**
@@ -699,7 +2655,7 @@ export class WalletService implements IWalletService {
      * @param addressOutputs The address outputs to calculate balance from.
      */
     private async calculateAddressesAndBalances(): Promise<void> {
-        if (this._wallet && this._unspentOutputs) {
+        if (this._wallet && (this._seed || this._wallet.watchAddresses) && this._unspentOutputs) {
             this._balances = [];
             this._addresses = [];
             const colorMap: { [id: string]: IWalletBalance } = {};
@@ -707,16 +2663,33 @@ export class WalletService implements IWalletService {
             const assetsMap: { [id: string]: IWalletAsset } = {};
             const addedAssets: IWalletAsset[] = [];
 
-            for (let i = 0; i <= this._wallet.lastAddressIndex; i++) {
-                const addr = Seed.generateAddress(Base58.decode(this._wallet.seed), BigInt(i));
-                const address: IWalletAddress = {
-                    index: BigInt(i),
-                    address: addr,
-                    isSpent: this._wallet &&
-                        this._wallet.spentAddresses.includes(addr) ? true : false
-                };
-                addressMap[address.address] = address;
-                this._addresses.push(address);
+            if (this._wallet.watchAddresses) {
+                for (let i = 0; i < this._wallet.watchAddresses.length; i++) {
+                    const watchAddress = this._wallet.watchAddresses[i];
+                    const address: IWalletAddress = {
+                        // addresses watched without an index are numbered by their position
+                        index: BigInt(watchAddress.index ?? i),
+                        address: watchAddress.address,
+                        isSpent: this._wallet.spentAddresses.includes(watchAddress.address),
+                        label: this._wallet.addressLabels?.[watchAddress.address]
+                    };
+                    addressMap[address.address] = address;
+                    this._addresses.push(address);
+                }
+            } else if (this._seed) {
+                const derived = await this._addressCache.getAddresses(this._seed, this._wallet.lastAddressIndex + 1);
+                for (let i = 0; i <= this._wallet.lastAddressIndex; i++) {
+                    const addr = derived[i];
+                    const address: IWalletAddress = {
+                        index: BigInt(i),
+                        address: addr,
+                        isSpent: this._wallet &&
+                            this._wallet.spentAddresses.includes(addr) ? true : false,
+                        label: this._wallet.addressLabels?.[addr]
+                    };
+                    addressMap[address.address] = address;
+                    this._addresses.push(address);
+                }
             }
 
             assetsMap.IOTA = {
@@ -765,7 +2738,7 @@ export class WalletService implements IWalletService {
             const lastUnspent = this.getLastUnspentAddress();
 
             if (!lastUnspent) {
-                this.newReceiveAddress();
+                await this.newReceiveAddress();
             }
 
             if (addedAssets.length > 0) {
@@ -803,29 +2776,77 @@ export class WalletService implements IWalletService {
      * Get a new receive address for transfers.
      * @returns The new receive address.
      */
-    private newReceiveAddress(): string | undefined {
-        if (this._wallet && this._addresses) {
-            this._wallet.lastAddressIndex++;
-
-            const addr = Seed.generateAddress(Base58.decode(this._wallet.seed), BigInt(this._wallet.lastAddressIndex));
+    private async newReceiveAddress(): Promise<string | undefined> {
+        const seed = this._seed;
+        const addresses = this._addresses;
+        if (this._wallet && seed && addresses) {
+            // claim the index before deriving so concurrent calls get different addresses
+            const index = ++this._wallet.lastAddressIndex;
+
+            const addr = await this._addressCache.getAddress(seed, index);
             const address: IWalletAddress = {
-                index: BigInt(this._wallet.lastAddressIndex),
+                index: BigInt(index),
                 address: addr,
                 isSpent: false
             };
-            this._addresses.push(address);
+            addresses.push(address);
 
             return addr;
         }
     }
 
+    /**
+     * Get the address which the next new receive address will be, without claiming its index.
+     * @returns The next receive address.
+     */
+    private async peekReceiveAddress(): Promise<string | undefined> {
+        if (this._wallet && this._seed) {
+            return this._addressCache.getAddress(this._seed, this._wallet.lastAddressIndex + 1);
+        }
+    }
+
+    /**
+     * Is the address derived from the seed, within the gap limit beyond the last known address.
+     * @param seed The seed to derive the addresses from.
+     * @param address The address to check.
+     * @returns True if the address is derived from the seed.
+     */
+    private async isSeedAddress(seed: Buffer, address: string): Promise<boolean> {
+        const { gapLimit } = await this.getDiscoveryOptions(0);
+        const lastAddressIndex = this._wallet ? this._wallet.lastAddressIndex : 0;
+        const addresses = await this._addressCache.getAddresses(seed, lastAddressIndex + gapLimit + 1);
+
+        return addresses.includes(address);
+    }
+
+    /**
+     * Get a range of addresses for the seed from the cache.
+     * @param seed The seed to derive the addresses from.
+     * @param startIndex The index of the first address.
+     * @param count The number of addresses.
+     * @returns The addresses in index order.
+     */
+    private async getAddressRange(seed: Buffer, startIndex: number, count: number): Promise<string[]> {
+        const addresses = await this._addressCache.getAddresses(seed, startIndex + count);
+        return addresses.slice(startIndex, startIndex + count);
+    }
+
     /**
      * Build an API Client for requests.
      * @returns The API Client.
      */
     private async buildApiClient(): Promise<ApiClient> {
+        return new ApiClient(await this.getApiEndpoint());
+    }
+
+    /**
+     * Get the API endpoint of the active profile, or from the settings if it does not have one.
+     * @returns The API endpoint.
+     */
+    private async getApiEndpoint(): Promise<string> {
         const settingsService = ServiceFactory.get<SettingsService>("settings");
         const settings = await settingsService.get();
-        return new ApiClient(settings.apiEndpoint);
+        const profile = await this._profileService.getActive();
+        return profile.apiEndpoint ?? settings.apiEndpoint;
     }
 }
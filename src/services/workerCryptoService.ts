@@ -0,0 +1,207 @@
+import { ICryptoRequest } from "../models/ICryptoRequest";
+import { ICryptoResponse } from "../models/ICryptoResponse";
+import { ICryptoSignature } from "../models/ICryptoSignature";
+import { ICryptoService } from "../models/services/ICryptoService";
+import { CryptoService } from "./cryptoService";
+
+/**
+ * Service to perform crypto operations in a web worker so the render thread stays responsive.
+ */
+export class WorkerCryptoService implements ICryptoService {
+    /**
+     * The url of the worker script, it is built as a separate entry with a fixed name.
+     */
+    public static readonly WORKER_URL: string = `${process.env.PUBLIC_URL}/static/js/crypto.worker.js`;
+
+    /**
+     * The service to use if the worker can not be started.
+     */
+    private readonly _fallback: CryptoService;
+
+    /**
+     * The requests waiting for a response from the worker.
+     */
+    private readonly _pending: {
+        [id: number]: {
+            /**
+             * The request which was sent.
+             */
+            request: ICryptoRequest;
+            /**
+             * Resolve the request.
+             */
+            resolve: (response: ICryptoResponse) => void;
+        };
+    };
+
+    /**
+     * The worker, undefined once it has failed.
+     */
+    private _worker?: Worker;
+
+    /**
+     * The id of the next request.
+     */
+    private _nextId: number;
+
+    /**
+     * Create a new instance of WorkerCryptoService.
+     */
+    constructor() {
+        this._fallback = new CryptoService();
+        this._pending = {};
+        this._nextId = 0;
+
+        try {
+            this._worker = new Worker(WorkerCryptoService.WORKER_URL);
+            this._worker.addEventListener("message", e => this.handleResponse(e.data));
+            this._worker.addEventListener("error", e => this.handleFailure(e));
+        } catch (err) {
+            console.error(err);
+            this._worker = undefined;
+        }
+    }
+
+    /**
+     * Derive a batch of consecutive addresses from a seed.
+     * @param seed The seed to derive from.
+     * @param startIndex The index of the first address.
+     * @param count The number of addresses to derive.
+     * @returns The addresses in index order.
+     */
+    public async deriveAddresses(seed: Buffer, startIndex: number, count: number): Promise<string[]> {
+        const response = await this.send({
+            id: this._nextId++,
+            operation: "derive-addresses",
+            seed: Uint8Array.from(seed),
+            startIndex,
+            count
+        });
+
+        return response.result as string[];
+    }
+
+    /**
+     * Sign data with the key pairs of a batch of addresses.
+     * @param seed The seed to derive the key pairs from.
+     * @param indexes The indexes of the addresses to sign with.
+     * @param data The data to sign.
+     * @returns A signature for each index in the same order.
+     */
+    public async signBatch(seed: Buffer, indexes: number[], data: Buffer): Promise<ICryptoSignature[]> {
+        const response = await this.send({
+            id: this._nextId++,
+            operation: "sign-batch",
+            seed: Uint8Array.from(seed),
+            indexes,
+            data: Uint8Array.from(data)
+        });
+
+        // buffers arrive from the worker as plain byte arrays
+        return (response.result as ICryptoSignature[]).map(s => ({
+            index: s.index,
+            address: s.address,
+            publicKey: Buffer.from(s.publicKey),
+            signature: Buffer.from(s.signature)
+        }));
+    }
+
+    /**
+     * Hash the essence of a transaction.
+     * @param essence The essence to hash.
+     * @returns The hex encoded hash.
+     */
+    public async hashEssence(essence: Buffer): Promise<string> {
+        const response = await this.send({
+            id: this._nextId++,
+            operation: "hash-essence",
+            data: Uint8Array.from(essence)
+        });
+
+        return response.result as string;
+    }
+
+    /**
+     * Send a request to the worker, or perform it on this thread if there is no worker.
+     * @param request The request to send.
+     * @returns The response.
+     */
+    private async send(request: ICryptoRequest): Promise<ICryptoResponse> {
+        let response: ICryptoResponse;
+
+        try {
+            if (this._worker) {
+                const worker = this._worker;
+                response = await new Promise<ICryptoResponse>(resolve => {
+                    this._pending[request.id] = { request, resolve };
+                    worker.postMessage(request);
+                });
+            } else {
+                response = await this.perform(request);
+            }
+        } finally {
+            // the request holds a copy of the seed which is no longer needed
+            request.seed?.fill(0);
+        }
+
+        if (response.error) {
+            throw new Error(response.error);
+        }
+        return response;
+    }
+
+    /**
+     * Perform a request with the fallback service.
+     * @param request The request to perform.
+     * @returns The response.
+     */
+    private async perform(request: ICryptoRequest): Promise<ICryptoResponse> {
+        const seed = Buffer.from(request.seed ?? []);
+        const data = Buffer.from(request.data ?? []);
+        try {
+            let result: ICryptoResponse["result"];
+            if (request.operation === "derive-addresses") {
+                result = await this._fallback.deriveAddresses(seed, request.startIndex ?? 0, request.count ?? 0);
+            } else if (request.operation === "sign-batch") {
+                result = await this._fallback.signBatch(seed, request.indexes ?? [], data);
+            } else {
+                result = await this._fallback.hashEssence(data);
+            }
+            return { id: request.id, result };
+        } catch (err) {
+            return { id: request.id, error: err.message };
+        } finally {
+            seed.fill(0);
+        }
+    }
+
+    /**
+     * Handle a response from the worker.
+     * @param response The response.
+     */
+    private handleResponse(response: ICryptoResponse): void {
+        const pending = this._pending[response.id];
+        if (pending) {
+            delete this._pending[response.id];
+            pending.resolve(response);
+        }
+    }
+
+    /**
+     * The worker failed so stop using it and perform the outstanding requests on this thread.
+     * @param err The error from the worker.
+     */
+    private handleFailure(err: ErrorEvent): void {
+        console.error("The crypto worker failed, falling back to the render thread", err.message);
+        if (this._worker) {
+            this._worker.terminate();
+            this._worker = undefined;
+        }
+
+        for (const id in this._pending) {
+            const pending = this._pending[id];
+            delete this._pending[id];
+            this.perform(pending.request).then(pending.resolve);
+        }
+    }
+}
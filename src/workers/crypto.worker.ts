@@ -0,0 +1,22 @@
+import { CryptoRequestHelper } from "../helpers/cryptoRequestHelper";
+import { ICryptoRequest } from "../models/ICryptoRequest";
+import { ICryptoResponse } from "../models/ICryptoResponse";
+
+/**
+ * The scope of the worker, typed without the window members of the dom library.
+ */
+const scope = globalThis as unknown as {
+    /**
+     * Add a listener for messages from the render thread.
+     */
+    addEventListener(type: "message", listener: (e: MessageEvent) => void): void;
+
+    /**
+     * Send a message to the render thread.
+     */
+    postMessage(message: ICryptoResponse): void;
+};
+
+scope.addEventListener("message", e => {
+    scope.postMessage(CryptoRequestHelper.execute(e.data as ICryptoRequest));
+});